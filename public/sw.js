@@ -0,0 +1,52 @@
+/**
+ * Service worker for Web Push notifications
+ * Served from the site root so its scope covers every route. Push payloads are JSON:
+ *   { title, body, tag?, url? }
+ * where url is an in-app path, e.g. /orders?order=<id>, /messages?with=<userId>
+ * or /messages?order=<orderId> for an order chat.
+ */
+
+const DEFAULT_ICON = '/favicon-login.svg';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch (error) {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Zero Community', {
+      body: payload.body || '',
+      tag: payload.tag,
+      icon: payload.icon || DEFAULT_ICON,
+      data: { url: payload.url || '/' }
+    })
+  );
+});
+
+// Focus an open tab and let the app route there, or open a new one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const client = windows.find((win) => new URL(win.url).origin === self.location.origin);
+      if (client) {
+        client.postMessage({ type: 'notification-click', url });
+        return client.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -25,7 +25,16 @@ import CreateCatalog from './pages/CreateCatalog.tsx';
 import PublicCatalogs from './pages/PublicCatalogs.tsx';
 import PublicCatalog from './pages/PublicCatalog.tsx';
 import MenuPage from './pages/MenuPage.tsx';
+import Kitchen from './pages/Kitchen.tsx';
+import PaymentCallback from './pages/PaymentCallback.tsx';
+import MockGateway from './pages/MockGateway.tsx';
+import { MOCK_GATEWAY_PATH, MOCK_PAYMENT_ENABLED } from './services/paymentService.ts';
+import Ledger from './pages/Ledger.tsx';
+import TrackOrder from './pages/TrackOrder.tsx';
 import useFavicon from './hooks/use-favicon.ts';
+import usePushNotifications from './hooks/usePushNotifications.ts';
+import { useDriverLocationPublisher } from './hooks/useDriverLocation.ts';
+import NotificationService from './services/notificationService.ts';
 
 const App: React.FC = () => {
   const navigate = useNavigate();
@@ -36,6 +45,9 @@ const App: React.FC = () => {
   const [sessionId, setSessionId] = useState<string | null>(null);
 
   useFavicon(user?.role);
+  usePushNotifications(!!user);
+  // Drivers share their position for orders they are handling (opt-in via shareLocation)
+  const { sharing: sharingLocation } = useDriverLocationPublisher(user);
 
   useEffect(() => {
     const token = localStorage.getItem('token');
@@ -81,10 +93,13 @@ const App: React.FC = () => {
     }
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
     const token = localStorage.getItem('token');
 
     console.log('Loging out sessionId:', sessionId, ' -- token:', token)
+    // The next user of this browser must not get this account's notifications.
+    // Runs before the token is cleared so the backend can drop the subscription too
+    await NotificationService.disablePush();
     localStorage.removeItem('token');
     localStorage.removeItem('sessionId');
     localStorage.removeItem('user');
@@ -114,7 +129,7 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen bg-background">
-      {isAuthenticated && <Navigation user={user} onLogout={handleLogout} onStatusChange={handleStatusChange} />}
+      {isAuthenticated && <Navigation user={user} onLogout={handleLogout} onStatusChange={handleStatusChange} sharingLocation={sharingLocation} />}
       <main className="max-w-7xl mx-auto px-4 py-6">
         <Routes>
           {/* Public routes - accessible without authentication */}
@@ -122,6 +137,9 @@ const App: React.FC = () => {
           <Route path="/catalog/public/:catalogId" element={<PublicCatalog />} />
           <Route path="/orders" element={<Orders user={user!} />} />
           <Route path="/login" element={<Login onLogin={handleLogin} />} />
+          <Route path="/payment/callback" element={<PaymentCallback />} />
+          {MOCK_PAYMENT_ENABLED && <Route path={MOCK_GATEWAY_PATH} element={<MockGateway />} />}
+          <Route path="/track/:orderId" element={<TrackOrder />} />
 
           {!isAuthenticated ? (
             <>
@@ -147,6 +165,8 @@ const App: React.FC = () => {
               <Route path="/catalogs" element={<Catalogs />} />
               <Route path="/catalogs/create" element={<CreateCatalog />} />
               <Route path="/menu" element={<MenuPage user={user!} />} />
+              <Route path="/kitchen" element={<Kitchen user={user!} />} />
+              <Route path="/ledger" element={<Ledger user={user!} />} />
               <Route path="*" element={<Navigate to="/dashboard" />} />
             </>
           )}
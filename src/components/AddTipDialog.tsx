@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { HeartHandshake, Loader2 } from 'lucide-react';
+import { OrderService } from '../services/orderService';
+import { TIP_PRESETS } from '../utils/tips';
+import TipSelector from './TipSelector';
+
+interface AddTipDialogProps {
+  orderId: string;
+  driverName?: string;
+  onTipped: () => void;
+}
+
+/**
+ * Tip the driver after delivery, for orders without a checkout tip
+ */
+const AddTipDialog: React.FC<AddTipDialogProps> = ({ orderId, driverName, onTipped }) => {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [tip, setTip] = useState<number>(TIP_PRESETS[0]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (tip <= 0) return;
+    setSubmitting(true);
+    try {
+      if (await OrderService.addTip(orderId, tip)) {
+        setOpen(false);
+        onTipped();
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <HeartHandshake className="w-4 h-4 mr-2" />
+          {t('components.tip.addTip')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('components.tip.addTipTitle')}</DialogTitle>
+          <DialogDescription>
+            {t('components.tip.addTipDescription', { driver: driverName || t('components.tip.yourDriver') })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <TipSelector value={tip} onChange={setTip} allowNone={false} />
+
+        <div className="flex gap-3 pt-2">
+          <Button variant="outline" className="flex-1" onClick={() => setOpen(false)}>
+            {t('components.tip.cancel')}
+          </Button>
+          <Button className="flex-1" disabled={tip <= 0 || submitting} onClick={handleSubmit}>
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t('components.tip.send')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddTipDialog;
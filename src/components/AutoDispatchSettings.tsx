@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Route, Loader2 } from 'lucide-react';
+import { dispatchAPI, AutoDispatchRules, AutoDispatchStrategy } from '../services/api';
+import { DEFAULT_AUTO_DISPATCH_RULES } from '../utils/dispatch';
+
+const STRATEGIES: AutoDispatchStrategy[] = ['nearest_online', 'least_busy'];
+const TRIGGERS: AutoDispatchRules['trigger'][] = ['accepted', 'prepared'];
+
+type LimitField = 'maxDistanceKm' | 'maxActiveOrders';
+
+/**
+ * Store-side editor for auto-dispatch rules, shown in the account page
+ */
+const AutoDispatchSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const [rules, setRules] = useState<AutoDispatchRules>(DEFAULT_AUTO_DISPATCH_RULES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadRules = async () => {
+      try {
+        const response = await dispatchAPI.getMine();
+        if (response.success && response.data) {
+          setRules({ ...DEFAULT_AUTO_DISPATCH_RULES, ...response.data });
+        }
+      } catch (error) {
+        // Not configured yet - keep the defaults
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadRules();
+  }, []);
+
+  const setLimit = (field: LimitField, value: string) => {
+    setRules(prev => ({ ...prev, [field]: Math.max(0, Number(value) || 0) }));
+  };
+
+  const handleSave = async () => {
+    if (rules.maxActiveOrders < 1) {
+      toast.error(t('components.autoDispatch.invalidLoad'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await dispatchAPI.update(rules);
+      if (response.success) {
+        toast.success(t('components.autoDispatch.saved'));
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('components.autoDispatch.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const limitFields: { field: LimitField; label: string }[] = [
+    { field: 'maxDistanceKm', label: t('components.autoDispatch.maxDistanceKm') },
+    { field: 'maxActiveOrders', label: t('components.autoDispatch.maxActiveOrders') }
+  ];
+
+  return (
+    <Card className="shadow-lg border-0" style={{ background: 'linear-gradient(135deg, oklch(var(--card)), oklch(var(--card) / 0.5))' }}>
+      <CardHeader className="pb-3 md:pb-4">
+        <div className="flex items-center space-x-2 md:space-x-3">
+          <div className="p-1.5 md:p-2 bg-primary/10 rounded-lg">
+            <Route className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle className="text-lg md:text-xl">{t('components.autoDispatch.title')}</CardTitle>
+            <p className="text-xs md:text-sm text-muted-foreground">{t('components.autoDispatch.description')}</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 md:p-6">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor="auto-dispatch-enabled" className="text-sm">{t('components.autoDispatch.enabled')}</Label>
+              <Switch
+                id="auto-dispatch-enabled"
+                checked={rules.enabled}
+                onCheckedChange={(checked) => setRules(prev => ({ ...prev, enabled: checked }))}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">{t('components.autoDispatch.strategy')}</Label>
+                <Select
+                  value={rules.strategy}
+                  onValueChange={(value) => setRules(prev => ({ ...prev, strategy: value as AutoDispatchStrategy }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STRATEGIES.map(strategy => (
+                      <SelectItem key={strategy} value={strategy}>
+                        {t(`components.autoDispatch.strategies.${strategy}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">{t('components.autoDispatch.trigger')}</Label>
+                <Select
+                  value={rules.trigger}
+                  onValueChange={(value) => setRules(prev => ({ ...prev, trigger: value as AutoDispatchRules['trigger'] }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRIGGERS.map(trigger => (
+                      <SelectItem key={trigger} value={trigger}>
+                        {t(`components.autoDispatch.triggers.${trigger}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {limitFields.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`dispatch-${field}`} className="text-xs">{label}</Label>
+                  <Input
+                    id={`dispatch-${field}`}
+                    type="number"
+                    min={field === 'maxActiveOrders' ? 1 : 0}
+                    step={field === 'maxDistanceKm' ? 0.5 : 1}
+                    value={rules[field]}
+                    onChange={(e) => setLimit(field, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">{t('components.autoDispatch.hint')}</p>
+
+            <Button className="w-full" disabled={saving} onClick={handleSave}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t('components.autoDispatch.save')}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AutoDispatchSettings;
@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Progress } from './ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { CheckCircle, XCircle, ChefHat, Clock, CreditCard, Ban, Loader2, X } from 'lucide-react';
+import { orderAPI, ApiResponse } from '../services/api';
+import { OrderStateMachine, TIME_ADJUST_STEPS } from '../services/orderStateMachine';
+import { useBulkOperation } from '../hooks/useApi';
+import { toPersianNumbers } from '@/lib/utils';
+
+type BulkAction = 'accept_store' | 'reject_store' | 'prepare' | 'adjust_prepare' | 'mark_paid' | 'mark_unpaid';
+
+interface BulkActionDef {
+  label: string;
+  icon: React.ComponentType<{ className?: string }>;
+  variant?: 'default' | 'outline' | 'destructive';
+  isValid: (order: any, role: string) => boolean;
+  run: (orderId: string, minutes: number) => Promise<ApiResponse<any>>;
+}
+
+// Rejected and canceled orders are closed for payment changes
+const isClosed = (order: any) => order.status === 'rejected' || OrderStateMachine.isCanceled(order.status);
+
+// Online payments move through the gateway, never by hand
+const BULK_ACTIONS: Record<BulkAction, BulkActionDef> = {
+  accept_store: {
+    label: 'components.bulkOrders.accept',
+    icon: CheckCircle,
+    isValid: (order, role) => OrderStateMachine.can(order, role, 'accept_store'),
+    run: (orderId) => orderAPI.acceptByStore(orderId)
+  },
+  reject_store: {
+    label: 'components.bulkOrders.reject',
+    icon: XCircle,
+    variant: 'destructive',
+    isValid: (order, role) => OrderStateMachine.can(order, role, 'reject_store'),
+    run: (orderId) => orderAPI.rejectByStore(orderId)
+  },
+  prepare: {
+    label: 'components.bulkOrders.prepare',
+    icon: ChefHat,
+    isValid: (order, role) => OrderStateMachine.can(order, role, 'prepare'),
+    run: (orderId) => orderAPI.prepareOrder(orderId)
+  },
+  adjust_prepare: {
+    label: 'components.bulkOrders.adjustPrepare',
+    icon: Clock,
+    variant: 'outline',
+    isValid: (order, role) => OrderStateMachine.canAdjustTime(order, role, 'prepare'),
+    run: (orderId, minutes) => orderAPI.adjustPreparationTime(orderId, minutes)
+  },
+  mark_paid: {
+    label: 'components.bulkOrders.markPaid',
+    icon: CreditCard,
+    variant: 'outline',
+    isValid: (order) => !order.payment && order.paymentMethod !== 'online' && !isClosed(order),
+    run: (orderId) => orderAPI.markOrderAsPaid(orderId)
+  },
+  mark_unpaid: {
+    label: 'components.bulkOrders.markUnpaid',
+    icon: Ban,
+    variant: 'outline',
+    isValid: (order) => !!order.payment && order.paymentMethod !== 'online',
+    run: (orderId) => orderAPI.markOrderAsUnpaid(orderId)
+  }
+};
+
+const ACTION_ORDER = Object.keys(BULK_ACTIONS) as BulkAction[];
+
+type ItemState = 'pending' | 'running' | 'done' | 'failed';
+
+interface BulkResult {
+  succeeded: string[];
+  failed: { orderId: string; message: string }[];
+}
+
+interface BulkOrderActionsProps {
+  // Orders currently on screen, selection is limited to these
+  orders: any[];
+  role: string;
+  selectedIds: Set<string>;
+  onSelectionChange: (ids: Set<string>) => void;
+  onComplete: () => void;
+}
+
+/**
+ * Selection bar for store orders
+ * Only offers actions the state machine allows for every selected order, runs
+ * them one order at a time and keeps failed orders selected for a retry.
+ */
+const BulkOrderActions: React.FC<BulkOrderActionsProps> = ({ orders, role, selectedIds, onSelectionChange, onComplete }) => {
+  const { t } = useTranslation();
+  const [minutes, setMinutes] = useState(TIME_ADJUST_STEPS[0]);
+  const [progress, setProgress] = useState<Record<string, ItemState>>({});
+  const [failures, setFailures] = useState<BulkResult['failed']>([]);
+
+  const selectedOrders = orders.filter(order => selectedIds.has(order._id));
+  const availableActions = selectedOrders.length === 0
+    ? []
+    : ACTION_ORDER.filter(action => selectedOrders.every(order => BULK_ACTIONS[action].isValid(order, role)));
+
+  const bulk = useBulkOperation<BulkResult, { action: BulkAction; orderIds: string[]; minutes: number }>(
+    async ({ action, orderIds, minutes }) => {
+      const result: BulkResult = { succeeded: [], failed: [] };
+      setProgress(Object.fromEntries(orderIds.map(id => [id, 'pending' as ItemState])));
+
+      for (const orderId of orderIds) {
+        setProgress(prev => ({ ...prev, [orderId]: 'running' }));
+        try {
+          await BULK_ACTIONS[action].run(orderId, minutes);
+          result.succeeded.push(orderId);
+          setProgress(prev => ({ ...prev, [orderId]: 'done' }));
+        } catch (error: any) {
+          const failure = { orderId, message: error.message || t('components.bulkOrders.failed') };
+          result.failed.push(failure);
+          setFailures(prev => [...prev, failure]);
+          setProgress(prev => ({ ...prev, [orderId]: 'failed' }));
+        }
+      }
+
+      if (result.succeeded.length === 0) {
+        return { success: false, message: t('components.bulkOrders.allFailed') };
+      }
+      return { success: true, message: '', data: result };
+    },
+    (result) => {
+      const done = result?.succeeded.length || 0;
+      const failed = result?.failed.length || 0;
+      return failed > 0
+        ? { warning: t('components.bulkOrders.partialFailure', { failed, total: done + failed }) }
+        : t('components.bulkOrders.summary', { done, total: done });
+    }
+  );
+
+  const handleRun = async (action: BulkAction) => {
+    if (action === 'reject_store' && !window.confirm(t('components.bulkOrders.confirmReject', { count: selectedOrders.length }))) {
+      return;
+    }
+
+    const orderIds = selectedOrders.map(order => order._id);
+    setFailures([]);
+    try {
+      const result = await bulk.mutateAsync({ action, orderIds, minutes });
+      // Failed orders stay selected so they can be retried
+      onSelectionChange(new Set(result?.failed.map(failure => failure.orderId)));
+    } catch (error) {
+      // Every order failed; the hook already reported it and the selection stays as it was
+    }
+    onComplete();
+  };
+
+  const clearResults = () => {
+    setProgress({});
+    setFailures([]);
+  };
+
+  if (orders.length === 0) return null;
+
+  const allSelected = selectedOrders.length === orders.length;
+  const progressIds = Object.keys(progress);
+  const finished = progressIds.filter(id => progress[id] === 'done' || progress[id] === 'failed').length;
+
+  return (
+    <Card className="mb-6 sticky top-2 z-20">
+      <CardContent className="p-3 space-y-3">
+        <div className="flex items-center gap-3 flex-wrap">
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={allSelected}
+              onCheckedChange={(checked) => onSelectionChange(new Set(checked ? orders.map(order => order._id) : []))}
+            />
+            {selectedOrders.length > 0
+              ? t('components.bulkOrders.selected', { count: selectedOrders.length })
+              : t('components.bulkOrders.selectAll', { count: orders.length })}
+          </label>
+
+          {selectedOrders.length > 0 && availableActions.length === 0 && (
+            <span className="text-sm text-muted-foreground">{t('components.bulkOrders.noCommonActions')}</span>
+          )}
+
+          {availableActions.map(action => {
+            const def = BULK_ACTIONS[action];
+            return (
+              <div key={action} className="flex items-center gap-1">
+                {action === 'adjust_prepare' && (
+                  <Select value={String(minutes)} onValueChange={(value) => setMinutes(Number(value))}>
+                    <SelectTrigger className="h-8 w-20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIME_ADJUST_STEPS.map(step => (
+                        <SelectItem key={step} value={String(step)}>
+                          {step > 0 ? '+' : ''}{toPersianNumbers(step)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button size="sm" variant={def.variant || 'default'} disabled={bulk.isPending} onClick={() => handleRun(action)}>
+                  <def.icon className="w-4 h-4 mr-1" />
+                  {t(def.label)}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        {progressIds.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Progress value={finished} max={progressIds.length} className="h-2 flex-1" />
+              <span className="text-xs text-muted-foreground">
+                {toPersianNumbers(finished)}/{toPersianNumbers(progressIds.length)}
+              </span>
+              {!bulk.isPending && (
+                <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={clearResults}>
+                  <X className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {progressIds.map(id => (
+                <span
+                  key={id}
+                  className={`inline-flex items-center gap-1 rounded border px-1.5 py-0.5 text-xs ${
+                    progress[id] === 'failed' ? 'border-destructive text-destructive' : progress[id] === 'done' ? 'border-green-500 text-green-600' : 'text-muted-foreground'
+                  }`}
+                >
+                  {progress[id] === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {progress[id] === 'done' && <CheckCircle className="w-3 h-3" />}
+                  {progress[id] === 'failed' && <XCircle className="w-3 h-3" />}
+                  #{id.slice(-6)}
+                </span>
+              ))}
+            </div>
+            {failures.length > 0 && (
+              <ul className="text-xs text-destructive space-y-0.5">
+                {failures.map(failure => (
+                  <li key={failure.orderId}>#{failure.orderId.slice(-6)}: {failure.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BulkOrderActions;
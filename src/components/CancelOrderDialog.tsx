@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { XCircle, Loader2 } from 'lucide-react';
+import { OrderService } from '../services/orderService';
+import { CANCEL_REASONS, OrderRole } from '../services/orderStateMachine';
+
+interface CancelOrderDialogProps {
+  orderId: string;
+  role: OrderRole;
+  // Customer, store or driver id sent with the cancel request
+  actorId: string;
+  onCanceled: () => void;
+  // Overrides the default OrderService call, e.g. for guest sessions
+  onSubmit?: (reason: { code: string; note?: string }) => Promise<boolean>;
+}
+
+const CancelOrderDialog: React.FC<CancelOrderDialogProps> = ({ orderId, role, actorId, onCanceled, onSubmit }) => {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState('');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setCode('');
+      setNote('');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!code) return;
+    if (code === 'other' && !note.trim()) {
+      toast.error(t('components.cancelOrder.noteRequired'));
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const reason = { code, note: note.trim() || undefined };
+      const success = onSubmit
+        ? await onSubmit(reason)
+        : await OrderService.cancelOrder(orderId, actorId, role, reason);
+      if (success) {
+        handleOpenChange(false);
+        onCanceled();
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full text-destructive hover:text-destructive hover:bg-destructive/10">
+          <XCircle className="w-4 h-4 mr-2" />
+          {t('components.cancelOrder.button')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('components.cancelOrder.title')}</DialogTitle>
+          <DialogDescription>{t('components.cancelOrder.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {(CANCEL_REASONS[role] ?? []).map(reason => (
+            <label
+              key={reason}
+              className={`flex items-center gap-2 p-2 border rounded-lg cursor-pointer text-sm ${code === reason ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'}`}
+            >
+              <input
+                type="radio"
+                name={`cancel-reason-${orderId}`}
+                value={reason}
+                checked={code === reason}
+                onChange={() => setCode(reason)}
+              />
+              {t(`components.cancelOrder.reasons.${reason}`)}
+            </label>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor={`cancel-note-${orderId}`} className="text-sm">
+            {code === 'other' ? t('components.cancelOrder.noteRequiredLabel') : t('components.cancelOrder.noteLabel')}
+          </Label>
+          <Textarea
+            id={`cancel-note-${orderId}`}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            maxLength={500}
+          />
+        </div>
+
+        <div className="flex gap-3 pt-2">
+          <Button variant="outline" className="flex-1" onClick={() => handleOpenChange(false)}>
+            {t('components.cancelOrder.keep')}
+          </Button>
+          <Button variant="destructive" className="flex-1" disabled={!code || submitting} onClick={handleSubmit}>
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t('components.cancelOrder.confirm')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelOrderDialog;
@@ -0,0 +1,200 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { CheckCircle, CreditCard, Loader2, MapPin, Clock, XCircle } from 'lucide-react';
+import { PaymentMethod } from '../services/api';
+import { formatPersianCurrency, formatPersianDateTime, toPersianNumbers } from '@/lib/utils';
+
+/**
+ * One store cart as it goes into the group
+ */
+export interface CheckoutAllLine {
+  storeId: string;
+  storeName: string;
+  itemCount: number;
+  subtotal: number;
+  deliveryFee: number;
+  tip: number;
+  // Why the store can't take this order as set up, e.g. outside its delivery zones
+  blockedReason?: string;
+}
+
+/**
+ * What happened to one store cart once the group was sent
+ */
+export interface CheckoutAllOutcome {
+  storeId: string;
+  storeName: string;
+  orderId?: string;
+  message?: string;
+}
+
+interface CheckoutAllDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lines: CheckoutAllLine[];
+  isTakeout: boolean;
+  address: string;
+  scheduledFor?: string;
+  paymentMethod: PaymentMethod;
+  placing: boolean;
+  outcome: CheckoutAllOutcome[] | null;
+  onConfirm: () => void;
+  // Starts paying every placed order, the gateway is visited once per order
+  onPayAll: (orders: { orderId: string; storeName: string }[]) => void;
+  onDone: () => void;
+}
+
+/**
+ * Review step for placing every store cart at once, then the per-store result
+ */
+const CheckoutAllDialog: React.FC<CheckoutAllDialogProps> = ({
+  open,
+  onOpenChange,
+  lines,
+  isTakeout,
+  address,
+  scheduledFor,
+  paymentMethod,
+  placing,
+  outcome,
+  onConfirm,
+  onPayAll,
+  onDone
+}) => {
+  const { t } = useTranslation();
+  const lineTotal = (line: CheckoutAllLine) => line.subtotal + line.deliveryFee + line.tip;
+  const grandTotal = lines.reduce((sum, line) => sum + lineTotal(line), 0);
+  // Each store order has its own driver, so the tip is paid once per line
+  const tipTotal = lines.reduce((sum, line) => sum + line.tip, 0);
+  const blocked = lines.some(line => line.blockedReason);
+
+  const renderReview = () => (
+    <>
+      <div className="space-y-3">
+        {lines.map(line => (
+          <div key={line.storeId} className="rounded-lg border p-3 space-y-1 text-sm">
+            <div className="flex justify-between font-medium">
+              <span>{line.storeName}</span>
+              <span>{formatPersianCurrency(lineTotal(line))}</span>
+            </div>
+            <div className="flex justify-between text-muted-foreground">
+              <span>{t('components.checkoutAll.items', { count: line.itemCount, items: toPersianNumbers(line.itemCount) })}</span>
+              <span>{formatPersianCurrency(line.subtotal)}</span>
+            </div>
+            {isTakeout && (
+              <div className="flex justify-between text-muted-foreground">
+                <span>{t('components.checkoutAll.deliveryFee')}</span>
+                <span>{formatPersianCurrency(line.deliveryFee)}</span>
+              </div>
+            )}
+            {line.tip > 0 && (
+              <div className="flex justify-between text-muted-foreground">
+                <span>{t('components.tip.driverTipPerDelivery')}</span>
+                <span>{formatPersianCurrency(line.tip)}</span>
+              </div>
+            )}
+            {line.blockedReason && <p className="text-xs text-destructive">{line.blockedReason}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2 border-t pt-3 text-sm">
+        <div className="flex items-start gap-2">
+          <MapPin className="w-4 h-4 mt-0.5 text-muted-foreground" />
+          <span>{isTakeout ? (address || t('components.checkoutAll.noAddress')) : t('components.checkoutAll.inStore')}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-muted-foreground" />
+          <span>{scheduledFor ? formatPersianDateTime(scheduledFor) : t('components.scheduledOrder.asap')}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <CreditCard className="w-4 h-4 text-muted-foreground" />
+          <span>{paymentMethod === 'online' ? t('components.payment.online') : t('components.payment.cash')}</span>
+        </div>
+        {tipTotal > 0 && (
+          <div className="flex justify-between border-t pt-2 text-muted-foreground">
+            <span>{t('components.checkoutAll.tipTotal', { count: lines.length, deliveries: toPersianNumbers(lines.length) })}</span>
+            <span>{formatPersianCurrency(tipTotal)}</span>
+          </div>
+        )}
+        <div className="flex justify-between border-t pt-2 text-base font-semibold">
+          <span>{t('components.checkoutAll.grandTotal')}</span>
+          <span className="text-primary">{formatPersianCurrency(grandTotal)}</span>
+        </div>
+      </div>
+
+      <div className="flex gap-3 pt-2">
+        <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+          {t('components.checkoutAll.back')}
+        </Button>
+        <Button className="flex-1" disabled={placing || blocked} onClick={onConfirm}>
+          {placing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {t('components.checkoutAll.placeAll', { count: lines.length, stores: toPersianNumbers(lines.length) })}
+        </Button>
+      </div>
+    </>
+  );
+
+  const renderOutcome = (results: CheckoutAllOutcome[]) => {
+    const toPay = paymentMethod === 'online'
+      ? results.flatMap(result => result.orderId ? [{ orderId: result.orderId, storeName: result.storeName }] : [])
+      : [];
+
+    return (
+      <>
+        <div className="space-y-2">
+          {results.map(result => (
+            <div key={result.storeId} className="flex items-start justify-between gap-3 rounded-lg border p-3 text-sm">
+              <div className="flex items-start gap-2">
+                {result.orderId ? (
+                  <CheckCircle className="w-4 h-4 mt-0.5 text-green-600" />
+                ) : (
+                  <XCircle className="w-4 h-4 mt-0.5 text-destructive" />
+                )}
+                <div>
+                  <p className="font-medium">{result.storeName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {result.orderId
+                      ? t('components.checkoutAll.placed', { id: result.orderId.slice(-8) })
+                      : result.message || t('components.checkoutAll.rejected')}
+                  </p>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+        {results.some(result => !result.orderId) && (
+          <p className="text-sm text-muted-foreground">{t('components.checkoutAll.rejectedHint')}</p>
+        )}
+        {toPay.length > 0 ? (
+          <Button className="w-full" onClick={() => onPayAll(toPay)}>
+            <CreditCard className="w-4 h-4 mr-2" />
+            {t('components.checkoutAll.payAll', { count: toPay.length, orders: toPersianNumbers(toPay.length) })}
+          </Button>
+        ) : (
+          <Button className="w-full" onClick={onDone}>{t('components.checkoutAll.done')}</Button>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{outcome ? t('components.checkoutAll.resultTitle') : t('components.checkoutAll.reviewTitle')}</DialogTitle>
+          <DialogDescription>
+            {outcome ? t('components.checkoutAll.resultDescription') : t('components.checkoutAll.reviewDescription')}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {outcome ? renderOutcome(outcome) : renderReview()}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CheckoutAllDialog;
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Truck, Plus, Trash2, Loader2 } from 'lucide-react';
+import { deliveryPricingAPI, DeliveryPricing, SurgeRule } from '../services/api';
+import { DEFAULT_DELIVERY_PRICING, calculateFeeForDistance } from '../utils/deliveryFee';
+import { formatPersianCurrency, toPersianNumbers } from '@/lib/utils';
+
+const WEEK_DAYS = [6, 0, 1, 2, 3, 4, 5]; // Persian week starts on Saturday
+const EXAMPLE_DISTANCE_KM = 3;
+
+const newSurgeRule = (): SurgeRule => ({
+  label: '',
+  multiplier: 1.5,
+  days: [],
+  startTime: '12:00',
+  endTime: '14:00'
+});
+
+/**
+ * Store-side editor for delivery pricing, shown in the account page
+ */
+const DeliveryPricingSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const [pricing, setPricing] = useState<DeliveryPricing>(DEFAULT_DELIVERY_PRICING);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadPricing = async () => {
+      try {
+        const response = await deliveryPricingAPI.getMine();
+        if (response.success && response.data) {
+          setPricing({ ...DEFAULT_DELIVERY_PRICING, ...response.data, surge: response.data.surge || [] });
+        }
+      } catch (error) {
+        // Not configured yet - keep the defaults
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadPricing();
+  }, []);
+
+  const setField = (field: keyof Omit<DeliveryPricing, 'surge'>, value: string) => {
+    setPricing(prev => ({ ...prev, [field]: Math.max(0, Number(value) || 0) }));
+  };
+
+  const updateSurge = (index: number, changes: Partial<SurgeRule>) => {
+    setPricing(prev => ({
+      ...prev,
+      surge: prev.surge.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    }));
+  };
+
+  const toggleSurgeDay = (index: number, day: number) => {
+    const days = pricing.surge[index].days || [];
+    updateSurge(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day] });
+  };
+
+  const handleSave = async () => {
+    if (pricing.surge.some(rule => rule.multiplier < 1)) {
+      toast.error(t('components.deliveryFee.invalidMultiplier'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await deliveryPricingAPI.update(pricing);
+      if (response.success) {
+        toast.success(t('components.deliveryFee.saved'));
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('components.deliveryFee.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Sample quote so the store sees what a typical order would cost right now
+  const example = calculateFeeForDistance(pricing, EXAMPLE_DISTANCE_KM, 0);
+
+  const numberFields: { field: keyof Omit<DeliveryPricing, 'surge'>; label: string }[] = [
+    { field: 'baseFee', label: t('components.deliveryFee.baseFee') },
+    { field: 'perKmRate', label: t('components.deliveryFee.perKmRate') },
+    { field: 'minimumFee', label: t('components.deliveryFee.minimumFee') },
+    { field: 'freeDeliveryThreshold', label: t('components.deliveryFee.freeDeliveryThreshold') },
+    { field: 'maxDistanceKm', label: t('components.deliveryFee.maxDistanceKm') }
+  ];
+
+  return (
+    <Card className="shadow-lg border-0" style={{ background: 'linear-gradient(135deg, oklch(var(--card)), oklch(var(--card) / 0.5))' }}>
+      <CardHeader className="pb-3 md:pb-4">
+        <div className="flex items-center space-x-2 md:space-x-3">
+          <div className="p-1.5 md:p-2 bg-primary/10 rounded-lg">
+            <Truck className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle className="text-lg md:text-xl">{t('components.deliveryFee.settingsTitle')}</CardTitle>
+            <p className="text-xs md:text-sm text-muted-foreground">{t('components.deliveryFee.settingsDescription')}</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 md:p-6">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {numberFields.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`pricing-${field}`} className="text-xs">{label}</Label>
+                  <Input
+                    id={`pricing-${field}`}
+                    type="number"
+                    min={0}
+                    value={pricing[field] ?? 0}
+                    onChange={(e) => setField(field, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-sm">{t('components.deliveryFee.surge')}</h4>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPricing(prev => ({ ...prev, surge: [...prev.surge, newSurgeRule()] }))}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  {t('components.deliveryFee.addSurge')}
+                </Button>
+              </div>
+
+              {pricing.surge.length === 0 && (
+                <p className="text-xs text-muted-foreground">{t('components.deliveryFee.noSurge')}</p>
+              )}
+
+              {pricing.surge.map((rule, index) => (
+                <div key={index} className="p-3 border rounded-lg bg-muted/10 space-y-2">
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    <Input
+                      placeholder={t('components.deliveryFee.surgeLabel')}
+                      value={rule.label}
+                      onChange={(e) => updateSurge(index, { label: e.target.value })}
+                      className="col-span-2 sm:col-span-1"
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      step={0.1}
+                      title={t('components.deliveryFee.multiplier')}
+                      value={rule.multiplier}
+                      onChange={(e) => updateSurge(index, { multiplier: Number(e.target.value) || 1 })}
+                    />
+                    <Input
+                      type="time"
+                      value={rule.startTime}
+                      onChange={(e) => updateSurge(index, { startTime: e.target.value })}
+                    />
+                    <Input
+                      type="time"
+                      value={rule.endTime}
+                      onChange={(e) => updateSurge(index, { endTime: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {WEEK_DAYS.map(day => (
+                      <Button
+                        key={day}
+                        size="sm"
+                        variant={rule.days?.includes(day) ? 'default' : 'outline'}
+                        className="h-7 px-2 text-xs"
+                        onClick={() => toggleSurgeDay(index, day)}
+                      >
+                        {t(`components.deliveryFee.days.${day}`)}
+                      </Button>
+                    ))}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="ml-auto text-red-600 hover:text-red-700"
+                      onClick={() => setPricing(prev => ({ ...prev, surge: prev.surge.filter((_, i) => i !== index) }))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 pt-2">
+              <p className="text-xs text-muted-foreground">
+                {t('components.deliveryFee.example', { distance: toPersianNumbers(EXAMPLE_DISTANCE_KM), fee: formatPersianCurrency(example.total) })}
+              </p>
+              <Button onClick={handleSave} disabled={saving} className="btn-primary">
+                {saving ? t('components.deliveryFee.saving') : t('components.deliveryFee.save')}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeliveryPricingSettings;
@@ -0,0 +1,281 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Map as MapIcon, Plus, Trash2, Undo2, Loader2 } from 'lucide-react';
+import { deliveryZoneAPI, DeliveryZone } from '../services/api';
+
+interface DeliveryZoneEditorProps {
+  // Store location, used to center the map
+  center?: { lat: number; lng: number } | null;
+}
+
+const DEFAULT_CENTER: L.LatLngTuple = [35.6892, 51.3890]; // Tehran as fallback
+
+const ZONE_COLORS = ['#2563eb', '#16a34a', '#ea580c', '#9333ea', '#db2777', '#0891b2'];
+
+const vertexIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:12px;height:12px;border-radius:9999px;background:#fff;border:2px solid #111827"></div>',
+  iconSize: [12, 12],
+  iconAnchor: [6, 6]
+});
+
+/**
+ * Store-side editor for delivery zones: click the map to add corners, drag them to adjust
+ */
+const DeliveryZoneEditor: React.FC<DeliveryZoneEditorProps> = ({ center }) => {
+  const { t } = useTranslation();
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const mapRef = useRef<HTMLDivElement>(null);
+  const mapInstanceRef = useRef<L.Map | null>(null);
+  const layerRef = useRef<L.LayerGroup | null>(null);
+  // The map click handler is bound once, so it reads the selection through a ref
+  const selectedRef = useRef<number | null>(null);
+  selectedRef.current = selected;
+
+  useEffect(() => {
+    const loadZones = async () => {
+      try {
+        const response = await deliveryZoneAPI.getMine();
+        if (response.success && Array.isArray(response.data)) {
+          setZones(response.data);
+        }
+      } catch (error) {
+        // No zones yet
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadZones();
+  }, []);
+
+  useEffect(() => {
+    if (loading || !mapRef.current) return;
+
+    const start = center ? [center.lat, center.lng] as L.LatLngTuple : DEFAULT_CENTER;
+    const map = L.map(mapRef.current).setView(start, 13);
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+    }).addTo(map);
+
+    if (center) {
+      L.circleMarker(start, { radius: 8, color: '#1d4ed8', fillColor: '#3b82f6', fillOpacity: 0.9, weight: 2 }).addTo(map);
+    }
+
+    map.on('click', (e: L.LeafletMouseEvent) => {
+      const index = selectedRef.current;
+      if (index === null) return;
+      setZones(prev => prev.map((zone, i) =>
+        i === index ? { ...zone, polygon: [...zone.polygon, { lat: e.latlng.lat, lng: e.latlng.lng }] } : zone
+      ));
+    });
+
+    layerRef.current = L.layerGroup().addTo(map);
+    mapInstanceRef.current = map;
+
+    return () => {
+      map.remove();
+      mapInstanceRef.current = null;
+      layerRef.current = null;
+    };
+  }, [loading]);
+
+  // Redraw zones and the selected zone's corner handles
+  useEffect(() => {
+    const layer = layerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+
+    zones.forEach((zone, index) => {
+      if (zone.polygon.length === 0) return;
+      const color = zone.color || ZONE_COLORS[index % ZONE_COLORS.length];
+      const latLngs = zone.polygon.map(p => [p.lat, p.lng] as L.LatLngTuple);
+      const shape = zone.polygon.length >= 3
+        ? L.polygon(latLngs, { color, weight: index === selected ? 3 : 2, fillOpacity: index === selected ? 0.3 : 0.15 })
+        : L.polyline(latLngs, { color, weight: 2, dashArray: '4 4' });
+      shape.bindTooltip(zone.name || t('components.deliveryZone.untitled'));
+      shape.on('click', (e: L.LeafletMouseEvent) => {
+        // Clicking inside another zone selects it instead of adding a corner
+        if (selectedRef.current !== index) {
+          L.DomEvent.stopPropagation(e);
+          setSelected(index);
+        }
+      });
+      shape.addTo(layer);
+    });
+
+    if (selected !== null && zones[selected]) {
+      zones[selected].polygon.forEach((point, vertex) => {
+        const marker = L.marker([point.lat, point.lng], { icon: vertexIcon, draggable: true });
+        marker.on('dragend', () => {
+          const { lat, lng } = marker.getLatLng();
+          setZones(prev => prev.map((zone, i) =>
+            i === selected ? { ...zone, polygon: zone.polygon.map((p, v) => (v === vertex ? { lat, lng } : p)) } : zone
+          ));
+        });
+        marker.addTo(layer);
+      });
+    }
+  }, [zones, selected, loading, t]);
+
+  const updateZone = (index: number, changes: Partial<DeliveryZone>) => {
+    setZones(prev => prev.map((zone, i) => (i === index ? { ...zone, ...changes } : zone)));
+  };
+
+  const addZone = () => {
+    setZones(prev => [...prev, {
+      name: '',
+      fee: 0,
+      minimumOrder: 0,
+      color: ZONE_COLORS[prev.length % ZONE_COLORS.length],
+      polygon: []
+    }]);
+    setSelected(zones.length);
+  };
+
+  const removeZone = (index: number) => {
+    setZones(prev => prev.filter((_, i) => i !== index));
+    setSelected(null);
+  };
+
+  const handleSave = async () => {
+    if (zones.some(zone => zone.polygon.length < 3)) {
+      toast.error(t('components.deliveryZone.needsThreePoints'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await deliveryZoneAPI.update(zones);
+      if (response.success) {
+        if (Array.isArray(response.data)) setZones(response.data);
+        toast.success(t('components.deliveryZone.saved'));
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('components.deliveryZone.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg border-0" style={{ background: 'linear-gradient(135deg, oklch(var(--card)), oklch(var(--card) / 0.5))' }}>
+      <CardHeader className="pb-3 md:pb-4">
+        <div className="flex items-center space-x-2 md:space-x-3">
+          <div className="p-1.5 md:p-2 bg-primary/10 rounded-lg">
+            <MapIcon className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle className="text-lg md:text-xl">{t('components.deliveryZone.title')}</CardTitle>
+            <p className="text-xs md:text-sm text-muted-foreground">{t('components.deliveryZone.description')}</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 md:p-6">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="w-full rounded-lg overflow-hidden border" style={{ height: '360px' }}>
+              <div ref={mapRef} style={{ height: '100%', width: '100%' }} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {selected === null ? t('components.deliveryZone.selectHint') : t('components.deliveryZone.drawHint')}
+            </p>
+
+            <div className="space-y-2">
+              {zones.map((zone, index) => (
+                <div
+                  key={zone._id || index}
+                  className={`p-3 border rounded-lg space-y-2 cursor-pointer ${selected === index ? 'ring-2 ring-primary' : 'bg-muted/10'}`}
+                  onClick={() => setSelected(index)}
+                >
+                  <div className="flex items-center gap-2">
+                    <span
+                      className="w-3 h-3 rounded-full shrink-0"
+                      style={{ background: zone.color || ZONE_COLORS[index % ZONE_COLORS.length] }}
+                    />
+                    <Input
+                      placeholder={t('components.deliveryZone.name')}
+                      value={zone.name}
+                      onChange={(e) => updateZone(index, { name: e.target.value })}
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title={t('components.deliveryZone.undoPoint')}
+                      disabled={zone.polygon.length === 0}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        updateZone(index, { polygon: zone.polygon.slice(0, -1) });
+                      }}
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeZone(index);
+                      }}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">{t('components.deliveryZone.fee')}</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={zone.fee}
+                        onChange={(e) => updateZone(index, { fee: Math.max(0, Number(e.target.value) || 0) })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">{t('components.deliveryZone.minimumOrder')}</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={zone.minimumOrder}
+                        onChange={(e) => updateZone(index, { minimumOrder: Math.max(0, Number(e.target.value) || 0) })}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {t('components.deliveryZone.points', { count: zone.polygon.length })}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-col sm:flex-row justify-between gap-3">
+              <Button variant="outline" onClick={addZone}>
+                <Plus className="w-4 h-4 mr-1" />
+                {t('components.deliveryZone.addZone')}
+              </Button>
+              <Button onClick={handleSave} disabled={saving} className="btn-primary">
+                {saving ? t('components.deliveryZone.saving') : t('components.deliveryZone.save')}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeliveryZoneEditor;
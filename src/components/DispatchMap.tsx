@@ -0,0 +1,187 @@
+import React, { useEffect, useRef } from 'react';
+import L, { LatLngExpression } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { GeoPoint } from '../utils/geo';
+
+export interface DispatchMapJob {
+  id: string;
+  title: string;
+  subtitle?: string;
+  store: GeoPoint | null;
+  delivery: GeoPoint | null;
+  canAccept: boolean;
+}
+
+interface DispatchMapProps {
+  jobs: DispatchMapJob[];
+  driver: GeoPoint | null;
+  selectedId?: string | null;
+  onSelect?: (id: string) => void;
+  onAccept: (id: string) => void;
+  acceptLabel: string;
+  driverLabel: string;
+  height?: string;
+}
+
+const DEFAULT_CENTER: LatLngExpression = [35.6892, 51.3890]; // Tehran as fallback
+
+const storeStyle: L.CircleMarkerOptions = { radius: 9, color: '#2563eb', fillColor: '#3b82f6', fillOpacity: 0.9, weight: 2 };
+const deliveryStyle: L.CircleMarkerOptions = { radius: 7, color: '#16a34a', fillColor: '#22c55e', fillOpacity: 0.9, weight: 2 };
+const driverStyle: L.CircleMarkerOptions = { radius: 10, color: '#ea580c', fillColor: '#f97316', fillOpacity: 1, weight: 3 };
+
+// Popup content is a real DOM node so the accept button can call back into React
+const buildPopup = (job: DispatchMapJob, acceptLabel: string, onAccept: (id: string) => void) => {
+  const container = document.createElement('div');
+  container.style.fontFamily = 'inherit';
+
+  const title = document.createElement('strong');
+  title.textContent = job.title;
+  container.appendChild(title);
+
+  if (job.subtitle) {
+    const subtitle = document.createElement('div');
+    subtitle.style.fontSize = '13px';
+    subtitle.style.margin = '4px 0 8px';
+    subtitle.textContent = job.subtitle;
+    container.appendChild(subtitle);
+  }
+
+  if (job.canAccept) {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = acceptLabel;
+    button.style.cssText = 'width:100%;padding:6px 10px;border:0;border-radius:6px;background:#111827;color:#fff;cursor:pointer;';
+    button.addEventListener('click', () => onAccept(job.id));
+    container.appendChild(button);
+  }
+
+  return container;
+};
+
+const DispatchMap: React.FC<DispatchMapProps> = ({
+  jobs,
+  driver,
+  selectedId,
+  onSelect,
+  onAccept,
+  acceptLabel,
+  driverLabel,
+  height = '500px'
+}) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const mapInstanceRef = useRef<L.Map | null>(null);
+  const jobsLayerRef = useRef<L.LayerGroup | null>(null);
+  const driverMarkerRef = useRef<L.CircleMarker | null>(null);
+  const storeMarkersRef = useRef<Record<string, L.CircleMarker>>({});
+  const fittedRef = useRef(false);
+  const onAcceptRef = useRef(onAccept);
+  const onSelectRef = useRef(onSelect);
+  onAcceptRef.current = onAccept;
+  onSelectRef.current = onSelect;
+
+  // Create the map once
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    const map = L.map(mapRef.current).setView(DEFAULT_CENTER, 12);
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+    }).addTo(map);
+
+    jobsLayerRef.current = L.layerGroup().addTo(map);
+    mapInstanceRef.current = map;
+
+    return () => {
+      map.remove();
+      mapInstanceRef.current = null;
+      jobsLayerRef.current = null;
+      driverMarkerRef.current = null;
+      fittedRef.current = false;
+    };
+  }, []);
+
+  // Redraw job markers when the list changes
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    const layer = jobsLayerRef.current;
+    if (!map || !layer) return;
+
+    layer.clearLayers();
+    storeMarkersRef.current = {};
+    const bounds: L.LatLngExpression[] = [];
+
+    jobs.forEach(job => {
+      const popup = () => buildPopup(job, acceptLabel, (id) => onAcceptRef.current(id));
+
+      if (job.store) {
+        const marker = L.circleMarker([job.store.lat, job.store.lng], storeStyle)
+          .bindPopup(popup)
+          .on('click', () => onSelectRef.current?.(job.id))
+          .addTo(layer);
+        storeMarkersRef.current[job.id] = marker;
+        bounds.push([job.store.lat, job.store.lng]);
+      }
+      if (job.delivery) {
+        L.circleMarker([job.delivery.lat, job.delivery.lng], deliveryStyle)
+          .bindPopup(popup)
+          .on('click', () => onSelectRef.current?.(job.id))
+          .addTo(layer);
+        bounds.push([job.delivery.lat, job.delivery.lng]);
+      }
+      if (job.store && job.delivery) {
+        L.polyline([[job.store.lat, job.store.lng], [job.delivery.lat, job.delivery.lng]], {
+          color: '#64748b',
+          weight: 2,
+          dashArray: '6 6'
+        }).addTo(layer);
+      }
+    });
+
+    if (driver) bounds.push([driver.lat, driver.lng]);
+
+    // Fit once so later refreshes don't yank the view away from the driver
+    if (!fittedRef.current && bounds.length > 0) {
+      map.fitBounds(L.latLngBounds(bounds as L.LatLngTuple[]), { padding: [40, 40], maxZoom: 15 });
+      fittedRef.current = true;
+    }
+  }, [jobs, acceptLabel]);
+
+  // Driver position moves independently of the jobs
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (!driver) {
+      driverMarkerRef.current?.remove();
+      driverMarkerRef.current = null;
+      return;
+    }
+
+    if (driverMarkerRef.current) {
+      driverMarkerRef.current.setLatLng([driver.lat, driver.lng]);
+    } else {
+      driverMarkerRef.current = L.circleMarker([driver.lat, driver.lng], driverStyle)
+        .bindTooltip(driverLabel)
+        .addTo(map);
+    }
+  }, [driver?.lat, driver?.lng, driverLabel]);
+
+  // Focus the selected job from the list
+  useEffect(() => {
+    if (!selectedId) return;
+    const marker = storeMarkersRef.current[selectedId];
+    const map = mapInstanceRef.current;
+    if (marker && map) {
+      map.panTo(marker.getLatLng());
+      marker.openPopup();
+    }
+  }, [selectedId]);
+
+  return (
+    <div className="w-full rounded-lg overflow-hidden border" style={{ height }}>
+      <div ref={mapRef} style={{ height: '100%', width: '100%' }} />
+    </div>
+  );
+};
+
+export default DispatchMap;
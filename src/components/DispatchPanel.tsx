@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Loader2, Navigation, Package, Sparkles, UserCheck } from 'lucide-react';
+import { userAPI, dispatchAPI, DispatchDriver, AutoDispatchRules } from '../services/api';
+import { OrderService } from '../services/orderService';
+import { DEFAULT_AUTO_DISPATCH_RULES, rankDrivers } from '../utils/dispatch';
+import { toGeoPoint } from '../utils/geo';
+import { toPersianNumbers } from '@/lib/utils';
+
+interface DispatchPanelProps {
+  orderId: string;
+  store: { locationLat?: number; locationLng?: number };
+  currentDriverId?: string;
+  onAssigned: () => void;
+}
+
+const STATUS_CLASSES: Record<string, string> = {
+  online: 'bg-green-500 hover:bg-green-600 text-white',
+  busy: 'bg-orange-500 hover:bg-orange-600 text-white',
+  soon: 'bg-yellow-500 hover:bg-yellow-600 text-white'
+};
+
+/**
+ * Store-side driver picker for an order: status, distance from the store and current load
+ */
+const DispatchPanel: React.FC<DispatchPanelProps> = ({ orderId, store, currentDriverId, onAssigned }) => {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [drivers, setDrivers] = useState<DispatchDriver[]>([]);
+  const [rules, setRules] = useState<AutoDispatchRules>(DEFAULT_AUTO_DISPATCH_RULES);
+  const [loading, setLoading] = useState(false);
+  const [assigningId, setAssigningId] = useState<string | null>(null);
+
+  const loadDrivers = async () => {
+    setLoading(true);
+    try {
+      const [driversResponse, rulesResponse] = await Promise.allSettled([userAPI.getDrivers(), dispatchAPI.getMine()]);
+      if (driversResponse.status === 'fulfilled' && driversResponse.value.success) {
+        setDrivers(driversResponse.value.data || []);
+      }
+      // Stores without rules still get the default ranking
+      if (rulesResponse.status === 'fulfilled' && rulesResponse.value.success && rulesResponse.value.data) {
+        setRules({ ...DEFAULT_AUTO_DISPATCH_RULES, ...rulesResponse.value.data });
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) loadDrivers();
+  };
+
+  const handleAssign = async (driverId: string) => {
+    setAssigningId(driverId);
+    try {
+      if (await OrderService.assignDriver(orderId, driverId)) {
+        setOpen(false);
+        onAssigned();
+      }
+    } finally {
+      setAssigningId(null);
+    }
+  };
+
+  const ranked = rankDrivers(drivers, toGeoPoint(store.locationLat, store.locationLng), rules);
+  const suggestedId = ranked.find(entry => entry.eligible && entry.driver._id !== currentDriverId)?.driver._id;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full mb-3">
+          <UserCheck className="w-4 h-4 mr-2" />
+          {currentDriverId ? t('components.dispatchPanel.reassign') : t('components.dispatchPanel.assign')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('components.dispatchPanel.title')}</DialogTitle>
+          <DialogDescription>
+            {t(`components.dispatchPanel.strategies.${rules.strategy}`)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : ranked.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-6">{t('components.dispatchPanel.noDrivers')}</p>
+        ) : (
+          <div className="space-y-2">
+            {ranked.map(({ driver, distanceKm, load, online }) => {
+              const isCurrent = driver._id === currentDriverId;
+              return (
+                <div
+                  key={driver._id}
+                  className={`flex items-center justify-between gap-3 rounded-lg border p-3 ${online ? '' : 'opacity-60'}`}
+                >
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium truncate">{driver.name || driver.username}</span>
+                      <Badge variant="secondary" className={STATUS_CLASSES[driver.statusMain || '']}>
+                        {t(`components.dispatchPanel.status.${driver.statusMain || 'offline'}`, { defaultValue: driver.statusMain })}
+                      </Badge>
+                      {driver._id === suggestedId && (
+                        <Badge variant="outline" className="text-primary border-primary/40">
+                          <Sparkles className="w-3 h-3 mr-1" />
+                          {t('components.dispatchPanel.suggested')}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Navigation className="w-3 h-3" />
+                        {distanceKm === null
+                          ? t('components.dispatchPanel.unknownDistance')
+                          : t('components.dispatchPanel.distance', { km: toPersianNumbers(distanceKm.toFixed(1)) })}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Package className="w-3 h-3" />
+                        {t('components.dispatchPanel.load', { count: load, orders: toPersianNumbers(load) })}
+                      </span>
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant={driver._id === suggestedId ? 'default' : 'outline'}
+                    disabled={isCurrent || assigningId !== null}
+                    onClick={() => handleAssign(driver._id)}
+                  >
+                    {assigningId === driver._id && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    {isCurrent ? t('components.dispatchPanel.current') : t('components.dispatchPanel.assignButton')}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DispatchPanel;
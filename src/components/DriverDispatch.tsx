@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Truck, Store, MapPin, Navigation, Route, Loader2 } from 'lucide-react';
+import DispatchMap, { DispatchMapJob } from './DispatchMap';
+import { OrderService } from '../services/orderService';
+import { OrderStateMachine } from '../services/orderStateMachine';
+import { useGeolocation } from '../hooks/useGeolocation';
+import { GeoPoint, haversineKm, toGeoPoint } from '../utils/geo';
+import { formatPersianCurrency, toPersianNumbers } from '@/lib/utils';
+
+interface DriverDispatchProps {
+  orders: any[];
+  user: any;
+  onUpdate: () => void;
+}
+
+type DispatchSort = 'pickup' | 'route';
+
+interface DispatchJob {
+  order: any;
+  store: GeoPoint | null;
+  delivery: GeoPoint | null;
+  pickupKm?: number;
+  routeKm?: number;
+}
+
+const formatKm = (km?: number) =>
+  km === undefined ? '—' : `${toPersianNumbers(km.toFixed(1))} km`;
+
+const DriverDispatch: React.FC<DriverDispatchProps> = ({ orders, user, onUpdate }) => {
+  const { t } = useTranslation();
+  const [sortBy, setSortBy] = useState<DispatchSort>('pickup');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [accepting, setAccepting] = useState<string | null>(null);
+
+  const { position: driverPosition, isLive } = useGeolocation(
+    true,
+    toGeoPoint(user?.locationLat, user?.locationLng)
+  );
+
+  const jobs = useMemo<DispatchJob[]>(() => {
+    const list = orders.map(order => {
+      const store = toGeoPoint(order.store?.locationLat, order.store?.locationLng);
+      const delivery = toGeoPoint(order.deliveryLat, order.deliveryLng);
+      const pickupKm = driverPosition && store ? haversineKm(driverPosition, store) : undefined;
+      const deliveryKm = store && delivery ? haversineKm(store, delivery) : undefined;
+      const routeKm = pickupKm !== undefined && deliveryKm !== undefined ? pickupKm + deliveryKm : undefined;
+      return { order, store, delivery, pickupKm, routeKm };
+    });
+
+    // Jobs without coordinates go last
+    const key = (job: DispatchJob) => (sortBy === 'pickup' ? job.pickupKm : job.routeKm) ?? Number.POSITIVE_INFINITY;
+    return list.sort((a, b) => key(a) - key(b));
+  }, [orders, driverPosition?.lat, driverPosition?.lng, sortBy]);
+
+  const handleAccept = async (orderId: string) => {
+    if (accepting) return;
+    setAccepting(orderId);
+    try {
+      const success = await OrderService.acceptOrderByDriver(orderId);
+      if (success) {
+        window.dispatchEvent(new CustomEvent('orderUpdate'));
+        onUpdate();
+      }
+    } finally {
+      setAccepting(null);
+    }
+  };
+
+  const mapJobs = useMemo<DispatchMapJob[]>(() => jobs.map(job => ({
+    id: job.order._id,
+    title: job.order.store?.name || `#${job.order._id.slice(-8)}`,
+    subtitle: `${t('components.dispatch.pickup')}: ${formatKm(job.pickupKm)} · ${t('components.dispatch.route')}: ${formatKm(job.routeKm)}`,
+    store: job.store,
+    delivery: job.delivery,
+    canAccept: OrderStateMachine.can(job.order, 'driver', 'accept_driver')
+  })), [jobs, t]);
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-5">
+      <div className="lg:col-span-3 space-y-2">
+        <DispatchMap
+          jobs={mapJobs}
+          driver={driverPosition}
+          selectedId={selectedId}
+          onSelect={setSelectedId}
+          onAccept={handleAccept}
+          acceptLabel={t('components.orderCard.acceptDelivery')}
+          driverLabel={t('components.dispatch.you')}
+          height="600px"
+        />
+        <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full bg-blue-500" />{t('components.dispatch.store')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full bg-green-500" />{t('components.dispatch.customer')}</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full bg-orange-500" />{t('components.dispatch.you')}</span>
+          {!isLive && <span>{t('components.dispatch.positionUnavailable')}</span>}
+        </div>
+      </div>
+
+      <div className="lg:col-span-2 space-y-3">
+        <div className="flex gap-2">
+          <Button
+            variant={sortBy === 'pickup' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setSortBy('pickup')}
+            className="flex-1"
+          >
+            <Navigation className="w-4 h-4 mr-1" />
+            {t('components.dispatch.sortPickup')}
+          </Button>
+          <Button
+            variant={sortBy === 'route' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setSortBy('route')}
+            className="flex-1"
+          >
+            <Route className="w-4 h-4 mr-1" />
+            {t('components.dispatch.sortRoute')}
+          </Button>
+        </div>
+
+        {jobs.length === 0 ? (
+          <div className="text-center text-muted-foreground py-12">{t('components.dispatch.noJobs')}</div>
+        ) : (
+          <div className="space-y-3 max-h-[560px] overflow-y-auto pr-1">
+            {jobs.map(job => (
+              <Card
+                key={job.order._id}
+                className={`cursor-pointer transition-shadow hover:shadow-md ${selectedId === job.order._id ? 'ring-2 ring-primary' : ''}`}
+                onClick={() => setSelectedId(job.order._id)}
+              >
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold flex items-center gap-1">
+                      <Store className="w-4 h-4" />
+                      {job.order.store?.name || 'Unknown'}
+                    </span>
+                    <div className="flex items-center gap-1">
+                      <Badge variant="secondary">{formatPersianCurrency(job.order.deliveryFee || 0)}</Badge>
+                      {!!job.order.tip && (
+                        <Badge variant="outline">
+                          {t('components.dispatch.tip', { tip: formatPersianCurrency(job.order.tip) })}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Navigation className="w-3 h-3" />
+                      {t('components.dispatch.pickup')}: {formatKm(job.pickupKm)}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Route className="w-3 h-3" />
+                      {t('components.dispatch.route')}: {formatKm(job.routeKm)}
+                    </span>
+                  </div>
+                  {job.order.address_details && (
+                    <p className="text-sm flex items-center gap-1">
+                      <MapPin className="w-3 h-3" />
+                      {job.order.address_details}
+                    </p>
+                  )}
+                  {OrderStateMachine.can(job.order, 'driver', 'accept_driver') && (
+                    <Button
+                      size="sm"
+                      className="w-full"
+                      disabled={accepting === job.order._id}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleAccept(job.order._id);
+                      }}
+                    >
+                      {accepting === job.order._id
+                        ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        : <Truck className="w-4 h-4 mr-2" />}
+                      {t('components.orderCard.acceptDelivery')}
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DriverDispatch;
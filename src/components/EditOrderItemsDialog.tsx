@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { PackageMinus, Minus, Plus, Loader2 } from 'lucide-react';
+import { OrderService } from '../services/orderService';
+import { formatPersianCurrency, toPersianNumbers } from '@/lib/utils';
+
+interface EditOrderItemsDialogProps {
+  order: { _id: string; amount: number; items: any[] };
+  onUpdated: () => void;
+}
+
+// Order items come either populated (item.product) or flattened by older endpoints
+const itemProductId = (item: any): string => item.product?._id || item.productId;
+const itemName = (item: any): string => item.product?.name || item.name || '';
+// The price charged on the order line, the product may have been repriced since
+const itemPrice = (item: any): number => item.price ?? item.product?.price ?? 0;
+
+/**
+ * Store-side dialog to drop or reduce items on an order, e.g. when something is out of stock
+ * Quantities can only go down; the customer confirms the new amount
+ */
+const EditOrderItemsDialog: React.FC<EditOrderItemsDialogProps> = ({ order, onUpdated }) => {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setQuantities(Object.fromEntries(order.items.map(item => [itemProductId(item), item.quantity])));
+      setNote('');
+    }
+  };
+
+  const setQuantity = (item: any, quantity: number) => {
+    setQuantities(prev => ({ ...prev, [itemProductId(item)]: Math.max(0, Math.min(item.quantity, quantity)) }));
+  };
+
+  const removedValue = order.items.reduce(
+    (sum, item) => sum + itemPrice(item) * (item.quantity - (quantities[itemProductId(item)] ?? item.quantity)),
+    0
+  );
+  const changed = order.items.filter(item => (quantities[itemProductId(item)] ?? item.quantity) !== item.quantity);
+  const removesEverything = order.items.every(item => (quantities[itemProductId(item)] ?? item.quantity) === 0);
+
+  const handleSubmit = async () => {
+    if (changed.length === 0 || removesEverything) return;
+
+    setSubmitting(true);
+    try {
+      const success = await OrderService.updateOrderItems(
+        order._id,
+        changed.map(item => ({ productId: itemProductId(item), quantity: quantities[itemProductId(item)] })),
+        note.trim()
+      );
+      if (success) {
+        setOpen(false);
+        onUpdated();
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <PackageMinus className="w-4 h-4 mr-2" />
+          {t('components.editOrderItems.button')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('components.editOrderItems.title')}</DialogTitle>
+          <DialogDescription>{t('components.editOrderItems.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {order.items.map(item => {
+            const quantity = quantities[itemProductId(item)] ?? item.quantity;
+            return (
+              <div key={itemProductId(item)} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                <div className="min-w-0">
+                  <p className={`text-sm font-medium truncate ${quantity === 0 ? 'line-through text-muted-foreground' : ''}`}>
+                    {itemName(item)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{formatPersianCurrency(itemPrice(item))}</p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button size="sm" variant="outline" className="h-7 w-7 p-0" onClick={() => setQuantity(item, quantity - 1)} disabled={quantity === 0}>
+                    <Minus className="w-3 h-3" />
+                  </Button>
+                  <span className="w-10 text-center text-sm">
+                    {toPersianNumbers(quantity)}/{toPersianNumbers(item.quantity)}
+                  </span>
+                  <Button size="sm" variant="outline" className="h-7 w-7 p-0" onClick={() => setQuantity(item, quantity + 1)} disabled={quantity === item.quantity}>
+                    <Plus className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor={`items-note-${order._id}`} className="text-sm">{t('components.editOrderItems.noteLabel')}</Label>
+          <Textarea
+            id={`items-note-${order._id}`}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            maxLength={500}
+          />
+        </div>
+
+        <div className="text-sm space-y-1 border-t pt-3">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">{t('components.editOrderItems.currentAmount')}</span>
+            <span>{formatPersianCurrency(order.amount)}</span>
+          </div>
+          <div className="flex justify-between font-semibold">
+            <span>{t('components.editOrderItems.newAmount')}</span>
+            <span>{formatPersianCurrency(order.amount - removedValue)}</span>
+          </div>
+          {removesEverything && (
+            <p className="text-xs text-destructive">{t('components.editOrderItems.cancelInstead')}</p>
+          )}
+        </div>
+
+        <div className="flex gap-3 pt-2">
+          <Button variant="outline" className="flex-1" onClick={() => setOpen(false)}>
+            {t('components.editOrderItems.close')}
+          </Button>
+          <Button className="flex-1" disabled={changed.length === 0 || removesEverything || submitting} onClick={handleSubmit}>
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t('components.editOrderItems.send')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditOrderItemsDialog;
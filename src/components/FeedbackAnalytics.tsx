@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Angry, Frown, Heart, Laugh, Loader2, Star, ThumbsDown, ThumbsUp } from 'lucide-react';
+import { orderAPI, Order } from '../services/api';
+import { logError } from '../services/logger';
+import { lowestRatedProducts, ratingTrend, summarizeFeedback } from '../utils/feedbackAnalytics';
+import { toDateKey } from '../utils/schedule';
+import { formatPersianDate, toPersianNumbers } from '@/lib/utils';
+import FeedbackComments from './FeedbackComments';
+
+const RANGES = [7, 30, 90];
+
+const REACTION_ICONS: Record<string, { icon: React.ElementType; color: string }> = {
+  love: { icon: Heart, color: 'text-red-500' },
+  like: { icon: ThumbsUp, color: 'text-blue-500' },
+  dislike: { icon: ThumbsDown, color: 'text-gray-500' },
+  laugh: { icon: Laugh, color: 'text-yellow-500' },
+  angry: { icon: Angry, color: 'text-red-600' },
+  sad: { icon: Frown, color: 'text-orange-500' }
+};
+
+const formatRating = (value: number) => toPersianNumbers(value.toFixed(1));
+
+/**
+ * Store dashboard section summarising customer ratings, reactions and comments
+ */
+const FeedbackAnalytics: React.FC = () => {
+  const { t } = useTranslation();
+  const [days, setDays] = useState(30);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const from = new Date();
+    from.setDate(from.getDate() - days + 1);
+    setLoading(true);
+    orderAPI.getStoreFeedback({ from: toDateKey(from), to: toDateKey(new Date()) })
+      .then(response => {
+        if (!cancelled) setOrders(response.success ? response.data || [] : []);
+      })
+      .catch(error => {
+        logError(error, 'FeedbackAnalytics.load');
+        if (!cancelled) setOrders([]);
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  const summary = useMemo(() => summarizeFeedback(orders), [orders]);
+  const trend = useMemo(() => ratingTrend(orders, days > 31 ? 'week' : 'day'), [orders, days]);
+  const lowestProducts = useMemo(() => lowestRatedProducts(orders), [orders]);
+  const maxBucket = Math.max(1, ...summary.distribution);
+
+  const handleReplied = (orderId: string, storeReply: Order['storeReply']) => {
+    setOrders(prev => prev.map(order => (order._id === orderId ? { ...order, storeReply } : order)));
+  };
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <Star className="w-5 h-5 fill-yellow-400 text-yellow-400" />
+            {t('components.feedback.title')}
+          </CardTitle>
+          <div className="flex gap-1">
+            {RANGES.map(range => (
+              <Button
+                key={range}
+                size="sm"
+                variant={days === range ? 'default' : 'outline'}
+                onClick={() => setDays(range)}
+              >
+                {t('components.feedback.lastDays', { days: toPersianNumbers(range) })}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : summary.ratedOrders === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">{t('components.feedback.noFeedback')}</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-6">
+              {/* Average and distribution */}
+              <div className="flex gap-6 items-center">
+                <div className="text-center">
+                  <p className="text-4xl font-bold">{formatRating(summary.averageRating)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {t('components.feedback.ratingsCount', { count: summary.ratedOrders, formatted: toPersianNumbers(summary.ratedOrders) })}
+                  </p>
+                </div>
+                <div className="flex-1 space-y-1">
+                  {[5, 4, 3, 2, 1].map(stars => (
+                    <div key={stars} className="flex items-center gap-2 text-xs">
+                      <span className="w-3">{toPersianNumbers(stars)}</span>
+                      <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                      <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                        <div
+                          className="h-full bg-yellow-400"
+                          style={{ width: `${(summary.distribution[stars - 1] / maxBucket) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-6 text-end">{toPersianNumbers(summary.distribution[stars - 1])}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Average over time */}
+              <div>
+                <p className="text-sm font-medium mb-2">{t('components.feedback.trend')}</p>
+                <div className="flex items-end gap-1 h-32 rounded-lg bg-muted/50 p-2">
+                  {trend.map(point => (
+                    <div
+                      key={point.date}
+                      className="flex-1 min-w-[4px] rounded-t bg-primary/70"
+                      style={{ height: `${(point.average / 5) * 100}%` }}
+                      title={`${formatPersianDate(point.date)}: ${formatRating(point.average)} (${toPersianNumbers(point.count)})`}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              {/* Reactions */}
+              {summary.reactions.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium mb-2">{t('components.feedback.topReactions')}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {summary.reactions.map(({ reaction, count }) => {
+                      const { icon: Icon, color } = REACTION_ICONS[reaction] || {};
+                      return (
+                        <span key={reaction} className="flex items-center gap-1 rounded-full border px-2 py-1 text-xs">
+                          {Icon && <Icon className={`w-4 h-4 ${color}`} />}
+                          {t(`components.feedback.reactions.${reaction}`, { defaultValue: reaction })}
+                          <span className="font-semibold">{toPersianNumbers(count)}</span>
+                        </span>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* Lowest-rated products */}
+              <div>
+                <p className="text-sm font-medium mb-2">{t('components.feedback.lowestProducts')}</p>
+                {lowestProducts.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">{t('components.feedback.notEnoughRatings')}</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {lowestProducts.map(product => (
+                        <tr key={product.productId} className="border-b last:border-0">
+                          <td className="py-1">{product.name}</td>
+                          <td className="py-1 text-muted-foreground text-xs">
+                            {t('components.feedback.ratingsCount', { count: product.count, formatted: toPersianNumbers(product.count) })}
+                          </td>
+                          <td className="py-1 text-end font-medium">{formatRating(product.average)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">{t('components.feedback.comments')}</p>
+              <FeedbackComments orders={orders} onReplied={handleReplied} />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FeedbackAnalytics;
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Loader2, MessageSquareReply, Search, Star } from 'lucide-react';
+import { Order } from '../services/api';
+import { OrderService } from '../services/orderService';
+import { searchComments } from '../utils/feedbackAnalytics';
+import { formatPersianDate } from '@/lib/utils';
+
+interface FeedbackCommentsProps {
+  orders: Order[];
+  onReplied: (orderId: string, storeReply: Order['storeReply']) => void;
+}
+
+/**
+ * Searchable list of customer comments with an inline store reply editor
+ */
+const FeedbackComments: React.FC<FeedbackCommentsProps> = ({ orders, onReplied }) => {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const comments = useMemo(() => searchComments(orders, query), [orders, query]);
+
+  const startEditing = (order: Order) => {
+    setEditingId(order._id);
+    setDraft(order.storeReply?.text || '');
+  };
+
+  const handleSave = async (orderId: string) => {
+    setSaving(true);
+    const success = await OrderService.replyToFeedback(orderId, draft);
+    setSaving(false);
+    if (success) {
+      onReplied(orderId, draft.trim() ? { text: draft.trim(), repliedAt: new Date().toISOString() } : null);
+      setEditingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('components.feedback.searchPlaceholder')}
+          className="pl-9"
+        />
+      </div>
+
+      {comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">{t('components.feedback.noComments')}</p>
+      ) : (
+        <div className="space-y-3 max-h-[28rem] overflow-y-auto">
+          {comments.map(order => (
+            <div key={order._id} className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span>
+                  {order.user?.name || order.user?.username} · {order.orderName || `#${order._id.slice(-6)}`}
+                </span>
+                <span>{formatPersianDate(order.datePlaced)}</span>
+              </div>
+              <div className="flex gap-0.5">
+                {[1, 2, 3, 4, 5].map(star => (
+                  <Star
+                    key={star}
+                    className={`w-3.5 h-3.5 ${star <= (order.customerRating || 0) ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+                  />
+                ))}
+              </div>
+              <p className="text-sm">{order.customerComment}</p>
+
+              {editingId === order._id ? (
+                <div className="space-y-2">
+                  <Textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder={t('components.feedback.replyPlaceholder')}
+                    rows={2}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" disabled={saving} onClick={() => setEditingId(null)}>
+                      {t('components.feedback.cancel')}
+                    </Button>
+                    <Button size="sm" disabled={saving} onClick={() => handleSave(order._id)}>
+                      {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      {t('components.feedback.saveReply')}
+                    </Button>
+                  </div>
+                </div>
+              ) : order.storeReply ? (
+                <div className="rounded-md bg-muted/50 p-2 text-sm">
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground mb-1">
+                    <span>{t('components.feedback.yourReply')}</span>
+                    <button className="underline" onClick={() => startEditing(order)}>
+                      {t('components.feedback.editReply')}
+                    </button>
+                  </div>
+                  {order.storeReply.text}
+                </div>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => startEditing(order)}>
+                  <MessageSquareReply className="w-4 h-4 mr-2" />
+                  {t('components.feedback.reply')}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeedbackComments;
@@ -3,6 +3,9 @@ import { useTranslation } from 'react-i18next';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { ChevronUp, ChevronDown, Grid, List } from 'lucide-react';
+import FilterPresetMenu from './FilterPresetMenu';
+import { FilterPresetScope } from '../services/api';
+import { FilterValues } from '../hooks/useUrlFilters';
 
 interface FilterHeaderProps {
   title: string;
@@ -11,6 +14,12 @@ interface FilterHeaderProps {
   onClear: () => void;
   viewMode?: 'grid' | 'list';
   onViewModeChange?: (mode: 'grid' | 'list') => void;
+  // Saved filter presets; omit to hide the presets menu
+  presets?: {
+    scope: FilterPresetScope;
+    filters: FilterValues;
+    onApply: (filters: FilterValues) => void;
+  };
   children: React.ReactNode;
 }
 
@@ -21,6 +30,7 @@ const FilterHeader: React.FC<FilterHeaderProps> = ({
   onClear,
   viewMode,
   onViewModeChange,
+  presets,
   children
 }) => {
   const { t } = useTranslation();
@@ -58,6 +68,9 @@ const FilterHeader: React.FC<FilterHeaderProps> = ({
                 </Button>
               </div>
             )}
+            {presets && (
+              <FilterPresetMenu scope={presets.scope} filters={presets.filters} onApply={presets.onApply} />
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { Bookmark, BookmarkPlus, Trash2 } from 'lucide-react';
+import { filterPresetAPI, FilterPreset, FilterPresetScope } from '../services/api';
+import { FilterValues } from '../hooks/useUrlFilters';
+
+interface FilterPresetMenuProps {
+  scope: FilterPresetScope;
+  filters: FilterValues;
+  onApply: (filters: FilterValues) => void;
+}
+
+// Presets only keep filters that are actually set
+const compactFilters = (filters: FilterValues): Record<string, string | string[]> =>
+  Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => (Array.isArray(value) ? value.length > 0 : !!value))
+  ) as Record<string, string | string[]>;
+
+const FilterPresetMenu: React.FC<FilterPresetMenuProps> = ({ scope, filters, onApply }) => {
+  const { t } = useTranslation();
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadPresets = async () => {
+      try {
+        const response = await filterPresetAPI.list(scope);
+        if (response.success && Array.isArray(response.data)) {
+          setPresets(response.data);
+        }
+      } catch (error) {
+        // Presets are optional - the menu just stays empty
+      }
+    };
+    loadPresets();
+  }, [scope]);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    try {
+      setSaving(true);
+      const response = await filterPresetAPI.create({ name: name.trim(), scope, filters: compactFilters(filters) });
+      const created = response.data;
+      if (response.success && created) {
+        setPresets(prev => [...prev, created]);
+        toast.success(t('components.filterPresets.saved'));
+        setShowSaveDialog(false);
+        setName('');
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('components.filterPresets.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (presetId: string) => {
+    try {
+      await filterPresetAPI.delete(presetId);
+      setPresets(prev => prev.filter(preset => preset._id !== presetId));
+    } catch (error) {
+      toast.error(t('components.filterPresets.deleteFailed'));
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="text-xs">
+            <Bookmark className="w-4 h-4 mr-1" />
+            {t('components.filterPresets.presets')}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="min-w-[14rem]">
+          {presets.length === 0 && (
+            <div className="px-2 py-1.5 text-xs text-muted-foreground">{t('components.filterPresets.empty')}</div>
+          )}
+          {presets.map(preset => (
+            <DropdownMenuItem key={preset._id} onClick={() => onApply(preset.filters)} className="flex justify-between gap-2">
+              <span className="truncate">{preset.name}</span>
+              <button
+                type="button"
+                className="text-muted-foreground hover:text-destructive"
+                title={t('components.filterPresets.delete')}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(preset._id);
+                }}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuItem onClick={() => setShowSaveDialog(true)} className="border-t mt-1">
+            <BookmarkPlus className="w-4 h-4 mr-2" />
+            {t('components.filterPresets.saveCurrent')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{t('components.filterPresets.saveCurrent')}</DialogTitle>
+            <DialogDescription>{t('components.filterPresets.saveDescription')}</DialogDescription>
+          </DialogHeader>
+          <Input
+            autoFocus
+            placeholder={t('components.filterPresets.namePlaceholder')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          />
+          <div className="flex gap-3 pt-2">
+            <Button variant="outline" className="flex-1" onClick={() => setShowSaveDialog(false)}>
+              {t('components.filterPresets.cancel')}
+            </Button>
+            <Button className="flex-1" disabled={!name.trim() || saving} onClick={handleSave}>
+              {saving ? t('components.filterPresets.saving') : t('components.filterPresets.save')}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default FilterPresetMenu;
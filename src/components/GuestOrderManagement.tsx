@@ -3,6 +3,10 @@ import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Progress } from './ui/progress';
 import { toast } from 'react-toastify';
+import LiveTrackingMap from './LiveTrackingMap';
+import CancelOrderDialog from './CancelOrderDialog';
+import { toGeoPoint } from '../utils/geo';
+import { getTrackingUrl } from '../utils/receipt';
 
 interface OrderItem {
   name: string;
@@ -27,7 +31,11 @@ interface Order {
   };
   phone: string;
   address_details?: string;
+  deliveryLat?: number | null;
+  deliveryLng?: number | null;
   deliveryFee?: number;
+  // Signed token for the shareable /track page
+  trackingToken?: string;
 }
 
 const GuestOrderManagement = () => {
@@ -66,7 +74,7 @@ const GuestOrderManagement = () => {
     }
   };
 
-  const handleCancelOrder = async (orderId: string) => {
+  const handleCancelOrder = async (orderId: string, reason: { code: string; note?: string }): Promise<boolean> => {
     try {
       const sessionId = localStorage.getItem('guest_session_id') || '';
       const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}/orders/cancel-guest`, {
@@ -75,13 +83,14 @@ const GuestOrderManagement = () => {
           'Content-Type': 'application/json',
           'x-session-id': sessionId
         },
-        body: JSON.stringify({ orderId })
+        body: JSON.stringify({ orderId, reasonCode: reason.code, reasonNote: reason.note })
       });
 
       const data = await response.json();
       if (data.success) {
         toast.success('Order canceled successfully');
         fetchGuestOrders(); // Refresh orders
+        return true;
       } else {
         throw new Error(data.message || 'Failed to cancel order');
       }
@@ -92,6 +101,7 @@ const GuestOrderManagement = () => {
       } else {
         toast.error('Failed to cancel order');
       }
+      return false;
     }
   };
 
@@ -139,6 +149,16 @@ const GuestOrderManagement = () => {
               </CardHeader>
 
               <CardContent className="space-y-4">
+                {/* Live driver tracking */}
+                {order.isTakeout && order.driver && order.status === 'pickedup' && (
+                  <LiveTrackingMap
+                    orderId={order._id}
+                    destination={toGeoPoint(order.deliveryLat, order.deliveryLng)}
+                    initialDriver={toGeoPoint(order.driver.locationLat, order.driver.locationLng)}
+                    trackingToken={order.trackingToken}
+                  />
+                )}
+
                 {/* Order Progress */}
                 {(order.status === 'placed' || order.status === 'accepted' || order.status === 'prepared') && (
                   <div className="space-y-3">
@@ -206,12 +226,20 @@ const GuestOrderManagement = () => {
                 {/* Action Buttons */}
                 <div className="flex flex-col sm:flex-row gap-2 pt-4">
                   {(order.status === 'placed' || order.status === 'accepted') && (
-                    <Button
-                      variant="outline"
-                      onClick={() => handleCancelOrder(order._id)}
-                      className="flex-1"
-                    >
-                      Cancel Order
+                    <div className="flex-1">
+                      <CancelOrderDialog
+                        orderId={order._id}
+                        role="customer"
+                        actorId=""
+                        onCanceled={() => undefined}
+                        onSubmit={(reason) => handleCancelOrder(order._id, reason)}
+                      />
+                    </div>
+                  )}
+
+                  {order.trackingToken && (
+                    <Button variant="outline" asChild className="flex-1">
+                      <a href={getTrackingUrl(order._id, order.trackingToken)}>Tracking Page</a>
                     </Button>
                   )}
 
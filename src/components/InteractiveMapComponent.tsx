@@ -15,17 +15,21 @@ interface InteractiveMapComponentProps {
   longitude: number;
   onLocationSelect: (lat: number, lng: number) => void;
   height?: string;
+  // Delivery zones to outline, so the customer can see where the store delivers
+  zones?: { name: string; color?: string; polygon: { lat: number; lng: number }[] }[];
 }
 
 const InteractiveMapComponent: React.FC<InteractiveMapComponentProps> = ({
   latitude,
   longitude,
   onLocationSelect,
-  height = '400px'
+  height = '400px',
+  zones = []
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const markerRef = useRef<L.Marker | null>(null);
+  const zonesLayerRef = useRef<L.LayerGroup | null>(null);
 
   useEffect(() => {
     if (!mapRef.current) return;
@@ -39,6 +43,8 @@ const InteractiveMapComponent: React.FC<InteractiveMapComponentProps> = ({
       attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
     }).addTo(map);
 
+    zonesLayerRef.current = L.layerGroup().addTo(map);
+
     // Add initial marker if coordinates provided
     if (latitude && longitude) {
       const marker = L.marker([latitude, longitude]).addTo(map);
@@ -68,10 +74,28 @@ const InteractiveMapComponent: React.FC<InteractiveMapComponentProps> = ({
       if (mapInstanceRef.current) {
         mapInstanceRef.current.remove();
         mapInstanceRef.current = null;
+        zonesLayerRef.current = null;
       }
     };
   }, []);
 
+  // Redraw the zone outlines whenever they change, e.g. once they finish loading
+  useEffect(() => {
+    const layer = zonesLayerRef.current;
+    if (!layer) return;
+
+    layer.clearLayers();
+    zones.forEach(zone => {
+      if (zone.polygon.length < 3) return;
+      L.polygon(zone.polygon.map(p => [p.lat, p.lng] as LatLngExpression), {
+        color: zone.color || '#2563eb',
+        weight: 2,
+        fillOpacity: 0.1,
+        interactive: false
+      }).addTo(layer);
+    });
+  }, [JSON.stringify(zones)]);
+
   // Update marker position when coordinates change externally
   useEffect(() => {
     if (mapInstanceRef.current && latitude && longitude) {
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from './ui/button';
+import { AlertTriangle, Check, X } from 'lucide-react';
+import { OrderItemChange } from '../services/api';
+import { OrderService } from '../services/orderService';
+import { formatPersianCurrency, toPersianNumbers } from '@/lib/utils';
+
+interface ItemChangeNoticeProps {
+  orderId: string;
+  change: OrderItemChange;
+  // Customers get accept/decline buttons, stores just see that it's pending
+  canRespond: boolean;
+  onResponded?: () => void;
+}
+
+const ItemChangeNotice: React.FC<ItemChangeNoticeProps> = ({ orderId, change, canRespond, onResponded }) => {
+  const { t } = useTranslation();
+  const [responding, setResponding] = useState(false);
+
+  const respond = async (accept: boolean) => {
+    setResponding(true);
+    try {
+      const success = await OrderService.respondToItemChange(orderId, accept);
+      if (success) onResponded?.();
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-amber-500/40 bg-amber-50 dark:bg-amber-950/30 p-3 space-y-2 text-sm">
+      <div className="flex items-center gap-2 font-semibold text-amber-700 dark:text-amber-400">
+        <AlertTriangle className="w-4 h-4" />
+        {canRespond ? t('components.itemChange.customerTitle') : t('components.itemChange.storeTitle')}
+      </div>
+      <ul className="space-y-1">
+        {change.items.map(item => (
+          <li key={item.product} className="flex justify-between">
+            <span className={item.toQuantity === 0 ? 'line-through' : ''}>{item.name}</span>
+            <span>
+              {item.toQuantity === 0
+                ? t('components.itemChange.removed')
+                : `${toPersianNumbers(item.fromQuantity)} → ${toPersianNumbers(item.toQuantity)}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {change.note && <p className="text-muted-foreground italic">{change.note}</p>}
+      <div className="flex justify-between border-t pt-2">
+        <span className="text-muted-foreground">{t('components.itemChange.newAmount')}</span>
+        <span className="font-semibold">
+          <span className="line-through text-muted-foreground mr-2">{formatPersianCurrency(change.previousAmount)}</span>
+          {formatPersianCurrency(change.newAmount)}
+        </span>
+      </div>
+      {canRespond && (
+        <div className="flex gap-2">
+          <Button size="sm" className="flex-1" disabled={responding} onClick={() => respond(true)}>
+            <Check className="w-4 h-4 mr-1" />
+            {t('components.itemChange.accept')}
+          </Button>
+          <Button size="sm" variant="destructive" className="flex-1" disabled={responding} onClick={() => respond(false)}>
+            <X className="w-4 h-4 mr-1" />
+            {t('components.itemChange.decline')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ItemChangeNotice;
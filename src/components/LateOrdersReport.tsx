@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { slaAPI, LateOrdersReport as LateOrdersReportData } from '../services/api';
+import { logError } from '../services/logger';
+import PersianDatePicker from './PersianDatePicker';
+import { toDateKey } from '../utils/schedule';
+import { formatPersianTime, toPersianNumbers } from '@/lib/utils';
+
+/**
+ * Daily report of orders that missed an estimate, for the store dashboard
+ */
+const LateOrdersReport: React.FC = () => {
+  const { t } = useTranslation();
+  const [date, setDate] = useState(() => toDateKey(new Date()));
+  const [report, setReport] = useState<LateOrdersReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    slaAPI.getLateReport(date)
+      .then(response => {
+        if (!cancelled) setReport(response.success ? response.data || null : null);
+      })
+      .catch(error => {
+        logError(error, 'LateOrdersReport.load');
+        if (!cancelled) setReport(null);
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [date]);
+
+  const onTimeRate = report && report.totalOrders > 0
+    ? Math.round(((report.totalOrders - report.lateOrders) / report.totalOrders) * 100)
+    : null;
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-destructive" />
+            {t('components.sla.reportTitle')}
+          </CardTitle>
+          <div className="w-44">
+            <PersianDatePicker value={date} onChange={setDate} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !report ? (
+          <p className="text-sm text-muted-foreground text-center py-6">{t('components.sla.reportUnavailable')}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="rounded-lg bg-muted/50 p-3">
+                <p className="text-xs text-muted-foreground">{t('components.sla.totalOrders')}</p>
+                <p className="text-lg font-bold">{toPersianNumbers(report.totalOrders)}</p>
+              </div>
+              <div className="rounded-lg bg-muted/50 p-3">
+                <p className="text-xs text-muted-foreground">{t('components.sla.lateOrders')}</p>
+                <p className="text-lg font-bold text-destructive">{toPersianNumbers(report.lateOrders)}</p>
+              </div>
+              <div className="rounded-lg bg-muted/50 p-3">
+                <p className="text-xs text-muted-foreground">{t('components.sla.onTime')}</p>
+                <p className="text-lg font-bold">{onTimeRate === null ? '—' : `${toPersianNumbers(onTimeRate)}٪`}</p>
+              </div>
+            </div>
+
+            {report.entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center">{t('components.sla.noLateOrders')}</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-muted-foreground">
+                      <th className="text-start py-1 font-medium">{t('components.sla.order')}</th>
+                      <th className="text-start py-1 font-medium">{t('components.sla.stage')}</th>
+                      <th className="text-start py-1 font-medium">{t('components.sla.estimated')}</th>
+                      <th className="text-end py-1 font-medium">{t('components.sla.late')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.entries.map(entry => (
+                      <tr key={`${entry.order}:${entry.stage}`} className="border-b last:border-0">
+                        <td className="py-1">{entry.orderName || `#${entry.order.slice(-6)}`}</td>
+                        <td className="py-1">{t(`components.sla.stages.${entry.stage}`)}</td>
+                        <td className="py-1">{formatPersianTime(entry.estimatedAt)}</td>
+                        <td className="py-1 text-end text-destructive font-medium">
+                          {t('components.sla.minutesLate', { minutes: toPersianNumbers(Math.round(entry.minutesLate)) })}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LateOrdersReport;
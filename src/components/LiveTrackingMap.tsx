@@ -0,0 +1,122 @@
+import React, { useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Navigation, Clock } from 'lucide-react';
+import { useDriverLocation } from '../hooks/useDriverLocation';
+import { GeoPoint, estimateEtaMinutes, toGeoPoint } from '../utils/geo';
+import { formatPersianTime, toPersianNumbers } from '@/lib/utils';
+
+interface LiveTrackingMapProps {
+  orderId: string;
+  destination: GeoPoint | null;
+  // Last known driver position from the order payload
+  initialDriver?: GeoPoint | null;
+  // Needed when the viewer has no session, e.g. a guest on the tracking page
+  trackingToken?: string;
+  height?: string;
+}
+
+const DEFAULT_CENTER: L.LatLngTuple = [35.6892, 51.3890]; // Tehran as fallback
+
+const driverStyle: L.CircleMarkerOptions = { radius: 10, color: '#ea580c', fillColor: '#f97316', fillOpacity: 1, weight: 3 };
+const destinationStyle: L.CircleMarkerOptions = { radius: 8, color: '#16a34a', fillColor: '#22c55e', fillOpacity: 0.9, weight: 2 };
+
+const LiveTrackingMap: React.FC<LiveTrackingMapProps> = ({
+  orderId,
+  destination,
+  initialDriver = null,
+  trackingToken,
+  height = '220px'
+}) => {
+  const { t } = useTranslation();
+  const { location } = useDriverLocation(orderId, true, trackingToken);
+  const mapRef = useRef<HTMLDivElement>(null);
+  const mapInstanceRef = useRef<L.Map | null>(null);
+  const driverMarkerRef = useRef<L.CircleMarker | null>(null);
+  const routeLineRef = useRef<L.Polyline | null>(null);
+
+  const driver = location ? toGeoPoint(location.lat, location.lng) : initialDriver;
+  const etaMinutes = driver && destination ? estimateEtaMinutes(driver, destination, location?.speed) : null;
+
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    const center = destination ? [destination.lat, destination.lng] as L.LatLngTuple : DEFAULT_CENTER;
+    const map = L.map(mapRef.current).setView(center, 14);
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+    }).addTo(map);
+
+    if (destination) {
+      L.circleMarker([destination.lat, destination.lng], destinationStyle)
+        .bindTooltip(t('components.liveTracking.destination'))
+        .addTo(map);
+    }
+
+    mapInstanceRef.current = map;
+
+    return () => {
+      map.remove();
+      mapInstanceRef.current = null;
+      driverMarkerRef.current = null;
+      routeLineRef.current = null;
+    };
+  }, [destination?.lat, destination?.lng]);
+
+  // Move the driver marker instead of rebuilding the map on every update
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !driver) return;
+
+    const latLng: L.LatLngTuple = [driver.lat, driver.lng];
+    if (driverMarkerRef.current) {
+      driverMarkerRef.current.setLatLng(latLng);
+    } else {
+      driverMarkerRef.current = L.circleMarker(latLng, driverStyle)
+        .bindTooltip(t('components.liveTracking.driver'))
+        .addTo(map);
+    }
+
+    if (destination) {
+      const path: L.LatLngTuple[] = [latLng, [destination.lat, destination.lng]];
+      if (routeLineRef.current) {
+        routeLineRef.current.setLatLngs(path);
+      } else {
+        routeLineRef.current = L.polyline(path, { color: '#f97316', weight: 3, dashArray: '6 6' }).addTo(map);
+      }
+      map.fitBounds(L.latLngBounds(path), { padding: [30, 30], maxZoom: 16 });
+    } else {
+      map.panTo(latLng);
+    }
+  }, [driver?.lat, driver?.lng, destination?.lat, destination?.lng]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-1 font-medium">
+          <Navigation className="w-4 h-4 text-orange-500" />
+          {t('components.liveTracking.title')}
+        </span>
+        {etaMinutes !== null ? (
+          <span className="flex items-center gap-1 font-semibold">
+            <Clock className="w-4 h-4" />
+            {t('components.liveTracking.eta', { minutes: toPersianNumbers(etaMinutes) })}
+          </span>
+        ) : (
+          <span className="text-muted-foreground">{t('components.liveTracking.waitingForDriver')}</span>
+        )}
+      </div>
+      <div className="w-full rounded-lg overflow-hidden border" style={{ height }}>
+        <div ref={mapRef} style={{ height: '100%', width: '100%' }} />
+      </div>
+      {location && (
+        <p className="text-xs text-muted-foreground">
+          {t('components.liveTracking.updatedAt', { time: formatPersianTime(location.at) })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LiveTrackingMap;
@@ -12,7 +12,7 @@ import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuIte
 import { useClickOutside } from '../hooks/useClickOutside';
 import { useTheme } from '../hooks/use-theme';
 import useCart from '../hooks/useCart';
-import { UserIcon, LogOut, Wifi, WifiOff, Clock, AlertTriangle, Menu, MessageSquare, ClipboardList, Package, Users, Search, ShoppingCart, Globe, Palette } from 'lucide-react';
+import { UserIcon, LogOut, Wifi, WifiOff, Clock, AlertTriangle, Menu, MessageSquare, ClipboardList, Package, Users, Search, ShoppingCart, Globe, Palette, LocateFixed } from 'lucide-react';
 
 import type { User } from '../services/api';
 import { messageAPI } from '../services/api';
@@ -22,9 +22,11 @@ interface NavigationProps {
   user: User | undefined;
   onLogout: () => void;
   onStatusChange?: (status: string) => void;
+  // Driver position is being published for active deliveries
+  sharingLocation?: boolean;
 }
 
-const Navigation: React.FC<NavigationProps> = ({ user, onLogout, onStatusChange }) => {
+const Navigation: React.FC<NavigationProps> = ({ user, onLogout, onStatusChange, sharingLocation = false }) => {
   const { t } = useTranslation();
   const navigate = useNavigate();
   const { setTheme } = useTheme();
@@ -402,6 +404,12 @@ const Navigation: React.FC<NavigationProps> = ({ user, onLogout, onStatusChange
               )}
             </Button>
           )}
+          {sharingLocation && (
+            <span className="flex items-center gap-1 text-xs text-orange-600" title={t('components.liveTracking.sharing')}>
+              <LocateFixed className="h-4 w-4 animate-pulse" />
+              <span className="hidden lg:inline">{t('components.liveTracking.sharing')}</span>
+            </span>
+          )}
           {(user?.role === 'store' || user?.role === 'admin' || user?.role === 'driver' || !user) && (
             <Button
               variant="ghost"
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Bell, Loader2 } from 'lucide-react';
+import { notificationAPI, NotificationEvent, NotificationPreferences } from '../services/api';
+import { NotificationService } from '../services/notificationService';
+import { notificationsSupported, pushSupported } from '../utils/notifications';
+
+// Events worth offering per role
+const EVENTS_BY_ROLE: Record<string, NotificationEvent[]> = {
+  customer: ['statusChange', 'driverAssigned', 'newMessage'],
+  store: ['newOrder', 'statusChange', 'newMessage'],
+  staff: ['newOrder', 'statusChange', 'newMessage'],
+  driver: ['driverAssigned', 'statusChange', 'newMessage'],
+  admin: ['newOrder', 'statusChange', 'driverAssigned', 'newMessage']
+};
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  newOrder: true,
+  statusChange: true,
+  newMessage: true,
+  driverAssigned: true
+};
+
+interface NotificationSettingsProps {
+  role: string;
+}
+
+/**
+ * Account card to turn on push for this browser and pick which events to receive
+ */
+const NotificationSettings: React.FC<NotificationSettingsProps> = ({ role }) => {
+  const { t } = useTranslation();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_PREFERENCES);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [toggling, setToggling] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const supported = pushSupported();
+  const blocked = notificationsSupported() && Notification.permission === 'denied';
+  const events = EVENTS_BY_ROLE[role] || EVENTS_BY_ROLE.customer;
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const [response, enabled] = await Promise.all([
+          notificationAPI.getPreferences(),
+          NotificationService.isPushEnabled()
+        ]);
+        if (response.success && response.data) {
+          setPreferences({ ...DEFAULT_PREFERENCES, ...response.data });
+        }
+        setPushEnabled(enabled);
+      } catch (error) {
+        // Not configured yet - keep the defaults
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSettings();
+  }, []);
+
+  const handleTogglePush = async (checked: boolean) => {
+    setToggling(true);
+    const success = checked ? await NotificationService.enablePush() : await NotificationService.disablePush();
+    if (success) setPushEnabled(checked);
+    setToggling(false);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const response = await notificationAPI.updatePreferences(preferences);
+      if (response.success) {
+        toast.success(t('components.notificationSettings.saved'));
+      }
+    } catch (error: any) {
+      toast.error(error.message || t('components.notificationSettings.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg border-0" style={{ background: 'linear-gradient(135deg, oklch(var(--card)), oklch(var(--card) / 0.5))' }}>
+      <CardHeader className="pb-3 md:pb-4">
+        <div className="flex items-center space-x-2 md:space-x-3">
+          <div className="p-1.5 md:p-2 bg-primary/10 rounded-lg">
+            <Bell className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle className="text-lg md:text-xl">{t('components.notificationSettings.title')}</CardTitle>
+            <p className="text-xs md:text-sm text-muted-foreground">{t('components.notificationSettings.description')}</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 md:p-6">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <Label className="text-sm">{t('components.notificationSettings.thisDevice')}</Label>
+                {!supported ? (
+                  <p className="text-xs text-muted-foreground">{t('components.notificationSettings.unsupported')}</p>
+                ) : blocked && (
+                  <p className="text-xs text-destructive">{t('components.notificationSettings.blocked')}</p>
+                )}
+              </div>
+              <Switch
+                checked={pushEnabled}
+                disabled={!supported || blocked || toggling}
+                onCheckedChange={handleTogglePush}
+              />
+            </div>
+
+            <div className="space-y-3 border-t pt-4">
+              {events.map(event => (
+                <div key={event} className="flex items-center justify-between gap-3">
+                  <Label htmlFor={`notify-${event}`} className="text-sm">
+                    {t(`components.notificationSettings.events.${event}`)}
+                  </Label>
+                  <Switch
+                    id={`notify-${event}`}
+                    checked={preferences[event]}
+                    onCheckedChange={(checked) => setPreferences(prev => ({ ...prev, [event]: checked }))}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <Button className="w-full" disabled={saving} onClick={handleSave}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t('components.notificationSettings.save')}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationSettings;
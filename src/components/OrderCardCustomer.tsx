@@ -6,10 +6,22 @@ import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
 import { Textarea } from './ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
-import { orderAPI } from '../services/api';
+import { orderAPI, OrderItemChange, PaymentMethod } from '../services/api';
+import { PaymentService } from '../services/paymentService';
+import { OrderStateMachine } from '../services/orderStateMachine';
 import { toast } from 'react-toastify';
 import MapComponent from './MapComponent';
 import AvatarLink from './AvatarLink';
+import OrderTimeline from './OrderTimeline';
+import OrderReceipt from './OrderReceipt';
+import OrderChatButton from './OrderChatButton';
+import LiveTrackingMap from './LiveTrackingMap';
+import { toGeoPoint } from '../utils/geo';
+import ReorderDialog from './ReorderDialog';
+import CancelOrderDialog from './CancelOrderDialog';
+import AddTipDialog from './AddTipDialog';
+import ItemChangeNotice from './ItemChangeNotice';
+import { useLiveOrder } from '../hooks/useOrderRealtime';
 import {
   Package,
   Clock,
@@ -25,7 +37,8 @@ import {
   Laugh,
   Angry,
   Frown,
-  Navigation
+  Navigation,
+  CalendarClock
 } from 'lucide-react';
 import { formatPersianDateTime, formatPersianCurrency, toPersianNumbers } from '@/lib/utils';
 
@@ -35,8 +48,10 @@ interface Order {
   status: string;
   amount: number;
   deliveryFee?: number;
+  tip?: number;
   currency: 'IRT' | 'USD';
   payment: boolean;
+  paymentMethod?: PaymentMethod;
   isTakeout: boolean;
   isActive?: boolean;
   items: any[];
@@ -44,6 +59,11 @@ interface Order {
   store: { _id?: string; username: string; name: string; avatar?: string; locationLat?: number; locationLng?: number };
   driver?: { _id?: string; username: string; name: string; avatar?: string; locationLat?: number; locationLng?: number };
   datePlaced: string;
+  scheduledFor?: string | null;
+  cancelReason?: { code: string; note?: string } | null;
+  pendingItemChange?: OrderItemChange | null;
+  deliveryLat?: number | null;
+  deliveryLng?: number | null;
   progressPrepare: number;
   progressPickup: number;
   progressDeliver: number;
@@ -53,6 +73,7 @@ interface Order {
   customerRating?: number;
   customerComment?: string;
   customerReactions?: string[];
+  storeReply?: { text: string; repliedAt: string } | null;
 }
 
 interface OrderCardCustomerProps {
@@ -60,14 +81,16 @@ interface OrderCardCustomerProps {
   onUpdate: () => void;
 }
 
-const OrderCardCustomer: React.FC<OrderCardCustomerProps> = ({ order, onUpdate }) => {
+const OrderCardCustomer: React.FC<OrderCardCustomerProps> = ({ order: loadedOrder, onUpdate }) => {
   const { t } = useTranslation();
+  const order = useLiveOrder(loadedOrder);
   const [showFeedback, setShowFeedback] = useState(false);
   const [rating, setRating] = useState(0);
   const [comment, setComment] = useState('');
   const [selectedReactions, setSelectedReactions] = useState<string[]>([]);
   const [submittingFeedback, setSubmittingFeedback] = useState(false);
   const [showMapDialog, setShowMapDialog] = useState(false);
+  const [startingPayment, setStartingPayment] = useState(false);
 
   const formatAmount = (amount: number) => {
     return formatPersianCurrency(amount, order.currency);
@@ -105,6 +128,14 @@ const OrderCardCustomer: React.FC<OrderCardCustomerProps> = ({ order, onUpdate }
     }
   };
 
+  const canPayOnline = order.paymentMethod === 'online' && !order.payment && !OrderStateMachine.isCanceled(order.status);
+
+  const handlePayOnline = async () => {
+    setStartingPayment(true);
+    const started = await PaymentService.startPayment(order._id);
+    if (!started) setStartingPayment(false);
+  };
+
   const handlePayment = async () => {
     try {
       if (order.payment) {
@@ -179,7 +210,7 @@ const OrderCardCustomer: React.FC<OrderCardCustomerProps> = ({ order, onUpdate }
   };
 
   const canConfirmReceipt = () => {
-    return ['pickedup', 'prepared', 'delivered'].includes(order.status);
+    return OrderStateMachine.can(order, 'customer', 'receive');
   };
 
   return (
@@ -215,13 +246,42 @@ const OrderCardCustomer: React.FC<OrderCardCustomerProps> = ({ order, onUpdate }
       </CardHeader>
 
       <CardContent className="space-y-4 sm:space-y-6">
+        {order.scheduledFor && (
+          <div className="flex items-center gap-2 rounded-lg bg-primary/10 text-primary px-3 py-2 text-sm font-medium">
+            <CalendarClock className="w-4 h-4" />
+            {t('components.scheduledOrder.scheduledFor', { time: formatPersianDateTime(order.scheduledFor) })}
+          </div>
+        )}
+
+        {/* Store asked to change items - the customer has to confirm */}
+        {order.pendingItemChange && (
+          <ItemChangeNotice
+            orderId={order._id}
+            change={order.pendingItemChange}
+            canRespond={OrderStateMachine.can(order, 'customer', 'confirm_items')}
+            onResponded={onUpdate}
+          />
+        )}
+
+        {order.cancelReason && OrderStateMachine.isCanceled(order.status) && (
+          <p className="text-sm text-muted-foreground">
+            {t('components.cancelOrder.reasonLabel')}: {t(`components.cancelOrder.reasons.${order.cancelReason.code}`)}
+            {order.cancelReason.note && ` — ${order.cancelReason.note}`}
+          </p>
+        )}
+
         {/* Order Summary */}
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
           <div className="flex items-center space-x-3">
             <DollarSign className="w-8 h-8 text-green-600 bg-green-100 rounded-full p-1.5" />
             <div>
               <p className="text-sm font-medium text-muted-foreground">{t('components.orderCard.totalAmount')}</p>
-              <p className="text-2xl font-bold">{formatAmount(order.amount + (order.deliveryFee || 0))}</p>
+              <p className="text-2xl font-bold">{formatAmount(order.amount + (order.deliveryFee || 0) + (order.tip || 0))}</p>
+              {!!order.tip && (
+                <p className="text-xs text-muted-foreground">
+                  {t('components.orderCard.includesTip', { tip: formatAmount(order.tip) })}
+                </p>
+              )}
             </div>
           </div>
           <div className="flex items-center space-x-3">
@@ -301,6 +361,15 @@ const OrderCardCustomer: React.FC<OrderCardCustomerProps> = ({ order, onUpdate }
           </div>
         </div>
 
+        {/* Live driver tracking while the order is on its way */}
+        {order.isTakeout && order.driver && order.status === 'pickedup' && (
+          <LiveTrackingMap
+            orderId={order._id}
+            destination={toGeoPoint(order.deliveryLat, order.deliveryLng)}
+            initialDriver={toGeoPoint(order.driver.locationLat, order.driver.locationLng)}
+          />
+        )}
+
         {/* Track On Map Button - Only show for active delivery orders not in final/rejected states */}
         {order.isTakeout && order.isActive && !['placed', 'received', 'rejected'].includes(order.status) && (
           <div className="flex justify-center">
@@ -328,19 +397,37 @@ const OrderCardCustomer: React.FC<OrderCardCustomerProps> = ({ order, onUpdate }
           </div>
         )}
 
-        {/* Payment Button */}
-        <Button
-          onClick={handlePayment}
-          className={`w-full h-10 sm:h-12 text-base sm:text-lg font-semibold ${
-            order.payment ? 'bg-green-600 hover:bg-green-700' : 'bg-blue-600 hover:bg-blue-700'
-          } text-white`}
-        >
-          <CreditCard className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
-          {order.payment
-            ? t('components.orderCard.markAsUnpaid')
-            : t('components.orderCard.markAsPaid')
-          }
-        </Button>
+        {/* Order History & Receipt */}
+        <div className="flex justify-center gap-2">
+          <OrderTimeline orderId={order._id} />
+          <OrderReceipt order={order} />
+          <OrderChatButton orderId={order._id} />
+        </div>
+
+        {/* Payment Button - online orders are settled through the gateway */}
+        {canPayOnline ? (
+          <Button
+            onClick={handlePayOnline}
+            disabled={startingPayment}
+            className="w-full h-10 sm:h-12 text-base sm:text-lg font-semibold bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <CreditCard className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+            {t('components.payment.payOnline')}
+          </Button>
+        ) : order.paymentMethod !== 'online' && (
+          <Button
+            onClick={handlePayment}
+            className={`w-full h-10 sm:h-12 text-base sm:text-lg font-semibold ${
+              order.payment ? 'bg-green-600 hover:bg-green-700' : 'bg-blue-600 hover:bg-blue-700'
+            } text-white`}
+          >
+            <CreditCard className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
+            {order.payment
+              ? t('components.orderCard.markAsUnpaid')
+              : t('components.orderCard.markAsPaid')
+            }
+          </Button>
+        )}
 
         {/* Action Button */}
         {canConfirmReceipt() && (
@@ -354,8 +441,26 @@ const OrderCardCustomer: React.FC<OrderCardCustomerProps> = ({ order, onUpdate }
           </Button>
         )}
 
+        {OrderStateMachine.can(order, 'customer', 'cancel') && (
+          <CancelOrderDialog
+            orderId={order._id}
+            role="customer"
+            actorId={order.user?._id || ''}
+            onCanceled={onUpdate}
+          />
+        )}
+
+        {OrderStateMachine.can(order, 'customer', 'tip') && (
+          <AddTipDialog orderId={order._id} driverName={order.driver?.name} onTipped={onUpdate} />
+        )}
+
+        {/* Reorder */}
+        {OrderStateMachine.isTerminal(order.status) && (
+          <ReorderDialog order={order} />
+        )}
+
         {/* Feedback Section */}
-        {order.status === 'received' && !order.customerRating && (
+        {OrderStateMachine.can(order, 'customer', 'feedback') && (
           <div className="space-y-4">
             {!showFeedback ? (
               <Button
@@ -495,6 +600,12 @@ const OrderCardCustomer: React.FC<OrderCardCustomerProps> = ({ order, onUpdate }
                 <p className="text-sm text-muted-foreground mt-1">{order.customerComment}</p>
               </div>
             )}
+            {order.storeReply && (
+              <div className="mt-2 rounded-md bg-muted/50 p-2">
+                <span className="font-medium">{t('components.orderCard.storeReplyLabel')}:</span>
+                <p className="text-sm text-muted-foreground mt-1">{order.storeReply.text}</p>
+              </div>
+            )}
           </div>
         )}
 
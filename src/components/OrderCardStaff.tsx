@@ -5,10 +5,20 @@ import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
-import { orderAPI } from '../services/api';
+import { orderAPI, OrderItemChange, PaymentMethod } from '../services/api';
+import { PaymentService } from '../services/paymentService';
+import { OrderStateMachine, OrderAction, OrderRole, TimeAdjustTarget, TIME_ADJUST_STEPS } from '../services/orderStateMachine';
 import { toast } from 'react-toastify';
 import MapComponent from './MapComponent';
 import AvatarLink from './AvatarLink';
+import OrderTimeline from './OrderTimeline';
+import OrderReceipt from './OrderReceipt';
+import OrderChatButton from './OrderChatButton';
+import CancelOrderDialog from './CancelOrderDialog';
+import DispatchPanel from './DispatchPanel';
+import EditOrderItemsDialog from './EditOrderItemsDialog';
+import ItemChangeNotice from './ItemChangeNotice';
+import { useLiveOrder } from '../hooks/useOrderRealtime';
 import {
   Clock,
   MapPin,
@@ -23,7 +33,10 @@ import {
   ChevronUp,
   X,
   Navigation,
-  CreditCard
+  CreditCard,
+  CalendarClock,
+  RotateCcw,
+  HeartHandshake
 } from 'lucide-react';
 import { formatPersianDateTime, formatPersianCurrency, toPersianNumbers } from '@/lib/utils';
 
@@ -33,8 +46,10 @@ interface Order {
   status: string;
   amount: number;
   deliveryFee?: number;
+  tip?: number;
   currency: 'IRT' | 'USD';
   payment: boolean;
+  paymentMethod?: PaymentMethod;
   isTakeout: boolean;
   isActive?: boolean;
   items: any[];
@@ -42,6 +57,9 @@ interface Order {
   store: { _id?: string; username: string; name: string; avatar?: string; locationLat?: number; locationLng?: number };
   driver?: { _id?: string; username: string; name: string; avatar?: string; locationLat?: number; locationLng?: number };
   datePlaced: string;
+  scheduledFor?: string | null;
+  cancelReason?: { code: string; note?: string } | null;
+  pendingItemChange?: OrderItemChange | null;
   progressPrepare: number;
   progressPickup: number;
   progressDeliver: number;
@@ -51,7 +69,6 @@ interface Order {
   datePrepared_byMarketer_est?: string;
   datePickedup_byDriver_est?: string;
   dateDelivered_byDriver_est?: string;
-  stateGiven?: string;
 }
 
 interface OrderCardStaffProps {
@@ -60,10 +77,12 @@ interface OrderCardStaffProps {
   onUpdate: () => void;
 }
 
-const OrderCardStaff: React.FC<OrderCardStaffProps> = ({ order, user, onUpdate }) => {
+const OrderCardStaff: React.FC<OrderCardStaffProps> = ({ order: loadedOrder, user, onUpdate }) => {
   const { t } = useTranslation();
+  const order = useLiveOrder(loadedOrder);
   const [itemsExpanded, setItemsExpanded] = useState(false);
   const [showMapDialog, setShowMapDialog] = useState(false);
+  const [refunding, setRefunding] = useState(false);
 
   const formatAmount = (amount: number) => {
     return formatPersianCurrency(amount, order.currency);
@@ -91,6 +110,18 @@ const OrderCardStaff: React.FC<OrderCardStaffProps> = ({ order, user, onUpdate }
     }
   };
 
+  // Canceled orders paid online get their money back through the gateway
+  const canRefund = user?.role === 'store' && order.paymentMethod === 'online' && order.payment && OrderStateMachine.isCanceled(order.status);
+
+  const handleRefund = async () => {
+    setRefunding(true);
+    try {
+      if (await PaymentService.refundOrder(order._id)) onUpdate();
+    } finally {
+      setRefunding(false);
+    }
+  };
+
   const handleAction = async (action: string) => {
     try {
       if (action === 'accept_store') {
@@ -136,7 +167,6 @@ const OrderCardStaff: React.FC<OrderCardStaffProps> = ({ order, user, onUpdate }
     switch (status) {
       case 'placed': return 'bg-yellow-500';
       case 'accepted': return 'bg-blue-500';
-      case 'accepted-by-driver': return 'bg-indigo-500';
       case 'prepared': return 'bg-green-500';
       case 'pickedup': return 'bg-purple-500';
       case 'delivered': return 'bg-emerald-500';
@@ -145,13 +175,12 @@ const OrderCardStaff: React.FC<OrderCardStaffProps> = ({ order, user, onUpdate }
     }
   };
 
-  const renderTimeAdjustmentButtons = (type: 'prepare' | 'pickup' | 'deliver') => {
-    const timeAdjustments = [5, 3, 1, -1, -3, -5];
+  const renderTimeAdjustmentButtons = (type: TimeAdjustTarget) => {
     const actionPrefix = `adjust_${type}_`;
 
     return (
       <div className="flex flex-wrap gap-1 mt-2">
-        {timeAdjustments.map((minutes) => (
+        {TIME_ADJUST_STEPS.map((minutes) => (
           <Button
             key={`${type}_${minutes}`}
             variant="outline"
@@ -167,108 +196,126 @@ const OrderCardStaff: React.FC<OrderCardStaffProps> = ({ order, user, onUpdate }
     );
   };
 
+  const timeAdjustLabels: Record<TimeAdjustTarget, string> = {
+    prepare: 'components.orderCard.adjustPreparationTime',
+    pickup: 'components.orderCard.adjustPickupTime',
+    deliver: 'components.orderCard.adjustDeliveryTime'
+  };
+
   const renderActionButtons = () => {
     const buttons = [];
+    const role = user?.role;
+    const canDo = (action: OrderAction) => OrderStateMachine.can(order, role, action);
 
-    if (user?.role === 'store') {
-      if (order.status === 'placed') {
-        buttons.push(
-          <div key="actions" className="flex gap-2">
+    if (canDo('accept_store') || canDo('reject_store')) {
+      buttons.push(
+        <div key="actions" className="flex gap-2">
+          {canDo('accept_store') && (
             <Button onClick={() => handleAction('accept_store')} className="flex-1">
               <CheckCircle className="w-4 h-4 mr-2" />
               {t('components.orderCard.accept')}
             </Button>
+          )}
+          {canDo('reject_store') && (
             <Button onClick={() => handleAction('reject_store')} variant="destructive" className="flex-1">
               <X className="w-4 h-4 mr-2" />
               {t('components.orderCard.reject')}
             </Button>
-          </div>
-        );
-      } else if (order.status === 'accepted') {
-        buttons.push(
-          <Button key="prepare" onClick={() => handleAction('prepare')} className="w-full mb-3">
-            <ChefHat className="w-4 h-4 mr-2" />
-            {t('components.orderCard.markAsPrepared')}
-          </Button>
-        );
-
-        // Time adjustment section
-        buttons.push(
-          <div key="time-adjust" className="border-t pt-3">
-            <div className="flex items-center text-sm font-medium text-muted-foreground mb-2">
-              <Clock className="w-4 h-4 mr-1" />
-              {t('components.orderCard.adjustPreparationTime')}
-            </div>
-            {renderTimeAdjustmentButtons('prepare')}
-          </div>
-        );
-      }
-    } else if (user?.role === 'driver') {
-      // Check if this is an available order (no driver assigned yet)
-      const isAvailableOrder = !order.driver && order.stateGiven === 'by-store';
-
-      if (isAvailableOrder && order.isTakeout) {
-        buttons.push(
-          <Button key="accept_driver" onClick={() => handleAction('accept_driver')} className="w-full mb-3">
-            <Truck className="w-4 h-4 mr-2" />
-            {t('components.orderCard.acceptDelivery')}
-          </Button>
-        );
-      } else if (order.driver && order.isTakeout) {
-        // Show pickup button when order is prepared or accepted-by-driver
-        if (order.status === 'prepared' || order.status === 'accepted-by-driver') {
-          buttons.push(
-            <Button
-              key="pickup"
-              onClick={() => handleAction('pickup')}
-              disabled={order.status !== 'prepared'}
-              className="w-full mb-3"
-            >
-              <Package className="w-4 h-4 mr-2" />
-              {t('components.orderCard.pickUpOrder')}
-              {order.status !== 'prepared' && (
-                <span className="ml-2 text-xs opacity-75">({t('components.orderCard.waitingForPreparation')})</span>
-              )}
-            </Button>
-          );
-        }
-
-        // Time adjustment section - show for accepted orders (after driver accepts, before pickup)
-        if (order.status === 'accepted' || order.status === 'accepted-by-driver') {
-          buttons.push(
-            <div key="time-adjust-pickup" className="border-t pt-3">
-              <div className="flex items-center text-sm font-medium text-muted-foreground mb-2">
-                <Clock className="w-4 h-4 mr-1" />
-                {t('components.orderCard.adjustPickupTime')}
-              </div>
-              {renderTimeAdjustmentButtons('pickup')}
-            </div>
-          );
-        }
-
-        // Show deliver button when order is picked up
-        if (order.status === 'pickedup') {
-          buttons.push(
-            <Button key="deliver" onClick={() => handleAction('deliver')} className="w-full mb-3">
-              <MapPin className="w-4 h-4 mr-2" />
-              {t('components.orderCard.deliverToCustomer')}
-            </Button>
-          );
-
-          // Time adjustment section for delivery
-          buttons.push(
-            <div key="time-adjust-deliver" className="border-t pt-3">
-              <div className="flex items-center text-sm font-medium text-muted-foreground mb-2">
-                <Clock className="w-4 h-4 mr-1" />
-                {t('components.orderCard.adjustDeliveryTime')}
-              </div>
-              {renderTimeAdjustmentButtons('deliver')}
-            </div>
-          );
-        }
-      }
+          )}
+        </div>
+      );
+    }
+
+    if (canDo('prepare')) {
+      buttons.push(
+        <Button key="prepare" onClick={() => handleAction('prepare')} className="w-full mb-3">
+          <ChefHat className="w-4 h-4 mr-2" />
+          {t('components.orderCard.markAsPrepared')}
+        </Button>
+      );
     }
 
+    if (canDo('accept_driver')) {
+      buttons.push(
+        <Button key="accept_driver" onClick={() => handleAction('accept_driver')} className="w-full mb-3">
+          <Truck className="w-4 h-4 mr-2" />
+          {t('components.orderCard.acceptDelivery')}
+        </Button>
+      );
+    }
+
+    if (canDo('assign_driver')) {
+      buttons.push(
+        <DispatchPanel
+          key="assign_driver"
+          orderId={order._id}
+          store={order.store}
+          currentDriverId={order.driver?._id}
+          onAssigned={onUpdate}
+        />
+      );
+    }
+
+    const timeAdjustTargets = OrderStateMachine.getTimeAdjustTargets(order, role);
+
+    // Assigned driver sees pickup ahead of time, disabled until the store has prepared the order
+    if (canDo('pickup') || timeAdjustTargets.includes('pickup')) {
+      const waiting = !canDo('pickup');
+      buttons.push(
+        <Button
+          key="pickup"
+          onClick={() => handleAction('pickup')}
+          disabled={waiting}
+          className="w-full mb-3"
+        >
+          <Package className="w-4 h-4 mr-2" />
+          {t('components.orderCard.pickUpOrder')}
+          {waiting && (
+            <span className="ml-2 text-xs opacity-75">({t('components.orderCard.waitingForPreparation')})</span>
+          )}
+        </Button>
+      );
+    }
+
+    if (canDo('deliver')) {
+      buttons.push(
+        <Button key="deliver" onClick={() => handleAction('deliver')} className="w-full mb-3">
+          <MapPin className="w-4 h-4 mr-2" />
+          {t('components.orderCard.deliverToCustomer')}
+        </Button>
+      );
+    }
+
+    if (canDo('edit_items')) {
+      buttons.push(
+        <EditOrderItemsDialog key="edit_items" order={order} onUpdated={onUpdate} />
+      );
+    }
+
+    if (canDo('cancel')) {
+      buttons.push(
+        <CancelOrderDialog
+          key="cancel"
+          orderId={order._id}
+          role={role as OrderRole}
+          actorId={role === 'driver' ? user?._id : order.store?._id || user?._id}
+          onCanceled={onUpdate}
+        />
+      );
+    }
+
+    timeAdjustTargets.forEach(target => {
+      buttons.push(
+        <div key={`time-adjust-${target}`} className="border-t pt-3">
+          <div className="flex items-center text-sm font-medium text-muted-foreground mb-2">
+            <Clock className="w-4 h-4 mr-1" />
+            {t(timeAdjustLabels[target])}
+          </div>
+          {renderTimeAdjustmentButtons(target)}
+        </div>
+      );
+    });
+
     return buttons;
   };
 
@@ -378,7 +425,6 @@ const OrderCardStaff: React.FC<OrderCardStaffProps> = ({ order, user, onUpdate }
           <Badge className={`${getStatusColor(order.status)} text-white font-semibold px-2 sm:px-3 py-1 text-xs sm:text-sm`}>
             {order.status === 'placed' ? t('components.orderCard.orderPlaced') :
              order.status === 'accepted' ? t('components.orderCard.orderAccepted') :
-             order.status === 'accepted-by-driver' ? t('components.orderCard.driverAccepted') :
              order.status === 'prepared' ? t('components.orderCard.orderPrepared') :
              order.status === 'pickedup' ? t('components.orderCard.outForDelivery') :
              order.status === 'delivered' ? t('components.orderCard.delivered') :
@@ -390,6 +436,13 @@ const OrderCardStaff: React.FC<OrderCardStaffProps> = ({ order, user, onUpdate }
       </CardHeader>
 
       <CardContent className="space-y-4 sm:space-y-6">
+        {order.scheduledFor && (
+          <div className="flex items-center gap-2 rounded-lg bg-primary/10 text-primary px-3 py-2 text-sm font-medium">
+            <CalendarClock className="w-4 h-4" />
+            {t('components.scheduledOrder.scheduledFor', { time: formatPersianDateTime(order.scheduledFor) })}
+          </div>
+        )}
+
         {/* Order Details Grid */}
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
           <div className="space-y-3">
@@ -407,6 +460,15 @@ const OrderCardStaff: React.FC<OrderCardStaffProps> = ({ order, user, onUpdate }
                 <p className="text-base sm:text-lg font-semibold">{formatAmount(order.deliveryFee || 0)}</p>
               </div>
             </div>
+            {!!order.tip && (
+              <div className="flex items-center">
+                <HeartHandshake className="w-4 h-4 mr-2 text-pink-600" />
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">{t('components.orderCard.driverTip')}</p>
+                  <p className="text-base sm:text-lg font-semibold">{formatAmount(order.tip)}</p>
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="space-y-3">
@@ -447,8 +509,25 @@ const OrderCardStaff: React.FC<OrderCardStaffProps> = ({ order, user, onUpdate }
               }
             </Badge>
           </div>
+          {canRefund && (
+            <Button variant="outline" size="sm" className="w-full mt-3" disabled={refunding} onClick={handleRefund}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              {t('components.payment.refund')}
+            </Button>
+          )}
         </div>
 
+        {order.pendingItemChange && (
+          <ItemChangeNotice orderId={order._id} change={order.pendingItemChange} canRespond={false} />
+        )}
+
+        {order.cancelReason && OrderStateMachine.isCanceled(order.status) && (
+          <p className="text-sm text-muted-foreground">
+            {t('components.cancelOrder.reasonLabel')}: {t(`components.cancelOrder.reasons.${order.cancelReason.code}`)}
+            {order.cancelReason.note && ` — ${order.cancelReason.note}`}
+          </p>
+        )}
+
         {/* Items List */}
         <div className="border-t pt-4">
           <button
@@ -572,6 +651,13 @@ const OrderCardStaff: React.FC<OrderCardStaffProps> = ({ order, user, onUpdate }
               </div>
             )}
 
+            {/* Order History & Receipt */}
+            <div className="flex justify-center gap-2">
+              <OrderTimeline orderId={order._id} />
+              <OrderReceipt order={order} />
+              <OrderChatButton orderId={order._id} />
+            </div>
+
             {renderActionButtons()}
           </div>
         </div>
@@ -0,0 +1,31 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Button } from './ui/button';
+import { MessageSquare } from 'lucide-react';
+
+interface OrderChatButtonProps {
+  orderId: string;
+}
+
+/**
+ * Opens the order's chat thread on the Messages page
+ */
+const OrderChatButton: React.FC<OrderChatButtonProps> = ({ orderId }) => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className="flex items-center gap-2"
+      onClick={() => navigate('/messages', { state: { openOrderThread: orderId } })}
+    >
+      <MessageSquare className="w-4 h-4" />
+      {t('components.orderChat.chat')}
+    </Button>
+  );
+};
+
+export default OrderChatButton;
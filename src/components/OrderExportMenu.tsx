@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { Button } from './ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu';
+import { Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import {
+  ExportColumn,
+  ExportFormat,
+  ExportGranularity,
+  ExportLabels,
+  buildExportRows,
+  downloadExport
+} from '../utils/orderExport';
+import { toDateKey } from '../utils/schedule';
+import { logError } from '../services/logger';
+
+interface OrderExportMenuProps {
+  // Already filtered by the orders page
+  orders: any[];
+}
+
+const COLUMNS: ExportColumn[] = [
+  'orderId', 'orderName', 'datePersian', 'dateGregorian', 'status', 'type', 'customer', 'store',
+  'product', 'quantity', 'unitPrice', 'lineTotal', 'itemCount', 'subtotal', 'deliveryFee',
+  'amount', 'paid', 'driver', 'rating'
+];
+
+const OPTIONS: { format: ExportFormat; granularity: ExportGranularity }[] = [
+  { format: 'csv', granularity: 'orders' },
+  { format: 'csv', granularity: 'items' },
+  { format: 'xlsx', granularity: 'orders' },
+  { format: 'xlsx', granularity: 'items' }
+];
+
+const OrderExportMenu: React.FC<OrderExportMenuProps> = ({ orders }) => {
+  const { t, i18n } = useTranslation();
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat, granularity: ExportGranularity) => {
+    if (orders.length === 0) {
+      toast.info(t('components.orderExport.nothingToExport'));
+      return;
+    }
+
+    const labels = {
+      ...Object.fromEntries(COLUMNS.map(column => [column, t(`components.orderExport.columns.${column}`)])),
+      yes: t('components.orderExport.yes'),
+      no: t('components.orderExport.no'),
+      delivery: t('components.orderExport.delivery'),
+      inStore: t('components.orderExport.inStore')
+    } as ExportLabels;
+
+    try {
+      setExporting(true);
+      const rows = buildExportRows(orders, granularity, labels);
+      await downloadExport(rows, format, `orders-${granularity}-${toDateKey(new Date())}`, i18n.dir() === 'rtl');
+    } catch (error: any) {
+      logError(error, 'OrderExportMenu.handleExport');
+      toast.error(t('components.orderExport.failed'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={exporting}>
+          {exporting ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Download className="w-4 h-4 mr-1" />}
+          {t('components.orderExport.export', { count: orders.length })}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {OPTIONS.map(({ format, granularity }) => (
+          <DropdownMenuItem key={`${format}-${granularity}`} onClick={() => handleExport(format, granularity)}>
+            {format === 'csv' ? <FileText className="w-4 h-4 mr-2" /> : <FileSpreadsheet className="w-4 h-4 mr-2" />}
+            {t(`components.orderExport.${format}_${granularity}`)}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default OrderExportMenu;
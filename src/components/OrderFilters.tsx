@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
@@ -7,6 +8,8 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Calendar, Filter, X, Search, RefreshCw } from 'lucide-react';
 import PersianDatePicker from './PersianDatePicker';
+import FilterPresetMenu from './FilterPresetMenu';
+import { FilterSchema } from '../hooks/useUrlFilters';
 
 interface OrderFiltersProps {
   user: any;
@@ -27,14 +30,32 @@ export interface OrderFilters {
   searchTerm?: string;
   priceMin?: string;
   priceMax?: string;
+  scheduling?: string;
 }
 
+// Query string encoding, see useUrlFilters
+export const ORDER_FILTER_SCHEMA: FilterSchema<OrderFilters> = {
+  status: 'array',
+  dateFrom: 'string',
+  dateTo: 'string',
+  timeFrom: 'string',
+  timeTo: 'string',
+  orderType: 'string',
+  customerName: 'string',
+  hasDriver: 'string',
+  searchTerm: 'string',
+  priceMin: 'string',
+  priceMax: 'string',
+  scheduling: 'string'
+};
+
 const OrderFilters: React.FC<OrderFiltersProps> = ({
   user,
   filters,
   onFiltersChange,
   onReset
 }) => {
+  const { t } = useTranslation();
   const [isExpanded, setIsExpanded] = useState(false);
 
   const statusOptions = [
@@ -53,6 +74,11 @@ const OrderFilters: React.FC<OrderFiltersProps> = ({
     { value: 'in-store', label: 'In-store' },
   ];
 
+  const schedulingOptions = [
+    { value: 'scheduled', label: t('components.scheduledOrder.filterScheduled') },
+    { value: 'immediate', label: t('components.scheduledOrder.filterImmediate') },
+  ];
+
   const driverOptions = [
     { value: 'assigned', label: 'Has Driver' },
     { value: 'unassigned', label: 'No Driver' },
@@ -226,6 +252,28 @@ const OrderFilters: React.FC<OrderFiltersProps> = ({
     </div>
   );
 
+  const renderSchedulingFilter = () => (
+    <div className="space-y-3">
+      <Label className="text-sm font-semibold text-primary flex items-center">
+        <div className="w-2 h-2 rounded-full bg-indigo-500 mr-2"></div>
+        {t('components.scheduledOrder.filterLabel')}
+      </Label>
+      <Select value={filters.scheduling || 'all'} onValueChange={(value) => updateFilter('scheduling', value)}>
+        <SelectTrigger className="h-10 rounded-lg border-input hover:border-primary/50 focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all duration-200">
+          <SelectValue placeholder={t('components.scheduledOrder.filterAll')} />
+        </SelectTrigger>
+        <SelectContent className="rounded-lg">
+          <SelectItem value="all" className="rounded-md">{t('components.scheduledOrder.filterAll')}</SelectItem>
+          {schedulingOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value} className="rounded-md">
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   const renderDriverFilter = () => (
     <div className="space-y-3">
       <Label className="text-sm font-semibold text-primary flex items-center">
@@ -313,6 +361,17 @@ const OrderFilters: React.FC<OrderFiltersProps> = ({
       );
     }
 
+    if (filters.scheduling) {
+      activeFilters.push(
+        <Badge key="scheduling" variant="secondary" className="flex items-center gap-1 bg-indigo-500/10 text-indigo-600 border-indigo-500/20 hover:bg-indigo-500/20">
+          🕒 {t('components.scheduledOrder.filterBadge', {
+            value: schedulingOptions.find(option => option.value === filters.scheduling)?.label
+          })}
+          <X className="w-3 h-3 cursor-pointer hover:text-destructive" onClick={() => clearFilter('scheduling')} />
+        </Badge>
+      );
+    }
+
     if (filters.hasDriver) {
       activeFilters.push(
         <Badge key="driver" variant="secondary" className="flex items-center gap-1 bg-orange-500/10 text-orange-600 border-orange-500/20 hover:bg-orange-500/20">
@@ -348,6 +407,13 @@ const OrderFilters: React.FC<OrderFiltersProps> = ({
             )}
           </CardTitle>
           <div className="flex items-center gap-2">
+            {user && (
+              <FilterPresetMenu
+                scope="orders"
+                filters={{ ...filters }}
+                onApply={(preset) => onFiltersChange(preset as OrderFilters)}
+              />
+            )}
             {getActiveFiltersCount() > 0 && (
               <Button variant="outline" size="sm" onClick={onReset} className="hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20">
                 <RefreshCw className="w-4 h-4 mr-1" />
@@ -384,6 +450,9 @@ const OrderFilters: React.FC<OrderFiltersProps> = ({
             <div className="space-y-4 p-4 rounded-xl bg-gradient-to-br from-muted/30 to-muted/10 border border-border/50">
               {renderSearchFilter()}
             </div>
+            <div className="space-y-4 p-4 rounded-xl bg-gradient-to-br from-muted/30 to-muted/10 border border-border/50">
+              {renderSchedulingFilter()}
+            </div>
 
             {(user?.role === 'store' || user?.role === 'driver') && (
               <div className="space-y-4 p-4 rounded-xl bg-gradient-to-br from-muted/30 to-muted/10 border border-border/50">
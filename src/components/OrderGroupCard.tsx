@@ -0,0 +1,48 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Badge } from './ui/badge';
+import { Layers } from 'lucide-react';
+import { OrderStateMachine } from '../services/orderStateMachine';
+import { getGroupTotal } from '../utils/orderGroups';
+import { formatPersianCurrency, formatPersianDateTime, toPersianNumbers } from '@/lib/utils';
+
+interface OrderGroupCardProps {
+  orders: any[];
+  children: React.ReactNode;
+}
+
+/**
+ * Frame around the store orders of one checkout-all in the customer's history
+ */
+const OrderGroupCard: React.FC<OrderGroupCardProps> = ({ orders, children }) => {
+  const { t } = useTranslation();
+  const first = orders[0];
+  const openCount = orders.filter(order => !OrderStateMachine.isTerminal(order.status)).length;
+
+  return (
+    <div className="col-span-full rounded-xl border border-primary/20 bg-primary/5 p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-primary" />
+          <h2 className="font-semibold">
+            {t('components.orderGroup.title', { count: orders.length, stores: toPersianNumbers(orders.length) })}
+          </h2>
+          {openCount > 0 && (
+            <Badge variant="secondary">{t('components.orderGroup.inProgress', { count: openCount, open: toPersianNumbers(openCount) })}</Badge>
+          )}
+        </div>
+        <div className="text-sm text-muted-foreground flex items-center gap-3">
+          <span>{formatPersianDateTime(first.datePlaced)}</span>
+          <span className="font-semibold text-foreground">
+            {t('components.orderGroup.total', { amount: formatPersianCurrency(getGroupTotal(orders), first.currency) })}
+          </span>
+        </div>
+      </div>
+      <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2 xl:grid-cols-3">
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default OrderGroupCard;
@@ -0,0 +1,226 @@
+import React, { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Receipt, Printer, FileDown, Loader2 } from 'lucide-react';
+import { logError } from '../services/logger';
+import { ReceiptPaper, getOrderUrl, printReceipt, downloadReceiptPdf } from '../utils/receipt';
+import { formatPersianCurrency, formatPersianDateTime, toPersianNumbers } from '@/lib/utils';
+
+interface ReceiptOrder {
+  _id: string;
+  orderName?: string;
+  amount: number;
+  deliveryFee?: number;
+  tip?: number;
+  currency?: 'IRT' | 'USD';
+  payment: boolean;
+  isTakeout: boolean;
+  items: any[];
+  datePlaced: string;
+  trackingToken?: string;
+  user?: { name?: string; username?: string };
+  store?: { name?: string; username?: string; phone?: string; address?: string };
+}
+
+interface OrderReceiptProps {
+  order: ReceiptOrder;
+}
+
+// Inline styles only: the receipt is re-rendered in an iframe without app CSS
+const styles: Record<string, React.CSSProperties> = {
+  root: { fontSize: 12, lineHeight: 1.6, color: '#111111', background: '#ffffff', padding: 8 },
+  header: { textAlign: 'center', borderBottom: '1px dashed #999999', paddingBottom: 8, marginBottom: 8 },
+  storeName: { fontSize: 16, fontWeight: 700, margin: 0 },
+  muted: { color: '#555555', margin: 0 },
+  row: { display: 'flex', justifyContent: 'space-between', gap: 8 },
+  table: { width: '100%', borderCollapse: 'collapse', margin: '8px 0' },
+  th: { textAlign: 'start', borderBottom: '1px solid #999999', padding: '2px 0', fontWeight: 600 },
+  td: { padding: '2px 0', verticalAlign: 'top' },
+  totals: { borderTop: '1px dashed #999999', paddingTop: 8 },
+  grandTotal: { fontSize: 14, fontWeight: 700 },
+  footer: { textAlign: 'center', marginTop: 12 }
+};
+
+// What the line was charged at, so old receipts don't follow later price changes
+const linePrice = (item: any): number => item.price ?? item.product?.price ?? 0;
+
+const ReceiptContent = React.forwardRef<HTMLDivElement, { order: ReceiptOrder }>(({ order }, ref) => {
+  const { t } = useTranslation();
+  const formatAmount = (amount: number) => formatPersianCurrency(amount, order.currency);
+  const deliveryFee = order.deliveryFee || 0;
+  const tip = order.tip || 0;
+  const subtotal = order.items.reduce(
+    (sum, item) => sum + linePrice(item) * (item.quantity || 0),
+    0
+  );
+
+  return (
+    <div ref={ref} style={styles.root}>
+      <div style={styles.header}>
+        <p style={styles.storeName}>{order.store?.name || order.store?.username}</p>
+        {order.store?.address && <p style={styles.muted}>{order.store.address}</p>}
+        {order.store?.phone && <p style={styles.muted}>{toPersianNumbers(order.store.phone)}</p>}
+      </div>
+
+      <div style={styles.row}>
+        <span>{t('components.receipt.orderNumber')}</span>
+        <span>#{order._id.slice(-8)}</span>
+      </div>
+      <div style={styles.row}>
+        <span>{t('components.receipt.date')}</span>
+        <span>{formatPersianDateTime(order.datePlaced)}</span>
+      </div>
+      {order.user && (
+        <div style={styles.row}>
+          <span>{t('components.receipt.customer')}</span>
+          <span>{order.user.name || order.user.username}</span>
+        </div>
+      )}
+      <div style={styles.row}>
+        <span>{t('components.receipt.type')}</span>
+        <span>{order.isTakeout ? t('components.receipt.delivery') : t('components.receipt.inStore')}</span>
+      </div>
+
+      <table style={styles.table}>
+        <thead>
+          <tr>
+            <th style={styles.th}>{t('components.receipt.item')}</th>
+            <th style={{ ...styles.th, textAlign: 'center' }}>{t('components.receipt.qty')}</th>
+            <th style={{ ...styles.th, textAlign: 'end' }}>{t('components.receipt.total')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.items.map((item, index) => (
+            <tr key={item._id || index}>
+              <td style={styles.td}>{item.product?.name}</td>
+              <td style={{ ...styles.td, textAlign: 'center' }}>{toPersianNumbers(item.quantity)}</td>
+              <td style={{ ...styles.td, textAlign: 'end' }}>{formatAmount(linePrice(item) * item.quantity)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div style={styles.totals}>
+        <div style={styles.row}>
+          <span>{t('components.receipt.subtotal')}</span>
+          <span>{formatAmount(subtotal)}</span>
+        </div>
+        {deliveryFee > 0 && (
+          <div style={styles.row}>
+            <span>{t('components.receipt.deliveryFee')}</span>
+            <span>{formatAmount(deliveryFee)}</span>
+          </div>
+        )}
+        {tip > 0 && (
+          <div style={styles.row}>
+            <span>{t('components.receipt.tip')}</span>
+            <span>{formatAmount(tip)}</span>
+          </div>
+        )}
+        <div style={{ ...styles.row, ...styles.grandTotal }}>
+          <span>{t('components.receipt.grandTotal')}</span>
+          <span>{formatAmount(order.amount + tip)}</span>
+        </div>
+        <div style={styles.row}>
+          <span>{t('components.receipt.paymentStatus')}</span>
+          <span>{order.payment ? t('components.receipt.paid') : t('components.receipt.unpaid')}</span>
+        </div>
+      </div>
+
+      <div style={styles.footer}>
+        <QRCodeSVG value={getOrderUrl(order._id, order.trackingToken)} size={96} />
+        <p style={styles.muted}>{t('components.receipt.scanToView')}</p>
+      </div>
+    </div>
+  );
+});
+
+ReceiptContent.displayName = 'ReceiptContent';
+
+const OrderReceipt: React.FC<OrderReceiptProps> = ({ order }) => {
+  const { t, i18n } = useTranslation();
+  const [paper, setPaper] = useState<ReceiptPaper>('thermal');
+  const [exporting, setExporting] = useState(false);
+  const receiptRef = useRef<HTMLDivElement>(null);
+
+  const handlePrint = async () => {
+    if (!receiptRef.current) return;
+    try {
+      await printReceipt(receiptRef.current, paper, i18n.dir());
+    } catch (error: any) {
+      logError(error, 'OrderReceipt.print');
+      toast.error(t('components.receipt.printFailed'));
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!receiptRef.current) return;
+    setExporting(true);
+    try {
+      await downloadReceiptPdf(receiptRef.current, paper, `receipt-${order._id.slice(-8)}.pdf`, i18n.dir());
+    } catch (error: any) {
+      logError(error, 'OrderReceipt.download');
+      toast.error(t('components.receipt.pdfFailed'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Receipt className="w-4 h-4" />
+          {t('components.receipt.receipt')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('components.receipt.title')}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button
+            variant={paper === 'thermal' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setPaper('thermal')}
+            className="flex-1"
+          >
+            {t('components.receipt.thermal')}
+          </Button>
+          <Button
+            variant={paper === 'a4' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setPaper('a4')}
+            className="flex-1"
+          >
+            {t('components.receipt.a4')}
+          </Button>
+        </div>
+
+        {/* Preview at the selected paper width */}
+        <div className="flex justify-center rounded-lg border bg-muted/30 p-4 overflow-x-auto">
+          <div className="bg-white shadow" style={{ width: paper === 'thermal' ? '80mm' : '210mm', maxWidth: '100%' }} dir={i18n.dir()}>
+            <ReceiptContent ref={receiptRef} order={order} />
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          <Button onClick={handlePrint} className="flex-1">
+            <Printer className="w-4 h-4 mr-2" />
+            {t('components.receipt.print')}
+          </Button>
+          <Button variant="outline" onClick={handleDownload} disabled={exporting} className="flex-1">
+            {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileDown className="w-4 h-4 mr-2" />}
+            {t('components.receipt.downloadPdf')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OrderReceipt;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Badge } from './ui/badge';
+import { Package, Store, Truck, User as UserIcon } from 'lucide-react';
+import { OrderThread } from '../services/api';
+import { formatPersianCurrency, toPersianNumbers } from '@/lib/utils';
+
+interface OrderThreadHeaderProps {
+  order: OrderThread['order'];
+}
+
+/**
+ * Order context above an order chat: status, participants and items
+ */
+const OrderThreadHeader: React.FC<OrderThreadHeaderProps> = ({ order }) => {
+  const { t } = useTranslation();
+  const items = order.items || [];
+
+  return (
+    <div className="flex items-start gap-3 flex-1 min-w-0">
+      <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center flex-shrink-0">
+        <Package className="w-5 h-5 text-primary" />
+      </div>
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex items-center gap-2 flex-wrap">
+          <h3 className="font-semibold truncate">{order.orderName || `#${order._id.slice(-6)}`}</h3>
+          <Badge variant="secondary">
+            {t(`components.orderTimeline.status.${order.status}`, { defaultValue: order.status })}
+          </Badge>
+          <span className="text-xs text-muted-foreground">{formatPersianCurrency(order.amount)}</span>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground flex-wrap">
+          <span className="flex items-center gap-1">
+            <UserIcon className="w-3 h-3" />
+            {order.user?.name || order.user?.username || t('components.orderChat.customer')}
+          </span>
+          <span className="flex items-center gap-1">
+            <Store className="w-3 h-3" />
+            {order.store?.name || order.store?.username}
+          </span>
+          <span className="flex items-center gap-1">
+            <Truck className="w-3 h-3" />
+            {order.driver ? order.driver.name || order.driver.username : t('components.orderChat.noDriver')}
+          </span>
+        </div>
+        {items.length > 0 && (
+          <p className="text-xs text-muted-foreground truncate">
+            {items.map(item => `${item.product?.name} × ${toPersianNumbers(item.quantity)}`).join('، ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OrderThreadHeader;
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { orderAPI, OrderHistoryEvent } from '../services/api';
+import { logError } from '../services/logger';
+import { subscribeToOrder } from '../services/realtime';
+import { toast } from 'react-toastify';
+import {
+  History,
+  ArrowRight,
+  Clock,
+  CreditCard,
+  XCircle,
+  PackageMinus,
+  Loader2
+} from 'lucide-react';
+import { formatPersianDateTime, toPersianNumbers } from '@/lib/utils';
+
+interface OrderTimelineProps {
+  orderId: string;
+  size?: 'sm' | 'default';
+}
+
+const eventIcons = {
+  status: ArrowRight,
+  time_adjust: Clock,
+  payment: CreditCard,
+  cancel: XCircle,
+  items: PackageMinus
+};
+
+const eventColors = {
+  status: 'bg-blue-500',
+  time_adjust: 'bg-amber-500',
+  payment: 'bg-green-500',
+  cancel: 'bg-red-500',
+  items: 'bg-purple-500'
+};
+
+const OrderTimeline: React.FC<OrderTimelineProps> = ({ orderId, size = 'sm' }) => {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [events, setEvents] = useState<OrderHistoryEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadHistory = async () => {
+    setLoading(true);
+    try {
+      const response = await orderAPI.getOrderHistory(orderId);
+      if (response.success) {
+        const sorted = [...(response.data || [])].sort(
+          (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+        );
+        setEvents(sorted);
+      } else {
+        toast.error(response.message || t('components.orderTimeline.loadFailed'));
+      }
+    } catch (error: any) {
+      logError(error, 'OrderTimeline.loadHistory');
+      toast.error(t('components.orderTimeline.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load on open and keep the timeline current while the order moves on; closed timelines don't listen
+  useEffect(() => {
+    if (!open) return;
+
+    loadHistory();
+    return subscribeToOrder(orderId, (event) => {
+      if (event.type !== 'progress') {
+        loadHistory();
+      }
+    });
+  }, [open, orderId]);
+
+  const statusLabel = (status?: string) =>
+    status ? t(`components.orderTimeline.status.${status}`, { defaultValue: status }) : '';
+
+  const describe = (event: OrderHistoryEvent) => {
+    switch (event.type) {
+      case 'status':
+        return event.fromStatus
+          ? t('components.orderTimeline.statusChanged', { from: statusLabel(event.fromStatus), to: statusLabel(event.toStatus) })
+          : statusLabel(event.toStatus);
+      case 'time_adjust': {
+        const minutes = toPersianNumbers(Math.abs(event.minutes || 0).toString());
+        const target = t(`components.orderTimeline.target.${event.target}`);
+        return (event.minutes || 0) > 0
+          ? t('components.orderTimeline.timeExtended', { target, minutes })
+          : t('components.orderTimeline.timeReduced', { target, minutes });
+      }
+      case 'payment':
+        return event.payment ? t('components.orderTimeline.markedPaid') : t('components.orderTimeline.markedUnpaid');
+      case 'cancel':
+        return statusLabel(event.toStatus) || t('components.orderTimeline.canceled');
+      case 'items':
+        return t('components.orderTimeline.itemsChanged');
+      default:
+        return '';
+    }
+  };
+
+  const actorLabel = (event: OrderHistoryEvent) => {
+    if (!event.actor) return t('components.orderTimeline.system');
+    const name = event.actor.name || event.actor.username;
+    return `${name} (${t(`components.orderTimeline.role.${event.actor.role}`, { defaultValue: event.actor.role })})`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size={size} className="flex items-center gap-2">
+          <History className="w-4 h-4" />
+          {t('components.orderTimeline.history')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('components.orderTimeline.title')}</DialogTitle>
+        </DialogHeader>
+
+        {loading && events.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">{t('components.orderTimeline.empty')}</p>
+        ) : (
+          <ol className="relative border-s border-muted ms-3 mt-2 space-y-5">
+            {events.map((event) => {
+              const Icon = eventIcons[event.type] || ArrowRight;
+              return (
+                <li key={event._id} className="ms-6">
+                  <span className={`absolute -start-3 flex items-center justify-center w-6 h-6 rounded-full text-white ${eventColors[event.type] || 'bg-gray-500'}`}>
+                    <Icon className="w-3 h-3" />
+                  </span>
+                  <p className="text-sm font-medium">{describe(event)}</p>
+                  {event.reason && (
+                    <p className="text-sm text-muted-foreground">
+                      {t('components.orderTimeline.reason')}: {t(`components.cancelOrder.reasons.${event.reason}`, { defaultValue: event.reason })}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {actorLabel(event)} · {formatPersianDateTime(event.createdAt)}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OrderTimeline;
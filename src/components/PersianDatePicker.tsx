@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { ChevronLeft, ChevronRight, Calendar } from 'lucide-react';
 import { persianToGregorian, getPersianMonthDays, getPersianMonthName, gregorianToPersian } from '@/lib/utils';
+import { toDateKey } from '@/utils/schedule';
 
 interface PersianDatePickerProps {
   value?: string;
@@ -9,36 +10,47 @@ interface PersianDatePickerProps {
   placeholder?: string;
 }
 
+const PERSIAN_MONTHS = [
+  'فروردین', 'اردیبهشت', 'خرداد', 'تیر', 'مرداد', 'شهریور',
+  'مهر', 'آبان', 'آذر', 'دی', 'بهمن', 'اسفند'
+];
+
+// Date keys (YYYY-MM-DD) are local days; new Date() would read them as UTC
+const parseValue = (value?: string): Date | null => {
+  if (!value) return null;
+  const key = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = key ? new Date(Number(key[1]), Number(key[2]) - 1, Number(key[3])) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Persian year and month a date falls in, read back from gregorianToPersian
+const toPersianMonth = (date: Date) => {
+  const [, monthName, year] = gregorianToPersian(date).split(' ');
+  return {
+    year: parseInt(year.replace(/[۰-۹]/g, digit => String('۰۱۲۳۴۵۶۷۸۹'.indexOf(digit)))),
+    month: PERSIAN_MONTHS.indexOf(monthName) + 1
+  };
+};
+
 const PersianDatePicker: React.FC<PersianDatePickerProps> = ({
   value,
   onChange,
   placeholder = "انتخاب تاریخ"
 }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [currentYear, setCurrentYear] = useState(1403); // Current Persian year
-  const [currentMonth, setCurrentMonth] = useState(10); // Current Persian month (Dey)
+  const [currentYear, setCurrentYear] = useState(() => toPersianMonth(parseValue(value) || new Date()).year);
+  const [currentMonth, setCurrentMonth] = useState(() => toPersianMonth(parseValue(value) || new Date()).month);
 
   useEffect(() => {
-    // Set current Persian date as default
-    if (!value) {
-      const today = new Date();
-      const persianDate = gregorianToPersian(today);
-      const parts = persianDate.split(' ');
-      const year = parseInt(parts[2]);
-      const monthIndex = [
-        'فروردین', 'اردیبهشت', 'خرداد', 'تیر', 'مرداد', 'شهریور',
-        'مهر', 'آبان', 'آذر', 'دی', 'بهمن', 'اسفند'
-      ].indexOf(parts[1]) + 1;
-
-      setCurrentYear(year);
-      setCurrentMonth(monthIndex);
-    }
+    // Show the month of the selected date, or the current month when nothing is selected
+    const { year, month } = toPersianMonth(parseValue(value) || new Date());
+    setCurrentYear(year);
+    setCurrentMonth(month);
   }, [value]);
 
   const handleDateSelect = (day: number) => {
-    const gregorianDate = persianToGregorian(currentYear, currentMonth, day);
-    const dateString = gregorianDate.toISOString().split('T')[0];
-    onChange(dateString);
+    // Local calendar day; toISOString would shift it to the previous day east of UTC
+    onChange(toDateKey(persianToGregorian(currentYear, currentMonth, day)));
     setIsOpen(false);
   };
 
@@ -163,9 +175,7 @@ const PersianDatePicker: React.FC<PersianDatePickerProps> = ({
               variant="outline"
               size="sm"
               onClick={() => {
-                const today = new Date();
-                const dateString = today.toISOString().split('T')[0];
-                onChange(dateString);
+                onChange(toDateKey(new Date()));
                 setIsOpen(false);
               }}
               className="w-full text-sm font-medium bg-gradient-to-r from-primary/5 to-primary/10 hover:from-primary/10 hover:to-primary/20 border-primary/20 hover:border-primary/30 transition-all duration-200"
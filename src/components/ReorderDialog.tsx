@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { RotateCcw, Loader2, ArrowRight } from 'lucide-react';
+import { ReorderService, ReorderLine, ReorderIssue } from '../services/reorderService';
+import { formatPersianCurrency, toPersianNumbers } from '@/lib/utils';
+
+interface ReorderDialogProps {
+  order: {
+    _id: string;
+    items: any[];
+    currency?: 'IRT' | 'USD';
+  };
+}
+
+const issueStyles: Record<ReorderIssue, string> = {
+  unavailable: 'bg-red-500',
+  out_of_stock: 'bg-red-500',
+  limited_stock: 'bg-amber-500',
+  price_changed: 'bg-blue-500'
+};
+
+const ReorderDialog: React.FC<ReorderDialogProps> = ({ order }) => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [checking, setChecking] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [lines, setLines] = useState<ReorderLine[]>([]);
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [showDialog, setShowDialog] = useState(false);
+
+  const formatAmount = (amount: number) => formatPersianCurrency(amount, order.currency);
+
+  const addLines = async (selected: ReorderLine[]) => {
+    setAdding(true);
+    try {
+      const added = await ReorderService.addToCart(selected, order._id);
+      if (added > 0) {
+        toast.success(t('components.reorder.added', { count: added }));
+        setShowDialog(false);
+        navigate('/cart');
+      }
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleReorder = async () => {
+    setChecking(true);
+    try {
+      const plan = await ReorderService.buildPlan(order.items);
+      if (!plan) return;
+
+      if (!ReorderService.hasIssues(plan)) {
+        await addLines(plan);
+        return;
+      }
+
+      setLines(plan);
+      setExcluded([]);
+      setShowDialog(true);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const toggleLine = (productId: string, include: boolean) => {
+    setExcluded(prev => include ? prev.filter(id => id !== productId) : [...prev, productId]);
+  };
+
+  const selectedLines = lines.filter(line => line.quantity > 0 && !excluded.includes(line.productId));
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={handleReorder}
+        disabled={checking || adding || order.items.length === 0}
+        className="w-full"
+      >
+        {checking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+        {t('components.reorder.reorder')}
+      </Button>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t('components.reorder.reviewTitle')}</DialogTitle>
+            <DialogDescription>{t('components.reorder.reviewDescription')}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3 py-2">
+            {lines.map((line) => {
+              const blocked = line.quantity <= 0;
+              return (
+                <div key={line.productId} className={`flex items-start gap-3 rounded-lg border p-3 ${blocked ? 'opacity-60' : ''}`}>
+                  <input
+                    type="checkbox"
+                    id={`reorder-${line.productId}`}
+                    checked={!blocked && !excluded.includes(line.productId)}
+                    disabled={blocked}
+                    onChange={(e) => toggleLine(line.productId, e.target.checked)}
+                    className="mt-1 rounded border-input"
+                  />
+                  <label htmlFor={`reorder-${line.productId}`} className="flex-1 space-y-1 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{line.name}</span>
+                      <span className="text-muted-foreground">
+                        {line.quantity !== line.orderedQuantity
+                          ? `${toPersianNumbers(line.orderedQuantity)} → ${toPersianNumbers(line.quantity)}`
+                          : `× ${toPersianNumbers(line.quantity)}`}
+                      </span>
+                    </div>
+                    {line.issues.includes('price_changed') && line.currentPrice !== undefined && (
+                      <div className="flex items-center gap-1 text-muted-foreground">
+                        <span className="line-through">{formatAmount(line.originalPrice)}</span>
+                        <ArrowRight className="w-3 h-3" />
+                        <span className="font-medium text-foreground">{formatAmount(line.currentPrice)}</span>
+                      </div>
+                    )}
+                    <div className="flex flex-wrap gap-1">
+                      {line.issues.map(issue => (
+                        <Badge key={issue} className={`${issueStyles[issue]} text-white text-xs`}>
+                          {t(`components.reorder.issues.${issue}`)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </label>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <Button variant="outline" onClick={() => setShowDialog(false)} className="flex-1">
+              {t('components.reorder.cancel')}
+            </Button>
+            <Button
+              onClick={() => addLines(selectedLines)}
+              disabled={adding || selectedLines.length === 0}
+              className="flex-1"
+            >
+              {adding && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t('components.reorder.addToCart', { count: selectedLines.length })}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ReorderDialog;
@@ -0,0 +1,176 @@
+import React, { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Printer, FileDown, Loader2 } from 'lucide-react';
+import { CashSettlement } from '../services/api';
+import { logError } from '../services/logger';
+import { owedToStore } from '../utils/ledger';
+import { printReceipt, downloadReceiptPdf } from '../utils/receipt';
+import { formatPersianCurrency, formatPersianDateTime, toPersianNumbers } from '@/lib/utils';
+
+interface SettlementSlipProps {
+  settlement: CashSettlement | null;
+  onClose: () => void;
+}
+
+// Inline styles only, like receipts: the slip is printed from an iframe without app CSS
+const styles: Record<string, React.CSSProperties> = {
+  root: { fontSize: 12, lineHeight: 1.6, color: '#111111', background: '#ffffff', padding: 8 },
+  title: { fontSize: 16, fontWeight: 700, textAlign: 'center', margin: '0 0 8px' },
+  row: { display: 'flex', justifyContent: 'space-between', gap: 8 },
+  table: { width: '100%', borderCollapse: 'collapse', margin: '8px 0' },
+  th: { textAlign: 'start', borderBottom: '1px solid #999999', padding: '2px 4px', fontWeight: 600 },
+  td: { padding: '2px 4px', borderBottom: '1px dotted #cccccc' },
+  totals: { borderTop: '1px dashed #999999', paddingTop: 8 },
+  grandTotal: { fontSize: 14, fontWeight: 700 },
+  signatures: { display: 'flex', justifyContent: 'space-between', gap: 24, marginTop: 32 },
+  signature: { flex: 1, borderTop: '1px solid #999999', paddingTop: 4, textAlign: 'center' }
+};
+
+const SlipContent = React.forwardRef<HTMLDivElement, { settlement: CashSettlement }>(({ settlement }, ref) => {
+  const { t } = useTranslation();
+  const partyName = (party: CashSettlement['store']) => party.name || party.username;
+
+  return (
+    <div ref={ref} style={styles.root}>
+      <p style={styles.title}>{t('components.settlementSlip.title')}</p>
+
+      <div style={styles.row}>
+        <span>{t('components.settlementSlip.number')}</span>
+        <span>#{settlement._id.slice(-8)}</span>
+      </div>
+      <div style={styles.row}>
+        <span>{t('components.settlementSlip.date')}</span>
+        <span>{formatPersianDateTime(settlement.settledAt)}</span>
+      </div>
+      <div style={styles.row}>
+        <span>{t('components.settlementSlip.store')}</span>
+        <span>{partyName(settlement.store)}</span>
+      </div>
+      <div style={styles.row}>
+        <span>{t('components.settlementSlip.driver')}</span>
+        <span>{partyName(settlement.driver)}</span>
+      </div>
+
+      <table style={styles.table}>
+        <thead>
+          <tr>
+            <th style={styles.th}>{t('components.settlementSlip.order')}</th>
+            <th style={styles.th}>{t('components.settlementSlip.delivered')}</th>
+            <th style={{ ...styles.th, textAlign: 'end' }}>{t('components.settlementSlip.cash')}</th>
+            <th style={{ ...styles.th, textAlign: 'end' }}>{t('components.settlementSlip.fee')}</th>
+            <th style={{ ...styles.th, textAlign: 'end' }}>{t('components.settlementSlip.tip')}</th>
+            <th style={{ ...styles.th, textAlign: 'end' }}>{t('components.settlementSlip.owed')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {settlement.entries.map(entry => (
+            <tr key={entry.order}>
+              <td style={styles.td}>#{entry.order.slice(-6)}</td>
+              <td style={styles.td}>{formatPersianDateTime(entry.deliveredAt)}</td>
+              <td style={{ ...styles.td, textAlign: 'end' }}>{formatPersianCurrency(entry.cashCollected)}</td>
+              <td style={{ ...styles.td, textAlign: 'end' }}>{formatPersianCurrency(entry.deliveryFee)}</td>
+              <td style={{ ...styles.td, textAlign: 'end' }}>{formatPersianCurrency(entry.tip || 0)}</td>
+              <td style={{ ...styles.td, textAlign: 'end' }}>{formatPersianCurrency(owedToStore(entry))}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div style={styles.totals}>
+        <div style={styles.row}>
+          <span>{t('components.settlementSlip.orderCount')}</span>
+          <span>{toPersianNumbers(settlement.entries.length)}</span>
+        </div>
+        <div style={styles.row}>
+          <span>{t('components.settlementSlip.totalCash')}</span>
+          <span>{formatPersianCurrency(settlement.totalCash)}</span>
+        </div>
+        <div style={styles.row}>
+          <span>{t('components.settlementSlip.totalFees')}</span>
+          <span>{formatPersianCurrency(settlement.totalDeliveryFees)}</span>
+        </div>
+        {!!settlement.totalTips && (
+          <div style={styles.row}>
+            <span>{t('components.settlementSlip.totalTips')}</span>
+            <span>{formatPersianCurrency(settlement.totalTips)}</span>
+          </div>
+        )}
+        <div style={{ ...styles.row, ...styles.grandTotal }}>
+          <span>{t('components.settlementSlip.totalOwed')}</span>
+          <span>{formatPersianCurrency(settlement.totalOwed)}</span>
+        </div>
+      </div>
+
+      <div style={styles.signatures}>
+        <div style={styles.signature}>{t('components.settlementSlip.storeSignature')}</div>
+        <div style={styles.signature}>{t('components.settlementSlip.driverSignature')}</div>
+      </div>
+    </div>
+  );
+});
+
+SlipContent.displayName = 'SlipContent';
+
+/**
+ * Printable slip for a cash settlement between a store and a driver
+ */
+const SettlementSlip: React.FC<SettlementSlipProps> = ({ settlement, onClose }) => {
+  const { t, i18n } = useTranslation();
+  const [exporting, setExporting] = useState(false);
+  const slipRef = useRef<HTMLDivElement>(null);
+
+  const handlePrint = async () => {
+    if (!slipRef.current) return;
+    try {
+      await printReceipt(slipRef.current, 'a4', i18n.dir());
+    } catch (error: any) {
+      logError(error, 'SettlementSlip.print');
+      toast.error(t('components.settlementSlip.printFailed'));
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!slipRef.current || !settlement) return;
+    setExporting(true);
+    try {
+      await downloadReceiptPdf(slipRef.current, 'a4', `settlement-${settlement._id.slice(-8)}.pdf`, i18n.dir());
+    } catch (error: any) {
+      logError(error, 'SettlementSlip.download');
+      toast.error(t('components.settlementSlip.pdfFailed'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!settlement} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('components.settlementSlip.title')}</DialogTitle>
+        </DialogHeader>
+
+        {settlement && (
+          <div className="rounded-lg border bg-white p-4 overflow-x-auto" dir={i18n.dir()}>
+            <SlipContent ref={slipRef} settlement={settlement} />
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <Button onClick={handlePrint} className="flex-1">
+            <Printer className="w-4 h-4 mr-2" />
+            {t('components.settlementSlip.print')}
+          </Button>
+          <Button variant="outline" onClick={handleDownload} disabled={exporting} className="flex-1">
+            {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileDown className="w-4 h-4 mr-2" />}
+            {t('components.settlementSlip.downloadPdf')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettlementSlip;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlarmClock } from 'lucide-react';
+import { SlaAlert } from '../hooks/useSlaMonitor';
+import { toPersianNumbers } from '@/lib/utils';
+
+interface SlaAlertBannerProps {
+  alerts: SlaAlert[];
+}
+
+/**
+ * Strip above the order list naming every order close to or past its estimate
+ */
+const SlaAlertBanner: React.FC<SlaAlertBannerProps> = ({ alerts }) => {
+  const { t } = useTranslation();
+  if (alerts.length === 0) return null;
+
+  const breached = alerts.filter(alert => alert.level === 'breached').length;
+
+  return (
+    <div className={`mb-6 rounded-xl border p-3 ${breached > 0 ? 'border-red-500/40 bg-red-50 dark:bg-red-950/30' : 'border-amber-500/40 bg-amber-50 dark:bg-amber-950/30'}`}>
+      <div className="flex items-center gap-2 font-semibold text-sm mb-2">
+        <AlarmClock className={`w-4 h-4 ${breached > 0 ? 'text-red-600' : 'text-amber-600'}`} />
+        {t('components.sla.bannerTitle', { late: breached, atRisk: alerts.length - breached })}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {alerts.map(alert => (
+          <span
+            key={`${alert.orderId}:${alert.stage}`}
+            className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+              alert.level === 'breached' ? 'bg-red-600 text-white' : 'bg-amber-500 text-white'
+            }`}
+          >
+            #{alert.orderId.slice(-4)} · {t(`components.sla.stages.${alert.stage}`)} ·{' '}
+            {alert.level === 'breached'
+              ? t('components.sla.minutesLate', { minutes: toPersianNumbers(Math.abs(Math.round(alert.minutesLeft))) })
+              : t('components.sla.minutesLeft', { minutes: toPersianNumbers(Math.max(0, Math.round(alert.minutesLeft))) })}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SlaAlertBanner;
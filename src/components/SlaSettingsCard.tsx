@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { AlarmClock, BellRing, Loader2 } from 'lucide-react';
+import { slaAPI, SlaSettings } from '../services/api';
+import { DEFAULT_SLA_SETTINGS } from '../utils/sla';
+import { notificationsSupported, requestNotificationPermission } from '../utils/notifications';
+
+type ThresholdField = 'prepareWarnMinutes' | 'pickupWarnMinutes' | 'deliverWarnMinutes';
+
+/**
+ * Store-side editor for SLA warning thresholds, shown on the dashboard
+ */
+const SlaSettingsCard: React.FC = () => {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<SlaSettings>(DEFAULT_SLA_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [permission, setPermission] = useState(() => (notificationsSupported() ? Notification.permission : 'denied'));
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await slaAPI.getMine();
+        if (response.success && response.data) {
+          setSettings({ ...DEFAULT_SLA_SETTINGS, ...response.data });
+        }
+      } catch (error) {
+        // Not configured yet - keep the defaults
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSettings();
+  }, []);
+
+  const setThreshold = (field: ThresholdField, value: string) => {
+    setSettings(prev => ({ ...prev, [field]: Math.max(0, Math.round(Number(value) || 0)) }));
+  };
+
+  const handleEnableNotifications = async () => {
+    await requestNotificationPermission();
+    setPermission(Notification.permission);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const response = await slaAPI.update(settings);
+      if (response.success) {
+        toast.success(t('components.sla.saved'));
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('components.sla.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const thresholdFields: { field: ThresholdField; label: string }[] = [
+    { field: 'prepareWarnMinutes', label: t('components.sla.prepareWarn') },
+    { field: 'pickupWarnMinutes', label: t('components.sla.pickupWarn') },
+    { field: 'deliverWarnMinutes', label: t('components.sla.deliverWarn') }
+  ];
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <AlarmClock className="w-5 h-5 text-primary" />
+          {t('components.sla.settingsTitle')}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">{t('components.sla.settingsDescription')}</p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {thresholdFields.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`sla-${field}`} className="text-xs">{label}</Label>
+                  <Input
+                    id={`sla-${field}`}
+                    type="number"
+                    min={0}
+                    value={settings[field]}
+                    onChange={(e) => setThreshold(field, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">{t('components.sla.browserNotifications')}</Label>
+              <Switch
+                checked={settings.browserNotifications}
+                onCheckedChange={(checked) => setSettings(prev => ({ ...prev, browserNotifications: checked }))}
+              />
+            </div>
+            {settings.browserNotifications && permission !== 'granted' && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={permission === 'denied'}
+                onClick={handleEnableNotifications}
+              >
+                <BellRing className="w-4 h-4 mr-2" />
+                {permission === 'denied' ? t('components.sla.notificationsBlocked') : t('components.sla.allowNotifications')}
+              </Button>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">{t('components.sla.sound')}</Label>
+              <Switch
+                checked={settings.sound}
+                onCheckedChange={(checked) => setSettings(prev => ({ ...prev, sound: checked }))}
+              />
+            </div>
+
+            <Button className="w-full" disabled={saving} onClick={handleSave}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t('components.sla.save')}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SlaSettingsCard;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { TIP_PRESETS, MAX_TIP, normalizeTip } from '../utils/tips';
+import { formatPersianCurrency, toPersianNumbers } from '@/lib/utils';
+
+interface TipSelectorProps {
+  value: number;
+  onChange: (tip: number) => void;
+  // Hide the "no tip" choice when a tip is the whole point, e.g. the add-tip dialog
+  allowNone?: boolean;
+  // Separate deliveries the tip goes to, each driver gets the full amount
+  deliveries?: number;
+}
+
+/**
+ * Preset and custom driver tip amounts
+ */
+const TipSelector: React.FC<TipSelectorProps> = ({ value, onChange, allowNone = true, deliveries = 1 }) => {
+  const { t } = useTranslation();
+  const [custom, setCustom] = useState(() => value > 0 && !TIP_PRESETS.includes(value));
+
+  const choose = (tip: number) => {
+    setCustom(false);
+    onChange(tip);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {allowNone && (
+          <Button
+            type="button"
+            size="sm"
+            variant={!custom && value === 0 ? 'default' : 'outline'}
+            onClick={() => choose(0)}
+          >
+            {t('components.tip.none')}
+          </Button>
+        )}
+        {TIP_PRESETS.map(preset => (
+          <Button
+            key={preset}
+            type="button"
+            size="sm"
+            variant={!custom && value === preset ? 'default' : 'outline'}
+            onClick={() => choose(preset)}
+          >
+            {formatPersianCurrency(preset)}
+          </Button>
+        ))}
+        <Button
+          type="button"
+          size="sm"
+          variant={custom ? 'default' : 'outline'}
+          onClick={() => setCustom(true)}
+        >
+          {t('components.tip.custom')}
+        </Button>
+      </div>
+      {custom && (
+        <Input
+          type="number"
+          min={0}
+          max={MAX_TIP}
+          step={1000}
+          value={value || ''}
+          placeholder={t('components.tip.customPlaceholder')}
+          onChange={(e) => onChange(normalizeTip(Number(e.target.value)))}
+        />
+      )}
+      {deliveries > 1 && value > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {t('components.tip.perDeliveryTotal', {
+            tip: formatPersianCurrency(value),
+            count: deliveries,
+            deliveries: toPersianNumbers(deliveries),
+            total: formatPersianCurrency(value * deliveries)
+          })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TipSelector;
@@ -1,4 +1,4 @@
-import { Home, Package, FileText, Palette, User as UserIcon, Image as ImageIcon, Menu, BookOpen, Grid2X2, TestTube } from 'lucide-react';
+import { Home, Package, FileText, Palette, User as UserIcon, Image as ImageIcon, Menu, BookOpen, Grid2X2, TestTube, ChefHat, Wallet } from 'lucide-react';
 
 interface MenuItem {
   path: string;
@@ -36,6 +36,18 @@ export const menuItems: MenuItem[] = [
     icon: Menu,
     roles: ['store', 'staff'],
   },
+  {
+    path: '/kitchen',
+    label: 'common.kitchen',
+    icon: ChefHat,
+    roles: ['store', 'staff'],
+  },
+  {
+    path: '/ledger',
+    label: 'common.ledger',
+    icon: Wallet,
+    roles: ['store', 'driver'],
+  },
   {
     path: '/catalogs',
     label: 'common.catalogs',
@@ -253,14 +253,14 @@ export const useFileUpload = <TData, TVariables>(
 /**
  * Generic API hook for bulk operations
  * @param mutationFn - Bulk operation function
- * @param successMessage - Success message
+ * @param successMessage - Success message, or a function building it from the result; { warning } for a partial success
  * @param errorMessage - Error message
  * @param invalidateQueries - Queries to invalidate on success
  * @returns useMutation result
  */
 export const useBulkOperation = <TData, TVariables>(
   mutationFn: (variables: TVariables) => Promise<ApiResponse<TData>>,
-  successMessage: string = 'Bulk operation completed',
+  successMessage: string | ((data: TData | undefined) => string | { warning: string }) = 'Bulk operation completed',
   errorMessage: string = 'Bulk operation failed',
   invalidateQueries: string[] = []
 ) => {
@@ -279,8 +279,13 @@ export const useBulkOperation = <TData, TVariables>(
         throw new Error(error.message || 'Bulk operation failed');
       }
     },
-    onSuccess: () => {
-      toast.success(successMessage);
+    onSuccess: (data) => {
+      const message = typeof successMessage === 'function' ? successMessage(data) : successMessage;
+      if (typeof message === 'string') {
+        toast.success(message);
+      } else {
+        toast.warning(message.warning);
+      }
       
       // Invalidate queries
       if (invalidateQueries.length > 0) {
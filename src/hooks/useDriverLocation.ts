@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  DriverLocation,
+  publishDriverLocation,
+  subscribeToConnection,
+  subscribeToDriverLocation,
+  watchOrders
+} from '../services/realtime';
+import { orderAPI } from '../services/api';
+import { useGeolocation } from './useGeolocation';
+import { haversineKm } from '../utils/geo';
+
+// Publish at most this often, unless the driver moved further than PUBLISH_MIN_DISTANCE_KM
+const PUBLISH_INTERVAL = 10000;
+const PUBLISH_MIN_DISTANCE_KM = 0.05;
+
+// Driver order statuses that still have a leg ahead
+const ACTIVE_DELIVERY_STATUSES = ['accepted', 'prepared', 'pickedup'];
+
+/**
+ * Custom hook for following a driver's live position on one order
+ * @param orderId - Order being delivered
+ * @param enabled - Only subscribe while the order is out for delivery
+ * @param trackingToken - Signed tracking token, lets guests without a session watch the order
+ * @returns {Object} Latest driver location and socket connection state
+ */
+export const useDriverLocation = (orderId: string, enabled: boolean, trackingToken?: string) => {
+  const [location, setLocation] = useState<DriverLocation | null>(null);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const unsubscribeLocation = subscribeToDriverLocation((update) => {
+      if (update.orderId === orderId) {
+        setLocation(update);
+      }
+    });
+    const unsubscribeConnection = subscribeToConnection(setConnected);
+
+    return () => {
+      unsubscribeLocation();
+      unsubscribeConnection();
+    };
+  }, [orderId, enabled]);
+
+  useEffect(() => {
+    if (enabled && connected) {
+      watchOrders([orderId], trackingToken);
+    }
+  }, [orderId, enabled, connected, trackingToken]);
+
+  return { location, connected };
+};
+
+/**
+ * Custom hook that publishes the signed-in driver's position for their active orders
+ * Mounted app-wide so sharing goes on whichever page the driver is on.
+ * Nothing is sent unless the driver opted in with shareLocation
+ * @param user - Current user
+ * @returns {Object} Whether the position is being shared
+ */
+export const useDriverLocationPublisher = (user: any) => {
+  const optedIn = user?.role === 'driver' && !!user?.shareLocation;
+  const [activeOrderIds, setActiveOrderIds] = useState<string[]>([]);
+  const enabled = optedIn && activeOrderIds.length > 0;
+  const { position, speed, heading, isLive } = useGeolocation(enabled);
+  const [connected, setConnected] = useState(false);
+  const lastSentRef = useRef<{ at: number; lat: number; lng: number } | null>(null);
+
+  // Follow the driver's orders, refreshed on every order status change
+  useEffect(() => {
+    if (!optedIn) {
+      setActiveOrderIds([]);
+      return;
+    }
+
+    const loadActiveOrders = async () => {
+      try {
+        const response = await orderAPI.getDriverOrders();
+        if (response.success) {
+          setActiveOrderIds((response.data || [])
+            .filter(order => ACTIVE_DELIVERY_STATUSES.includes(order.status))
+            .map(order => order._id));
+        }
+      } catch (error) {
+        console.error('Failed to load active deliveries:', error);
+      }
+    };
+
+    loadActiveOrders();
+    window.addEventListener('orderUpdate', loadActiveOrders);
+    return () => window.removeEventListener('orderUpdate', loadActiveOrders);
+  }, [optedIn, user?._id]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeToConnection(setConnected);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!enabled || !connected || !position || !isLive) return;
+
+    const last = lastSentRef.current;
+    const now = Date.now();
+    const moved = last ? haversineKm(last, position) : Number.POSITIVE_INFINITY;
+    if (last && now - last.at < PUBLISH_INTERVAL && moved < PUBLISH_MIN_DISTANCE_KM) return;
+
+    const sent = publishDriverLocation({
+      driverId: user?._id,
+      lat: position.lat,
+      lng: position.lng,
+      speed,
+      heading,
+      orderIds: activeOrderIds
+    });
+    if (sent) {
+      lastSentRef.current = { at: now, lat: position.lat, lng: position.lng };
+    }
+  }, [enabled, connected, position?.lat, position?.lng, activeOrderIds.join(',')]);
+
+  return { sharing: enabled && connected && isLive };
+};
+
+export default useDriverLocation;
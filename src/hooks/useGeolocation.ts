@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { GeoPoint } from '../utils/geo';
+
+/**
+ * Custom hook that follows the device position
+ * @param enabled - Whether to watch the position
+ * @param fallback - Position to use until (or unless) the device reports one
+ * @returns {Object} Current position, speed/heading when reported, whether it came from the device, and the last error
+ */
+export const useGeolocation = (enabled: boolean = true, fallback: GeoPoint | null = null) => {
+  const [position, setPosition] = useState<GeoPoint | null>(null);
+  const [motion, setMotion] = useState<{ speed: number | null; heading: number | null }>({ speed: null, heading: null });
+  const [error, setError] = useState<GeolocationPositionError | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !navigator.geolocation) return;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => {
+        setPosition({ lat: pos.coords.latitude, lng: pos.coords.longitude });
+        setMotion({ speed: pos.coords.speed, heading: pos.coords.heading });
+        setError(null);
+      },
+      (err) => setError(err),
+      { enableHighAccuracy: true, maximumAge: 10000, timeout: 20000 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [enabled]);
+
+  return {
+    position: position || fallback,
+    speed: motion.speed,
+    heading: motion.heading,
+    isLive: !!position,
+    error
+  };
+};
+
+export default useGeolocation;
@@ -0,0 +1,64 @@
+import { useEffect, useRef, useState } from 'react';
+import { subscribeToConnection, subscribeToOrder, subscribeToOrderEvents, watchOrders, OrderEvent, OrderProgress } from '../services/realtime';
+
+/**
+ * Custom hook for live order events over the realtime socket
+ * @param onEvent - Called for every order event (status change or progress tick)
+ * @param orderIds - Orders to receive progress ticks for
+ * @returns {Object} Whether the socket is currently connected
+ */
+export const useOrderRealtime = (onEvent: (event: OrderEvent) => void, orderIds: string[] = []) => {
+  const [connected, setConnected] = useState(false);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    const unsubscribeEvents = subscribeToOrderEvents((event) => onEventRef.current(event));
+    const unsubscribeConnection = subscribeToConnection(setConnected);
+
+    return () => {
+      unsubscribeEvents();
+      unsubscribeConnection();
+    };
+  }, []);
+
+  // Re-watch after every (re)connect so the server knows which orders to stream
+  const watchKey = orderIds.join(',');
+  useEffect(() => {
+    if (connected) {
+      watchOrders(orderIds);
+    }
+  }, [connected, watchKey]);
+
+  return { connected };
+};
+
+/**
+ * Custom hook applying live events for one order on top of the order as last loaded
+ * Status changes and progress ticks show right away; the overlay resets when a fresh order comes in.
+ * Progress ticks only arrive for orders the page already watches.
+ * @param order - Order as loaded
+ * @returns The order with its live status and progress
+ */
+export const useLiveOrder = <T extends { _id: string }>(order: T): T => {
+  const [live, setLive] = useState<Partial<OrderProgress> & { status?: string }>({});
+
+  useEffect(() => {
+    setLive({});
+  }, [order]);
+
+  useEffect(() => subscribeToOrder(order._id, (event) => {
+    if (event.type === 'progress') {
+      if (event.progress) {
+        const { _id, ...progress } = event.progress;
+        setLive(prev => ({ ...prev, ...progress }));
+      }
+    } else {
+      setLive(prev => ({ ...prev, status: event.order?.status || event.type }));
+    }
+  }), [order._id]);
+
+  return Object.keys(live).length > 0 ? { ...order, ...live } : order;
+};
+
+export default useOrderRealtime;
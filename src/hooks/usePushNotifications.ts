@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { pushSupported, registerServiceWorker } from '../utils/notifications';
+
+/**
+ * Custom hook keeping the service worker registered for signed-in users
+ * and routing notification clicks from it to the linked order or conversation.
+ * @param enabled - Only signed-in users receive push notifications
+ */
+export const usePushNotifications = (enabled: boolean) => {
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!enabled || !pushSupported()) return;
+    registerServiceWorker();
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'notification-click' && typeof event.data.url === 'string') {
+        navigate(event.data.url);
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [enabled]);
+};
+
+export default usePushNotifications;
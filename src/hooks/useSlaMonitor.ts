@@ -0,0 +1,124 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { slaAPI, SlaSettings } from '../services/api';
+import { DEFAULT_SLA_SETTINGS, SlaLevel, SlaStatus, getSlaStatus } from '../utils/sla';
+import { playChime, unlockAudio } from '../utils/sound';
+import { showBrowserNotification } from '../utils/notifications';
+import { toPersianNumbers } from '@/lib/utils';
+
+export interface SlaAlert extends SlaStatus {
+  orderId: string;
+}
+
+const TICK_INTERVAL = 15000;
+
+const LEVEL_RANK: Record<SlaLevel, number> = { ok: 0, warning: 1, breached: 2 };
+
+/**
+ * Custom hook watching active orders against their estimates
+ * Each order/stage alerts once when it comes close to its estimate and once
+ * more when it breaches it: toast, browser notification and chime.
+ * Nothing is announced before the store's settings load, and orders that are
+ * already late when the page opens are listed without alerting again.
+ * @param orders - Orders on screen
+ * @param progressData - Live progress by order id, if the page tracks it
+ * @param options.enabled - Only stores and staff monitor orders
+ * @param options.muted - Page-level mute, on top of the store's sound setting
+ * @returns {Object} Orders that are close to or past their estimate, most urgent first
+ */
+export const useSlaMonitor = (
+  orders: any[],
+  progressData: Record<string, any> = {},
+  { enabled = true, muted = false }: { enabled?: boolean; muted?: boolean } = {}
+) => {
+  const { t } = useTranslation();
+  const [settings, setSettings] = useState<SlaSettings>(DEFAULT_SLA_SETTINGS);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+  // Highest level already announced per "orderId:stage"
+  const announcedRef = useRef<Map<string, SlaLevel>>(new Map());
+  // Set once the orders on screen at mount have been recorded as announced
+  const seededRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    slaAPI.getMine()
+      .then(response => {
+        if (response.success && response.data) {
+          setSettings({ ...DEFAULT_SLA_SETTINGS, ...response.data });
+        }
+      })
+      .catch(() => {
+        // Not configured yet - keep the defaults
+      })
+      .finally(() => setSettingsLoaded(true));
+
+    const tick = setInterval(() => setNow(new Date()), TICK_INTERVAL);
+    // Audio may only start after a user gesture
+    const unlock = () => unlockAudio();
+    document.addEventListener('pointerdown', unlock, { once: true });
+    return () => {
+      clearInterval(tick);
+      document.removeEventListener('pointerdown', unlock);
+    };
+  }, [enabled]);
+
+  const alerts = useMemo<SlaAlert[]>(() => {
+    if (!enabled) return [];
+    return orders
+      .map(order => {
+        const status = getSlaStatus(order, settings, now, progressData[order._id]);
+        return status && status.level !== 'ok' ? { orderId: order._id, ...status } : null;
+      })
+      .filter((alert): alert is SlaAlert => alert !== null)
+      .sort((a, b) => a.minutesLeft - b.minutesLeft);
+  }, [orders, progressData, settings, now, enabled]);
+
+  useEffect(() => {
+    if (!settingsLoaded) return;
+
+    if (!seededRef.current) {
+      // Wait for the page's first order list, then take what is already late as known
+      if (orders.length === 0) return;
+      seededRef.current = true;
+      alerts.forEach(alert => announcedRef.current.set(`${alert.orderId}:${alert.stage}`, alert.level));
+      return;
+    }
+
+    const fresh = alerts.filter(alert => {
+      const key = `${alert.orderId}:${alert.stage}`;
+      const announced = announcedRef.current.get(key) || 'ok';
+      if (LEVEL_RANK[alert.level] <= LEVEL_RANK[announced]) return false;
+      announcedRef.current.set(key, alert.level);
+      return true;
+    });
+    if (fresh.length === 0) return;
+
+    fresh.forEach(alert => {
+      const params = {
+        order: `#${alert.orderId.slice(-4)}`,
+        stage: t(`components.sla.stages.${alert.stage}`),
+        minutes: toPersianNumbers(Math.abs(Math.round(alert.minutesLeft)))
+      };
+      const message = alert.level === 'breached'
+        ? t('components.sla.breachedMessage', params)
+        : t('components.sla.warningMessage', params);
+
+      if (alert.level === 'breached') toast.error(message);
+      else toast.warn(message);
+
+      if (settings.browserNotifications) {
+        showBrowserNotification(t('components.sla.notificationTitle'), message, `sla-${alert.orderId}`);
+      }
+    });
+
+    if (settings.sound && !muted) {
+      playChime();
+    }
+  }, [alerts, settingsLoaded]);
+
+  return { alerts, settings };
+};
+
+export default useSlaMonitor;
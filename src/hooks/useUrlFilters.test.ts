@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { FilterSchema, readFilters, serializeFilters } from './useUrlFilters';
+
+type ProductFilters = {
+  q: string;
+  category: string;
+  sort: string;
+  tags: string[];
+};
+
+const SCHEMA: FilterSchema<ProductFilters> = {
+  q: 'string',
+  category: 'string',
+  sort: 'string',
+  tags: 'array'
+};
+
+const DEFAULTS: ProductFilters = {
+  q: '',
+  category: '',
+  sort: 'name',
+  tags: []
+};
+
+describe('readFilters', () => {
+  it('uses the defaults when the URL has no filter keys', () => {
+    expect(readFilters(new URLSearchParams(''), SCHEMA, DEFAULTS)).toEqual(DEFAULTS);
+  });
+
+  it('keeps defaults for keys a partial query string leaves out, e.g. on reload of ?sort=name', () => {
+    const filters = readFilters(new URLSearchParams('sort=name'), SCHEMA, DEFAULTS);
+    expect(filters).toEqual(DEFAULTS);
+    expect(filters.tags).toEqual([]);
+    expect(filters.category.toLowerCase()).toBe('');
+  });
+
+  it('overrides only the keys present in the URL', () => {
+    expect(readFilters(new URLSearchParams('category=Drinks&tags=hot,,new&page=2'), SCHEMA, DEFAULTS)).toEqual({
+      q: '',
+      category: 'Drinks',
+      sort: 'name',
+      tags: ['hot', 'new']
+    });
+  });
+
+  it('does not share the defaults object', () => {
+    const filters = readFilters(new URLSearchParams('q=tea'), SCHEMA, DEFAULTS);
+    expect(filters).not.toBe(DEFAULTS);
+    expect(DEFAULTS.q).toBe('');
+  });
+});
+
+describe('serializeFilters', () => {
+  const TAGGED: ProductFilters = { ...DEFAULTS, tags: ['new'] };
+
+  it('leaves out empty filters whose default is empty too', () => {
+    expect(serializeFilters({ ...DEFAULTS, q: 'tea' }, SCHEMA, DEFAULTS)).toEqual([['q', 'tea'], ['sort', 'name']]);
+  });
+
+  it('writes a cleared default as an empty value so a reload keeps it cleared', () => {
+    const params = new URLSearchParams(serializeFilters({ ...TAGGED, tags: [] }, SCHEMA, TAGGED));
+    expect(params.toString()).toBe('sort=name&tags=');
+    expect(readFilters(params, SCHEMA, TAGGED).tags).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+export type FilterValue = string | string[] | undefined;
+export type FilterValues = { [key: string]: FilterValue };
+
+// How each filter is stored in the query string; arrays are comma separated
+export type FilterSchema<T> = { [K in keyof T]-?: 'string' | 'array' };
+
+const isEmpty = (value: FilterValue) => (Array.isArray(value) ? value.length === 0 : !value);
+
+/**
+ * Read filters from the query string on top of the defaults
+ * A key the URL lacks falls back to its default; a key present but empty (e.g. status=) means no filter.
+ * @param params - Current query string
+ * @param schema - Filter keys and how each is encoded
+ * @param defaults - Values for keys missing from the query string
+ * @returns {T} Complete filter object
+ */
+export const readFilters = <T extends { [K in keyof T]: FilterValue }>(params: URLSearchParams, schema: FilterSchema<T>, defaults: T): T => {
+  const parsed: FilterValues = {};
+  Object.keys(schema).forEach(key => {
+    const raw = params.get(key);
+    if (raw === null) return;
+    parsed[key] = schema[key as keyof T] === 'array' ? raw.split(',').filter(Boolean) : raw;
+  });
+  return { ...defaults, ...parsed };
+};
+
+// Empty filters are left out unless that would bring back a non-empty default on reload
+export const serializeFilters = <T extends { [K in keyof T]: FilterValue }>(filters: T, schema: FilterSchema<T>, defaults: T): [string, string][] =>
+  (Object.keys(schema) as (keyof T & string)[])
+    .filter(key => !isEmpty(filters[key]) || !isEmpty(defaults[key]))
+    .map(key => {
+      const value: FilterValue = filters[key];
+      return [key, Array.isArray(value) ? value.join(',') : value ?? ''];
+    });
+
+/**
+ * Custom hook keeping a filter object in the query string
+ * Filters survive reload, can be shared as a link, and follow back/forward navigation.
+ * Query params outside the schema are left alone, except one-shot link params listed in consumeParams.
+ * @param schema - Filter keys and how each is encoded
+ * @param defaults - Filters used for keys the URL leaves out
+ * @param options.initial - Overrides for the first state only, e.g. from a deep link
+ * @param options.consumeParams - Params dropped from the URL once read
+ * @returns {Object} Current filters and setters
+ */
+export const useUrlFilters = <T extends { [K in keyof T]: FilterValue }>(
+  schema: FilterSchema<T>,
+  defaults: T,
+  { initial, consumeParams = [] }: { initial?: Partial<T>; consumeParams?: string[] } = {}
+) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [filters, setFilters] = useState<T>(() => ({ ...readFilters(searchParams, schema, defaults), ...initial }));
+  // Query string we wrote last, so our own updates aren't read back as navigation
+  const writtenRef = useRef<string | null>(null);
+
+  // State -> URL; replace so typing in a search box doesn't flood the history
+  useEffect(() => {
+    const next = new URLSearchParams(searchParams);
+    [...Object.keys(schema), ...consumeParams].forEach(key => next.delete(key));
+    serializeFilters(filters, schema, defaults).forEach(([key, value]) => next.set(key, value));
+    writtenRef.current = next.toString();
+    if (next.toString() !== searchParams.toString()) {
+      setSearchParams(next, { replace: true });
+    }
+  }, [filters]);
+
+  // URL -> state, for back/forward and links opened within the app
+  useEffect(() => {
+    if (writtenRef.current === null || searchParams.toString() === writtenRef.current) return;
+    const parsed = readFilters(searchParams, schema, defaults);
+    const same = JSON.stringify(serializeFilters(parsed, schema, defaults)) === JSON.stringify(serializeFilters(filters, schema, defaults));
+    if (!same) {
+      setFilters(parsed);
+    }
+  }, [searchParams.toString()]);
+
+  const setFilter = useCallback(<K extends keyof T>(key: K, value: T[K] | ((prev: T[K]) => T[K])) => {
+    setFilters(prev => ({
+      ...prev,
+      [key]: typeof value === 'function' ? (value as (prev: T[K]) => T[K])(prev[key]) : value
+    }));
+  }, []);
+
+  return { filters, setFilters, setFilter };
+};
+
+export default useUrlFilters;
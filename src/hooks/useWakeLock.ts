@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Custom hook that keeps the screen awake while enabled
+ * The lock is dropped by the browser whenever the tab is hidden, so it is
+ * re-requested each time the page becomes visible again
+ * @param enabled - Whether the screen should stay on
+ * @returns {Object} Whether a wake lock is currently held and if the API exists
+ */
+export const useWakeLock = (enabled: boolean) => {
+  const [active, setActive] = useState(false);
+  const sentinelRef = useRef<WakeLockSentinel | null>(null);
+  const supported = typeof navigator !== 'undefined' && 'wakeLock' in navigator;
+
+  useEffect(() => {
+    if (!enabled || !supported) return;
+
+    let cancelled = false;
+
+    const request = async () => {
+      if (document.visibilityState !== 'visible' || sentinelRef.current) return;
+      try {
+        const sentinel = await navigator.wakeLock.request('screen');
+        if (cancelled) {
+          sentinel.release();
+          return;
+        }
+        sentinelRef.current = sentinel;
+        setActive(true);
+        sentinel.addEventListener('release', () => {
+          sentinelRef.current = null;
+          setActive(false);
+        });
+      } catch (error) {
+        // Denied (battery saver, no user gesture); retried on next visibility change
+        setActive(false);
+      }
+    };
+
+    request();
+    document.addEventListener('visibilitychange', request);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', request);
+      sentinelRef.current?.release();
+      sentinelRef.current = null;
+    };
+  }, [enabled, supported]);
+
+  return { active, supported };
+};
+
+export default useWakeLock;
@@ -18,6 +18,10 @@ import { formatPersianDate, toPersianNumbers } from '@/lib/utils';
 import MapComponent from '../components/MapComponent';
 import SimpleImageCropper from '../components/SimpleImageCropper';
 import SocialStats from '../components/SocialStats';
+import DeliveryPricingSettings from '../components/DeliveryPricingSettings';
+import DeliveryZoneEditor from '../components/DeliveryZoneEditor';
+import AutoDispatchSettings from '../components/AutoDispatchSettings';
+import NotificationSettings from '../components/NotificationSettings';
 import '@/index.css'
 interface AccountProps {
   user: any;
@@ -731,6 +735,22 @@ const Account: React.FC<AccountProps> = ({ user, onUserUpdate }) => {
         {/* Social Statistics */}
         <SocialStats userId={user._id} />
 
+        {/* Push notifications */}
+        <NotificationSettings role={user.role} />
+
+        {/* Delivery Pricing - Only for stores */}
+        {user.role === 'store' && <DeliveryPricingSettings />}
+        {user.role === 'store' && (
+          <DeliveryZoneEditor
+            center={accountData.locationLat && accountData.locationLng
+              ? { lat: accountData.locationLat, lng: accountData.locationLng }
+              : null}
+          />
+        )}
+
+        {/* Auto-dispatch rules - Only for stores */}
+        {user.role === 'store' && <AutoDispatchSettings />}
+
         {/* Invitation Management - Only for stores */}
         {user.role === 'store' && (
           <Card className="shadow-lg border-0" style={{ background: 'linear-gradient(135deg, oklch(var(--card)), oklch(var(--card) / 0.5))' }}>
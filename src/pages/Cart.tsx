@@ -1,9 +1,11 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'react-toastify';
-import { cartAPI, orderAPI, isAuthenticated } from '../services/api';
+import { cartAPI, orderAPI, deliveryPricingAPI, deliveryZoneAPI, isAuthenticated, DeliveryPricing, DeliveryZone, PaymentMethod } from '../services/api';
 import { logUserAction } from '../services/logger';
+import { PaymentService, isOnlinePaymentAvailable } from '../services/paymentService';
+import { OrderService } from '../services/orderService';
 import MapComponent from '../components/MapComponent';
 import InteractiveMapComponent from '../components/InteractiveMapComponent';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -12,7 +14,17 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { MapPin, Navigation, Maximize2, Store, User, Mail, Phone } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MapPin, Navigation, Maximize2, Store, User, Mail, Phone, Clock, CalendarClock, CreditCard, Banknote, Copy, PackageSearch, HeartHandshake, Layers } from 'lucide-react';
+import PersianDatePicker from '../components/PersianDatePicker';
+import { combineDateAndSlot, getTimeSlots, toDateKey } from '../utils/schedule';
+import { DEFAULT_DELIVERY_PRICING, DeliveryFeeBreakdown, calculateDeliveryFee, findDeliveryZone } from '../utils/deliveryFee';
+import { toGeoPoint } from '../utils/geo';
+import { getTrackingUrl } from '../utils/receipt';
+import { GuestTrackingLink, loadGuestTrackingLinks, saveGuestTrackingLinks } from '../utils/guestTracking';
+import TipSelector from '../components/TipSelector';
+import CheckoutAllDialog, { CheckoutAllLine, CheckoutAllOutcome } from '../components/CheckoutAllDialog';
+import { formatPersianDateTime, toPersianNumbers } from '@/lib/utils';
 import { Cart } from '../services/api';
 import { useCart, StoreCart } from '@/hooks/useCart'
 
@@ -20,6 +32,9 @@ interface CartProps {
   user?: any;
 }
 
+// placingOrder marker while the checkout-all group is being sent
+const ALL_STORES = 'all';
+
 const MyCart: React.FC<CartProps> = ({ user }) => {
   const { t } = useTranslation();
   const { storeCarts, setStoreCarts, loading, handleAddToCart, loadCart } = useCart();
@@ -31,6 +46,20 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
   const [showMapDialog, setShowMapDialog] = useState(false);
   const [placingOrder, setPlacingOrder] = useState<string | null>(null); // Track which catalog order is being placed
   const [showGuestForm, setShowGuestForm] = useState(false);
+  const [deliverAt, setDeliverAt] = useState<'now' | 'scheduled'>('now');
+  const [scheduledDate, setScheduledDate] = useState(toDateKey(new Date()));
+  const [now, setNow] = useState(() => new Date());
+  const [scheduledSlot, setScheduledSlot] = useState('');
+  const [pricingByStore, setPricingByStore] = useState<Record<string, DeliveryPricing>>({});
+  const [zonesByStore, setZonesByStore] = useState<Record<string, DeliveryZone[]>>({});
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  // Driver tip per delivery: every store order has its own driver and carries the full amount
+  const [tip, setTip] = useState(0);
+  // Tracking links for guest orders placed in this session, kept across the payment redirect
+  const [guestTrackingLinks, setGuestTrackingLinks] = useState<GuestTrackingLink[]>(loadGuestTrackingLinks);
+  // Checkout-all review dialog, and its per-store result once placed
+  const [showCheckoutAll, setShowCheckoutAll] = useState(false);
+  const [checkoutOutcome, setCheckoutOutcome] = useState<CheckoutAllOutcome[] | null>(null);
   const [guestInfo, setGuestInfo] = useState({
     name: '',
     phone: '',
@@ -38,6 +67,36 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
   });
   const navigate = useNavigate();
 
+  useEffect(() => {
+    saveGuestTrackingLinks(guestTrackingLinks);
+  }, [guestTrackingLinks]);
+
+  // Fetch delivery pricing and zones once per store in the cart
+  useEffect(() => {
+    if (!isTakeout) return;
+
+    const missing = storeCarts.map(sc => sc.storeId).filter(id => !pricingByStore[id]);
+    if (missing.length === 0) return;
+
+    Promise.all(missing.map(async (storeId) => {
+      const [pricing, zones] = await Promise.allSettled([
+        deliveryPricingAPI.getForStore(storeId),
+        deliveryZoneAPI.getForStore(storeId)
+      ]);
+      return {
+        storeId,
+        pricing: pricing.status === 'fulfilled' && pricing.value.success && pricing.value.data
+          ? { ...DEFAULT_DELIVERY_PRICING, ...pricing.value.data }
+          : DEFAULT_DELIVERY_PRICING,
+        // No zones means the store delivers anywhere
+        zones: zones.status === 'fulfilled' && Array.isArray(zones.value.data) ? zones.value.data : []
+      };
+    })).then(results => {
+      setPricingByStore(prev => ({ ...prev, ...Object.fromEntries(results.map(r => [r.storeId, r.pricing])) }));
+      setZonesByStore(prev => ({ ...prev, ...Object.fromEntries(results.map(r => [r.storeId, r.zones])) }));
+    });
+  }, [isTakeout, storeCarts.map(sc => sc.storeId).join(',')]);
+
   const updateQuantity = async (productId: string, quantity: number, catalogId: string) => {
     try {
       if (quantity <= 0) {
@@ -96,7 +155,13 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
     setLatitude(lat);
     setLongitude(lng);
     setShowMapDialog(false);
-    toast.success('Delivery location selected');
+
+    const unserved = storeCarts.filter(sc => getZoneCheck(sc, { lat, lng }).outsideZones);
+    if (unserved.length > 0) {
+      toast.warning(t('components.deliveryZone.outsideWarning', { stores: unserved.map(sc => sc.storeName).join('، ') }));
+    } else {
+      toast.success(t('components.deliveryZone.locationSelected'));
+    }
   };
 
   // Calculate subtotal for a specific catalog cart
@@ -106,32 +171,144 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
     }, 0);
   };
 
+  // Which of the store's zones the delivery point falls in
+  const getZoneCheck = (storeCart: StoreCart, point = toGeoPoint(latitude, longitude)) => {
+    const zones = zonesByStore[storeCart.storeId] || [];
+    const zone = findDeliveryZone(zones, point);
+    return {
+      zone,
+      outsideZones: zones.length > 0 && !zone,
+      belowMinimum: !!zone && calculateSubtotal(storeCart) < zone.minimumOrder
+    };
+  };
+
+  // Delivery fee breakdown for a store cart, null for dine-in
+  const getDeliveryQuote = (storeCart: StoreCart): DeliveryFeeBreakdown | null => {
+    if (!isTakeout) return null;
+    const store = storeCart.items[0]?.store;
+    const scheduledFor = getScheduledFor();
+    return calculateDeliveryFee(
+      pricingByStore[storeCart.storeId] || DEFAULT_DELIVERY_PRICING,
+      toGeoPoint(store?.locationLat, store?.locationLng),
+      toGeoPoint(latitude, longitude),
+      calculateSubtotal(storeCart),
+      // Surge windows apply at delivery time, which is later for scheduled orders
+      scheduledFor ? new Date(scheduledFor) : new Date(),
+      getZoneCheck(storeCart).zone
+    );
+  };
+
   // Calculate driver fee (only for takeout)
-  const calculateDriverFee = () => {
-    return isTakeout ? 50000 : 0; // Fixed driver fee for takeout orders in IRT
+  const calculateDriverFee = (storeCart: StoreCart) => {
+    return getDeliveryQuote(storeCart)?.total || 0;
   };
 
   const calculateStoreTotal = (storeCart: StoreCart) => {
-    return calculateSubtotal(storeCart) + calculateDriverFee();
+    return calculateSubtotal(storeCart) + calculateDriverFee(storeCart);
+  };
+
+  // Tips only go to drivers, so in-store orders never carry one
+  const calculateTip = () => (isTakeout ? tip : 0);
+
+  // Zones decide whether the store delivers at all, so checkout waits for them
+  const zonesLoaded = (storeCart: StoreCart) => storeCart.storeId in zonesByStore;
+
+  const canDeliver = (storeCart: StoreCart) => {
+    if (!isTakeout) return true;
+    const { outsideZones, belowMinimum } = getZoneCheck(storeCart);
+    return zonesLoaded(storeCart) && !getDeliveryQuote(storeCart)?.outOfRange && !outsideZones && !belowMinimum;
+  };
+
+  // Why the store can't deliver this cart, undefined when it can
+  const getDeliveryProblem = (storeCart: StoreCart): string | undefined => {
+    if (!isTakeout) return undefined;
+    if (!zonesLoaded(storeCart)) return t('components.deliveryZone.loadingZones');
+    const { zone, outsideZones, belowMinimum } = getZoneCheck(storeCart);
+    if (outsideZones) return t('components.deliveryZone.outsideZones');
+    if (belowMinimum && zone) return t('components.deliveryZone.belowMinimum', { amount: zone.minimumOrder.toFixed(0) });
+    if (getDeliveryQuote(storeCart)?.outOfRange) return t('components.deliveryFee.outOfRange');
+    return undefined;
+  };
+
+  const validateDelivery = (storeCart: StoreCart) => {
+    const problem = getDeliveryProblem(storeCart);
+    if (problem) {
+      toast.error(problem);
+      return false;
+    }
+    return true;
+  };
+
+  // Drop slots as they slip inside the lead time while the cart stays open
+  useEffect(() => {
+    if (deliverAt !== 'scheduled') return;
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, [deliverAt]);
+
+  const timeSlots = useMemo(() => getTimeSlots(scheduledDate, now), [scheduledDate, now]);
+
+  const handleScheduledDateChange = (date: string) => {
+    setScheduledDate(date);
+    setScheduledSlot('');
+  };
+
+  // ISO time for scheduled orders, undefined for "now"
+  const getScheduledFor = () => {
+    if (deliverAt !== 'scheduled' || !scheduledSlot) return undefined;
+    return combineDateAndSlot(scheduledDate, scheduledSlot).toISOString();
+  };
+
+  const validateSchedule = () => {
+    if (deliverAt !== 'scheduled') return true;
+    if (!scheduledSlot) {
+      toast.error(t('components.scheduledOrder.pickSlot'));
+      return false;
+    }
+    // The slot may have slipped inside the lead time while the cart was open
+    if (!getTimeSlots(scheduledDate).includes(scheduledSlot)) {
+      setScheduledSlot('');
+      toast.error(t('components.scheduledOrder.slotExpired'));
+      return false;
+    }
+    return true;
+  };
+
+  // Online orders continue at the payment gateway; true when the page is leaving for it
+  const startOnlinePayment = async (response: any) => {
+    const orderId = response?.data?.orderId;
+    if (paymentMethod !== 'online' || !orderId) return false;
+    return PaymentService.startPayment(orderId);
   };
 
+  // Order payload for one store cart with the shared delivery, schedule and payment choices
+  const buildOrderData = (storeCart: StoreCart, phone: string) => ({
+    storeId: storeCart.storeId,
+    items: storeCart.items.map(item => ({
+      productId: item.product._id,
+      productName: item.product.name,
+      catalogId: item.catalog._id,
+      quantity: item.quantity,
+    })),
+    deliveryAddress: isTakeout ? address : undefined,
+    phone,
+    isTakeout: isTakeout,
+    deliveryFee: calculateDriverFee(storeCart),
+    amount: calculateStoreTotal(storeCart),
+    tip: calculateTip(),
+    scheduledFor: getScheduledFor(),
+    paymentMethod
+  });
+
   const placeOrder = async (storeCart: StoreCart) => {
+    if (!validateSchedule() || !validateDelivery(storeCart)) return;
+
     try {
       setPlacingOrder(storeCart.storeId);
       const orderData = {
-        storeId: storeCart.storeId,
-        userId: user?._id || localStorage.getItem('guest_session_id'),
-        items: storeCart.items.map(item => ({
-          productId: item.product._id,
-          productName: item.product.name,
-          catalogId: item.catalog._id,
-          quantity: item.quantity,
-        })),
-        deliveryAddress: isTakeout ? address : undefined,
-        phone: user?.phone || '',
-        isTakeout: isTakeout,
-        deliveryFee: calculateDriverFee(),
-        amount: calculateStoreTotal(storeCart)
+        ...buildOrderData(storeCart, user?.phone || ''),
+        userId: user?._id || localStorage.getItem('guest_session_id')
       };
 
       console.log('Placing order:', orderData);
@@ -153,6 +330,8 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
       // Remove this store cart from local state
       setStoreCarts(prev => prev.filter(sc => sc.storeId !== storeCart.storeId));
 
+      if (await startOnlinePayment(response)) return;
+
       // Navigate to orders page for authenticated users
       if (user) {
         navigate('/orders');
@@ -169,23 +348,12 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
   };
 
   const placeGuestOrder = async (storeCart: StoreCart) => {
+    if (!validateSchedule() || !validateDelivery(storeCart)) return;
+
     try {
       setPlacingOrder(storeCart.storeId);
 
-      const orderData = {
-        storeId: storeCart.storeId,
-        items: storeCart.items.map(item => ({
-          productId: item.product._id,
-          productName: item.product.name,
-          catalogId: item.catalog._id,
-          quantity: item.quantity,
-        })),
-        deliveryAddress: isTakeout ? address : undefined,
-        phone: guestInfo.phone,
-        isTakeout: isTakeout,
-        deliveryFee: calculateDriverFee(),
-        amount: calculateStoreTotal(storeCart)
-      };
+      const orderData = buildOrderData(storeCart, guestInfo.phone);
 
       console.log('Placing guest order:', orderData);
 
@@ -197,12 +365,25 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
       // Remove this cart from local state
       setStoreCarts(prev => prev.filter(sc => sc.storeId !== storeCart.storeId));
 
+      const orderId = response?.data?.orderId;
+      const trackingToken = response?.data?.trackingToken;
+      if (orderId && trackingToken) {
+        setGuestTrackingLinks(prev => [
+          ...prev,
+          { storeName: storeCart.storeName || storeCart.storeId, url: getTrackingUrl(orderId, trackingToken) }
+        ]);
+      }
+
       // Close guest form and reset
       setShowGuestForm(false);
       setGuestInfo({ name: '', phone: '', email: '' });
 
+      if (await startOnlinePayment(response)) return;
+
       // Show order tracking info for guest users
-      toast.info('Your order has been placed. The store owner will contact you for order tracking.');
+      toast.info(trackingToken
+        ? t('components.trackOrder.keepLink')
+        : 'Your order has been placed. The store owner will contact you for order tracking.');
 
     } catch (error: any) {
       console.error('Guest order placement error:', error);
@@ -212,6 +393,92 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
     }
   };
 
+  const openCheckoutAll = () => {
+    if (!validateSchedule()) return;
+    setCheckoutOutcome(null);
+    setShowCheckoutAll(true);
+  };
+
+  // Guests give their contact details before the group goes out
+  const confirmCheckoutAll = () => {
+    if (isAuthenticated()) {
+      placeAllOrders();
+    } else {
+      setShowCheckoutAll(false);
+      setShowGuestForm(true);
+    }
+  };
+
+  // Place every store cart as one linked group; rejected stores stay in the cart
+  const placeAllOrders = async () => {
+    if (!validateSchedule() || !storeCarts.every(validateDelivery)) return;
+
+    const carts = storeCarts;
+    const guest = !isAuthenticated();
+    try {
+      setPlacingOrder(ALL_STORES);
+      const result = await OrderService.placeOrderGroup(carts.map(storeCart => guest
+        ? buildOrderData(storeCart, guestInfo.phone)
+        : { ...buildOrderData(storeCart, user?.phone || ''), userId: user?._id }
+      ));
+      if (!result) return;
+
+      if (user) {
+        logUserAction('place_order_group', {
+          userId: user._id,
+          groupId: result.groupId,
+          placed: result.placed.length,
+          rejected: result.rejected.length
+        });
+      }
+
+      const placedIds = new Set(result.placed.map(placed => placed.storeId));
+      setStoreCarts(prev => prev.filter(sc => !placedIds.has(sc.storeId)));
+      setCheckoutOutcome(carts.map(storeCart => ({
+        storeId: storeCart.storeId,
+        storeName: storeCart.storeName || storeCart.storeId,
+        orderId: result.placed.find(placed => placed.storeId === storeCart.storeId)?.orderId,
+        message: result.rejected.find(rejected => rejected.storeId === storeCart.storeId)?.message
+      })));
+
+      if (guest) {
+        setGuestTrackingLinks(prev => [
+          ...prev,
+          ...result.placed
+            .filter(placed => placed.trackingToken)
+            .map(placed => ({
+              storeName: carts.find(sc => sc.storeId === placed.storeId)?.storeName || placed.storeId,
+              url: getTrackingUrl(placed.orderId, placed.trackingToken!)
+            }))
+        ]);
+        setShowGuestForm(false);
+        setGuestInfo({ name: '', phone: '', email: '' });
+      }
+      setShowCheckoutAll(true);
+    } finally {
+      setPlacingOrder(null);
+    }
+  };
+
+  const finishCheckoutAll = () => {
+    setShowCheckoutAll(false);
+    setCheckoutOutcome(null);
+    // Stores that turned the order down are still in the cart to fix and retry
+    if (user && storeCarts.length === 0) {
+      navigate('/orders');
+    }
+  };
+
+  const checkoutAllLines: CheckoutAllLine[] = storeCarts.map(storeCart => ({
+    storeId: storeCart.storeId,
+    storeName: storeCart.storeName || storeCart.storeId,
+    itemCount: storeCart.items.reduce((sum, item) => sum + item.quantity, 0),
+    subtotal: calculateSubtotal(storeCart),
+    deliveryFee: calculateDriverFee(storeCart),
+    tip: calculateTip(),
+    blockedReason: getDeliveryProblem(storeCart)
+  }));
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[200px]">
@@ -220,6 +487,59 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
     );
   }
 
+  const renderDeliveryBreakdown = (storeCart: StoreCart) => {
+    const quote = getDeliveryQuote(storeCart);
+    if (!quote) return null;
+    const { zone, outsideZones, belowMinimum } = getZoneCheck(storeCart);
+
+    return (
+      <div className="space-y-1">
+        <div className="flex justify-between items-center">
+          <span className="text-muted-foreground">{t('components.deliveryFee.deliveryFee')}</span>
+          <span className="font-medium">{quote.total.toFixed(0)} {t('common.iranToman')}</span>
+        </div>
+        <div className="pl-3 space-y-0.5 text-xs text-muted-foreground">
+          <div className="flex justify-between">
+            <span>{quote.zoneName ? t('components.deliveryZone.zoneFee', { zone: quote.zoneName }) : t('components.deliveryFee.baseFee')}</span>
+            <span>{quote.baseFee.toFixed(0)}</span>
+          </div>
+          {quote.distanceKm !== null && (
+            <div className="flex justify-between">
+              <span>{t('components.deliveryFee.distance', { km: toPersianNumbers(quote.distanceKm.toFixed(1)) })}</span>
+              <span>{quote.distanceFee.toFixed(0)}</span>
+            </div>
+          )}
+          {quote.surgeMultiplier > 1 && (
+            <div className="flex justify-between">
+              <span>{quote.surgeLabel || t('components.deliveryFee.surge')}</span>
+              <span>×{toPersianNumbers(quote.surgeMultiplier)}</span>
+            </div>
+          )}
+          {quote.minimumApplied && <div>{t('components.deliveryFee.minimumApplied')}</div>}
+          {quote.freeDelivery && <div className="text-green-600">{t('components.deliveryFee.freeDelivery')}</div>}
+        </div>
+        {quote.outOfRange && (
+          <p className="text-xs text-destructive">{t('components.deliveryFee.outOfRange')}</p>
+        )}
+        {outsideZones && (
+          <p className="text-xs text-destructive">{t('components.deliveryZone.outsideZones')}</p>
+        )}
+        {belowMinimum && zone && (
+          <p className="text-xs text-destructive">{t('components.deliveryZone.belowMinimum', { amount: zone.minimumOrder.toFixed(0) })}</p>
+        )}
+      </div>
+    );
+  };
+
+  const copyTrackingLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success(t('components.trackOrder.linkCopied'));
+    } catch (error) {
+      toast.error(t('components.trackOrder.copyFailed'));
+    }
+  };
+
   const hasItems = storeCarts.length > 0;
   const totalItems = storeCarts.reduce((sum, cart) => {
     if (cart.items && Array.isArray(cart.items)) {
@@ -237,6 +557,33 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
         </p>
       </div>
 
+      {/* Guest orders can only be followed through their tracking links */}
+      {guestTrackingLinks.length > 0 && (
+        <Card className="border-primary/40">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <PackageSearch className="h-5 w-5 text-primary" />
+              {t('components.trackOrder.linksTitle')}
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">{t('components.trackOrder.linksDescription')}</p>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {guestTrackingLinks.map(link => (
+              <div key={link.url} className="flex items-center gap-2">
+                <span className="text-sm font-medium w-32 truncate">{link.storeName}</span>
+                <Input readOnly value={link.url} className="flex-1 text-xs" dir="ltr" onFocus={(e) => e.target.select()} />
+                <Button size="sm" variant="outline" onClick={() => copyTrackingLink(link.url)} title={t('components.trackOrder.copyLink')}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button size="sm" asChild>
+                  <a href={link.url}>{t('components.trackOrder.track')}</a>
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {!hasItems ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
@@ -332,17 +679,19 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
                             <span className="font-medium">{calculateSubtotal(storeCart).toFixed(0)} {t('common.iranToman')}</span>
                           </div>
 
-                          {isTakeout && (
+                          {isTakeout && renderDeliveryBreakdown(storeCart)}
+
+                          {calculateTip() > 0 && (
                             <div className="flex justify-between items-center">
-                              <span className="text-muted-foreground">Driver Fee</span>
-                              <span className="font-medium">{calculateDriverFee().toFixed(0)} {t('common.iranToman')}</span>
+                              <span className="text-muted-foreground">{t('components.tip.driverTip')}</span>
+                              <span className="font-medium">{calculateTip().toFixed(0)} {t('common.iranToman')}</span>
                             </div>
                           )}
 
                           <div className="border-t pt-3">
                             <div className="flex justify-between items-center">
                               <span className="text-lg font-semibold">Total</span>
-                              <span className="text-lg font-bold text-primary">{calculateStoreTotal(storeCart).toFixed(0)} {t('common.iranToman')}</span>
+                              <span className="text-lg font-bold text-primary">{(calculateStoreTotal(storeCart) + calculateTip()).toFixed(0)} {t('common.iranToman')}</span>
                             </div>
                           </div>
                         </div>
@@ -357,7 +706,7 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
                           }}
                           className="w-full text-sm sm:text-base"
                           size="lg"
-                          disabled={placingOrder === storeCart.storeId}
+                          disabled={placingOrder === storeCart.storeId || !canDeliver(storeCart)}
                         >
                           {placingOrder === storeCart.storeId ? 'Placing Order...' :
                             isAuthenticated() ? 'Place Order' : 'Continue as Guest'}
@@ -465,6 +814,7 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
                                 longitude={longitude}
                                 onLocationSelect={handleLocationSelect}
                                 height="500px"
+                                zones={Object.values(zonesByStore).flat()}
                               />
                             </div>
                           </DialogContent>
@@ -476,9 +826,174 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
               </div>
             </CardContent>
           </Card>
+
+          {/* Delivery Time */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                {t('components.scheduledOrder.deliveryTime')}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant={deliverAt === 'now' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setDeliverAt('now')}
+                    className="flex-1"
+                  >
+                    {t('components.scheduledOrder.asap')}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={deliverAt === 'scheduled' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setDeliverAt('scheduled')}
+                    className="flex-1"
+                  >
+                    <CalendarClock className="h-4 w-4 mr-2" />
+                    {t('components.scheduledOrder.deliverAt')}
+                  </Button>
+                </div>
+
+                {deliverAt === 'scheduled' && (
+                  <div className="grid gap-4 sm:grid-cols-2 pl-6 border-l-2 border-muted">
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">{t('components.scheduledOrder.date')}</Label>
+                      <PersianDatePicker
+                        value={scheduledDate}
+                        onChange={handleScheduledDateChange}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">{t('components.scheduledOrder.timeSlot')}</Label>
+                      {timeSlots.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">{t('components.scheduledOrder.noSlots')}</p>
+                      ) : (
+                        <Select value={scheduledSlot} onValueChange={setScheduledSlot}>
+                          <SelectTrigger>
+                            <SelectValue placeholder={t('components.scheduledOrder.selectSlot')} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {timeSlots.map((slot) => (
+                              <SelectItem key={slot} value={slot}>
+                                {toPersianNumbers(slot)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                    {scheduledSlot && (
+                      <p className="sm:col-span-2 text-sm text-primary">
+                        {t('components.scheduledOrder.scheduledFor', {
+                          time: formatPersianDateTime(combineDateAndSlot(scheduledDate, scheduledSlot))
+                        })}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Payment Method */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CreditCard className="h-5 w-5" />
+                {t('components.payment.paymentMethod')}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant={paymentMethod === 'cash' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setPaymentMethod('cash')}
+                  className="flex-1"
+                >
+                  <Banknote className="h-4 w-4 mr-2" />
+                  {t('components.payment.cash')}
+                </Button>
+                <Button
+                  type="button"
+                  variant={paymentMethod === 'online' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setPaymentMethod('online')}
+                  disabled={!isOnlinePaymentAvailable()}
+                  className="flex-1"
+                >
+                  <CreditCard className="h-4 w-4 mr-2" />
+                  {t('components.payment.online')}
+                </Button>
+              </div>
+              {paymentMethod === 'online' && (
+                <p className="text-sm text-muted-foreground mt-3">{t('components.payment.onlineHint')}</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Driver Tip */}
+          {isTakeout && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <HeartHandshake className="h-5 w-5" />
+                  {storeCarts.length > 1 ? t('components.tip.driverTipPerDelivery') : t('components.tip.driverTip')}
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">{t('components.tip.checkoutHint')}</p>
+              </CardHeader>
+              <CardContent>
+                <TipSelector value={tip} onChange={setTip} deliveries={storeCarts.length} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Checkout All */}
+          {storeCarts.length > 1 && (
+            <Card className="border-primary/40">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Layers className="h-5 w-5" />
+                  {t('components.checkoutAll.title')}
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">{t('components.checkoutAll.description')}</p>
+              </CardHeader>
+              <CardContent>
+                <Button
+                  onClick={openCheckoutAll}
+                  className="w-full text-sm sm:text-base"
+                  size="lg"
+                  disabled={placingOrder !== null}
+                >
+                  {t('components.checkoutAll.review', { count: storeCarts.length, stores: toPersianNumbers(storeCarts.length) })}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
         </div>
       )}
 
+      <CheckoutAllDialog
+        open={showCheckoutAll}
+        onOpenChange={(open) => (open ? setShowCheckoutAll(true) : finishCheckoutAll())}
+        lines={checkoutAllLines}
+        isTakeout={isTakeout}
+        address={address}
+        scheduledFor={getScheduledFor()}
+        paymentMethod={paymentMethod}
+        placing={placingOrder === ALL_STORES}
+        outcome={checkoutOutcome}
+        onConfirm={confirmCheckoutAll}
+        onPayAll={(orders) => PaymentService.startGroupPayment(orders)}
+        onDone={finishCheckoutAll}
+      />
+
       {/* Guest Contact Information Dialog */}
       <Dialog open={showGuestForm} onOpenChange={setShowGuestForm}>
         <DialogContent className="sm:max-w-md">
@@ -546,8 +1061,12 @@ const MyCart: React.FC<CartProps> = ({ user }) => {
             </Button>
             <Button
               onClick={() => {
-                // Place order for all store carts
-                storeCarts.forEach(cart => placeGuestOrder(cart));
+                // Several stores go out together as one group
+                if (storeCarts.length > 1) {
+                  placeAllOrders();
+                } else {
+                  storeCarts.forEach(cart => placeGuestOrder(cart));
+                }
               }}
               disabled={placingOrder !== null || !guestInfo.name || !guestInfo.phone || !guestInfo.email}
               className="flex-1"
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,6 +7,11 @@ import { BarChart, PieChart, LineChart, Package, Truck, ShoppingCart, MessageSqu
 import { orderAPI, messageAPI } from '@/services/api';
 import { formatPersianDateTime, formatPersianCurrency, toPersianNumbers } from '@/lib/utils';
 import { Order } from '@/services/api';
+import { useOrderRealtime } from '@/hooks/useOrderRealtime';
+import { debounce } from '@/utils/performanceUtils';
+import SlaSettingsCard from '@/components/SlaSettingsCard';
+import LateOrdersReport from '@/components/LateOrdersReport';
+import FeedbackAnalytics from '@/components/FeedbackAnalytics';
 
 interface DashboardProps {
   user: any;
@@ -167,6 +172,22 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
     }
   }, [user]);
 
+  // Live order events refresh the statistics and recent orders
+  const refreshStatistics = useMemo(() => debounce(() => {
+    fetchDashboardStatistics().catch(() => {
+      // Keep the last known statistics on a failed refresh
+    });
+  }, 1000), [user]);
+
+  // A refresh still pending for the previous user, or after unmount, is dropped
+  useEffect(() => () => refreshStatistics.cancel(), [refreshStatistics]);
+
+  useOrderRealtime((event) => {
+    if (event.type !== 'progress' && user) {
+      refreshStatistics();
+    }
+  });
+
   const fetchDashboardStatistics = async () => {
     try {
       // Use the new unified dashboard statistics endpoint
@@ -551,6 +572,17 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
         </Card>
       </div>
 
+      {/* Order SLA */}
+      {user?.role === 'store' && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <LateOrdersReport />
+          <SlaSettingsCard />
+        </div>
+      )}
+
+      {/* Customer feedback */}
+      {user?.role === 'store' && <FeedbackAnalytics />}
+
       {/* Role-specific content */}
       <div className="card-modern p-6">
         <h3 className="text-xl font-semibold text-card-foreground mb-4">{t('common.roleSpecificFeatures')}</h3>
@@ -0,0 +1,322 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChefHat, Volume2, VolumeX, Maximize, X, Wifi, WifiOff, Truck, Store } from 'lucide-react';
+import { orderAPI, Order, OrderStatus } from '../services/api';
+import { OrderService } from '../services/orderService';
+import { OrderStateMachine, OrderAction } from '../services/orderStateMachine';
+import { logError } from '../services/logger';
+import { useOrderRealtime } from '../hooks/useOrderRealtime';
+import { useWakeLock } from '../hooks/useWakeLock';
+import { useSlaMonitor } from '../hooks/useSlaMonitor';
+import { debounce } from '../utils/performanceUtils';
+import { isAwaitingSchedule } from '../utils/schedule';
+import { playChime, unlockAudio } from '../utils/sound';
+import { formatPersianTime, toPersianNumbers } from '@/lib/utils';
+
+interface KitchenProps {
+  user: any;
+}
+
+const COLUMNS: { status: OrderStatus; label: string; accent: string }[] = [
+  { status: 'placed', label: 'components.kitchen.placed', accent: 'border-yellow-500' },
+  { status: 'accepted', label: 'components.kitchen.accepted', accent: 'border-blue-500' },
+  { status: 'prepared', label: 'components.kitchen.prepared', accent: 'border-green-500' },
+  { status: 'pickedup', label: 'components.kitchen.pickedup', accent: 'border-purple-500' }
+];
+
+// Tap on a card runs the first of these the state machine allows
+const ADVANCE_ACTIONS: Partial<Record<OrderAction, (orderId: string) => Promise<boolean>>> = {
+  accept_store: (orderId) => OrderService.acceptOrderByStore(orderId),
+  prepare: (orderId) => OrderService.prepareOrder(orderId)
+};
+
+// Waiting thresholds for orders nobody has accepted yet (minutes)
+const PLACED_WARN_MINUTES = 3;
+const PLACED_LATE_MINUTES = 5;
+// Preparation countdown turns amber below this many minutes
+const PREPARE_WARN_MINUTES = 3;
+
+const POLL_INTERVAL = 15000;
+const RESYNC_INTERVAL = 5 * 60 * 1000;
+const NEW_ORDER_HIGHLIGHT = 10000;
+
+type Urgency = 'normal' | 'warn' | 'late';
+
+const urgencyStyles: Record<Urgency, string> = {
+  normal: 'bg-card',
+  warn: 'bg-amber-100 dark:bg-amber-950',
+  late: 'bg-red-100 dark:bg-red-950 animate-pulse'
+};
+
+const formatCountdown = (seconds: number) => {
+  const sign = seconds < 0 ? '-' : '';
+  const abs = Math.abs(Math.round(seconds));
+  const minutes = Math.floor(abs / 60);
+  const rest = (abs % 60).toString().padStart(2, '0');
+  return toPersianNumbers(`${sign}${minutes}:${rest}`);
+};
+
+const Kitchen: React.FC<KitchenProps> = ({ user }) => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [progressData, setProgressData] = useState<Record<string, any>>({});
+  const [started, setStarted] = useState(false);
+  const [soundEnabled, setSoundEnabled] = useState(true);
+  const [advancing, setAdvancing] = useState<string | null>(null);
+  const [highlightedUntil, setHighlightedUntil] = useState<Record<string, number>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const knownPlacedRef = useRef<Set<string> | null>(null);
+  const soundEnabledRef = useRef(soundEnabled);
+  soundEnabledRef.current = soundEnabled;
+
+  const { active: wakeLockActive } = useWakeLock(started);
+  useSlaMonitor(orders, progressData, { enabled: started, muted: !soundEnabled });
+
+  const loadOrders = async () => {
+    try {
+      const response = await orderAPI.getStoreOrders();
+      if (response.success) {
+        setOrders(response.data || []);
+      }
+    } catch (error: any) {
+      // Keep the last known board; the next poll or resync retries
+      logError(error, 'Kitchen.loadOrders');
+    }
+  };
+
+  const reloadOrders = useMemo(() => debounce(() => loadOrders(), 500), []);
+
+  const orderIds = useMemo(() => orders.map(order => order._id), [orders]);
+  const { connected } = useOrderRealtime((event) => {
+    if (event.type === 'progress') {
+      if (event.progress) {
+        setProgressData(prev => ({ ...prev, [event.orderId]: event.progress }));
+      }
+    } else {
+      reloadOrders();
+    }
+  }, orderIds);
+
+  useEffect(() => {
+    loadOrders();
+    // Periodic full resync so a long shift never drifts from the server
+    const resync = setInterval(loadOrders, RESYNC_INTERVAL);
+    const clock = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      clearInterval(resync);
+      clearInterval(clock);
+    };
+  }, []);
+
+  // Poll only while the socket is down
+  useEffect(() => {
+    if (connected) return;
+    const poll = setInterval(loadOrders, POLL_INTERVAL);
+    return () => clearInterval(poll);
+  }, [connected]);
+
+  // Chime and highlight when placed orders appear that the board hasn't seen
+  useEffect(() => {
+    const placedIds = orders.filter(order => order.status === 'placed').map(order => order._id);
+    const known = knownPlacedRef.current;
+    knownPlacedRef.current = new Set(placedIds);
+    if (!known) return;
+
+    const fresh = placedIds.filter(id => !known.has(id));
+    if (fresh.length === 0) return;
+
+    if (soundEnabledRef.current) {
+      playChime();
+    }
+    setHighlightedUntil(prev => {
+      const until = Date.now() + NEW_ORDER_HIGHLIGHT;
+      // Drop expired entries so the map stays small over a long shift
+      const next: Record<string, number> = {};
+      Object.entries(prev).forEach(([id, expiry]) => {
+        if (expiry > Date.now()) next[id] = expiry;
+      });
+      fresh.forEach(id => { next[id] = until; });
+      return next;
+    });
+  }, [orders]);
+
+  const columns = useMemo(() => {
+    const current = new Date(now);
+    const visible = orders.filter(order => order.isActive !== false && !isAwaitingSchedule(order, current));
+    return COLUMNS.map(column => ({
+      ...column,
+      orders: visible
+        .filter(order => order.status === column.status)
+        .sort((a, b) => new Date(a.datePlaced).getTime() - new Date(b.datePlaced).getTime())
+    }));
+  }, [orders, now]);
+
+  const handleStart = async () => {
+    await unlockAudio();
+    try {
+      await document.documentElement.requestFullscreen?.();
+    } catch (error) {
+      // Fullscreen is optional, the board works in a normal window too
+    }
+    setStarted(true);
+  };
+
+  const handleExit = async () => {
+    if (document.fullscreenElement) {
+      await document.exitFullscreen().catch(() => undefined);
+    }
+    navigate('/orders');
+  };
+
+  const handleAdvance = async (order: Order) => {
+    const action = OrderStateMachine.getAvailableActions(order, user?.role).find(a => ADVANCE_ACTIONS[a]);
+    if (!action || advancing) return;
+
+    setAdvancing(order._id);
+    try {
+      const success = await ADVANCE_ACTIONS[action]!(order._id);
+      if (success) {
+        window.dispatchEvent(new CustomEvent('orderUpdate'));
+        await loadOrders();
+      }
+    } finally {
+      setAdvancing(null);
+    }
+  };
+
+  const getUrgency = (order: Order): Urgency => {
+    if (order.status === 'placed') {
+      const waited = (now - new Date(order.datePlaced).getTime()) / 60000;
+      if (waited >= PLACED_LATE_MINUTES) return 'late';
+      if (waited >= PLACED_WARN_MINUTES) return 'warn';
+      return 'normal';
+    }
+    if (order.status === 'accepted') {
+      const remaining = getPrepareSecondsLeft(order);
+      if (remaining === undefined) return 'normal';
+      if (remaining <= 0) return 'late';
+      if (remaining <= PREPARE_WARN_MINUTES * 60) return 'warn';
+    }
+    return 'normal';
+  };
+
+  // Seconds until the preparation estimate, ticking locally between server updates
+  const getPrepareSecondsLeft = (order: Order): number | undefined => {
+    if (order.datePrepared_byStore_est) {
+      return (new Date(order.datePrepared_byStore_est).getTime() - now) / 1000;
+    }
+    const minutesLeft = progressData[order._id]?.minutesLeftPrepare ?? order.minutesLeftPrepare;
+    return minutesLeft !== undefined ? minutesLeft * 60 : undefined;
+  };
+
+  if (user?.role !== 'store' && user?.role !== 'staff') {
+    return <Navigate to="/dashboard" />;
+  }
+
+  const renderCard = (order: Order) => {
+    const urgency = getUrgency(order);
+    const canAdvance = OrderStateMachine.getAvailableActions(order, user?.role).some(a => ADVANCE_ACTIONS[a]);
+    const secondsLeft = order.status === 'accepted' ? getPrepareSecondsLeft(order) : undefined;
+    const waitedSeconds = order.status === 'placed' ? (now - new Date(order.datePlaced).getTime()) / 1000 : undefined;
+
+    return (
+      <button
+        key={order._id}
+        type="button"
+        onClick={() => handleAdvance(order)}
+        disabled={!canAdvance || advancing === order._id}
+        className={`w-full text-start rounded-xl border-2 p-4 shadow-sm transition-transform ${urgencyStyles[urgency]} ${
+          (highlightedUntil[order._id] || 0) > now ? 'ring-4 ring-yellow-400' : ''
+        } ${canAdvance ? 'active:scale-95 cursor-pointer' : 'cursor-default'} ${advancing === order._id ? 'opacity-50' : ''}`}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-2xl font-bold">#{order._id.slice(-4)}</span>
+          <span className="flex items-center gap-1 text-sm text-muted-foreground">
+            {order.isTakeout ? <Truck className="w-4 h-4" /> : <Store className="w-4 h-4" />}
+            {formatPersianTime(order.datePlaced)}
+          </span>
+        </div>
+        <ul className="space-y-1 text-lg">
+          {order.items.map((item, index) => (
+            <li key={item._id || index} className="flex gap-2">
+              <span className="font-bold">{toPersianNumbers(item.quantity)}×</span>
+              <span>{item.product?.name}</span>
+            </li>
+          ))}
+        </ul>
+        {secondsLeft !== undefined && (
+          <div className={`mt-3 text-3xl font-mono font-bold ${secondsLeft <= 0 ? 'text-red-600' : ''}`}>
+            {formatCountdown(secondsLeft)}
+          </div>
+        )}
+        {waitedSeconds !== undefined && (
+          <div className="mt-3 text-sm text-muted-foreground">
+            {t('components.kitchen.waiting', { time: formatCountdown(waitedSeconds) })}
+          </div>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col bg-background">
+      <header className="flex items-center justify-between border-b px-6 py-3">
+        <h1 className="flex items-center gap-2 text-2xl font-bold">
+          <ChefHat className="w-7 h-7" />
+          {t('common.kitchen')}
+        </h1>
+        <div className="flex items-center gap-3">
+          <span className="text-2xl font-mono">{formatPersianTime(new Date(now))}</span>
+          <Badge variant="outline" className="flex items-center gap-1">
+            {connected ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
+            {connected ? t('components.realtime.live') : t('components.realtime.polling')}
+          </Badge>
+          {started && !wakeLockActive && (
+            <Badge variant="destructive">{t('components.kitchen.screenMaySleep')}</Badge>
+          )}
+          <Button variant="outline" size="icon" onClick={() => setSoundEnabled(!soundEnabled)}>
+            {soundEnabled ? <Volume2 className="w-5 h-5" /> : <VolumeX className="w-5 h-5" />}
+          </Button>
+          <Button variant="outline" size="icon" onClick={handleStart}>
+            <Maximize className="w-5 h-5" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={handleExit}>
+            <X className="w-5 h-5" />
+          </Button>
+        </div>
+      </header>
+
+      <div className="grid flex-1 grid-cols-4 gap-4 overflow-hidden p-4">
+        {columns.map(column => (
+          <section key={column.status} className={`flex flex-col overflow-hidden rounded-xl border-t-8 bg-muted/40 ${column.accent}`}>
+            <h2 className="flex items-center justify-between px-4 py-3 text-xl font-semibold">
+              {t(column.label)}
+              <Badge variant="secondary" className="text-lg">{toPersianNumbers(column.orders.length)}</Badge>
+            </h2>
+            <div className="flex-1 space-y-3 overflow-y-auto px-3 pb-3">
+              {column.orders.map(renderCard)}
+            </div>
+          </section>
+        ))}
+      </div>
+
+      {!started && (
+        <div className="absolute inset-0 flex items-center justify-center bg-background/90">
+          <div className="space-y-4 text-center">
+            <ChefHat className="mx-auto w-16 h-16 text-primary" />
+            <p className="text-lg text-muted-foreground">{t('components.kitchen.startHint')}</p>
+            <Button size="lg" onClick={handleStart}>
+              {t('components.kitchen.start')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Kitchen;
@@ -0,0 +1,266 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Wallet, Banknote, Truck, HandCoins, HeartHandshake, Printer, CheckCheck, Loader2 } from 'lucide-react';
+import { ledgerAPI, CashLedgerEntry, CashSettlement } from '../services/api';
+import { logError } from '../services/logger';
+import SettlementSlip from '../components/SettlementSlip';
+import { LedgerGroup, groupLedger, owedToStore, sumLedger } from '../utils/ledger';
+import { formatPersianCurrency, formatPersianDateTime, toPersianNumbers } from '@/lib/utils';
+
+interface LedgerProps {
+  user: any;
+}
+
+/**
+ * Cash-on-delivery ledger
+ * Drivers see the cash they owe each store; stores see what each driver owes
+ * them and reconcile batches of orders into settlements.
+ */
+const Ledger: React.FC<LedgerProps> = ({ user }) => {
+  const { t } = useTranslation();
+  const [entries, setEntries] = useState<CashLedgerEntry[]>([]);
+  const [settlements, setSettlements] = useState<CashSettlement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [settlingDriver, setSettlingDriver] = useState<string | null>(null);
+  const [slip, setSlip] = useState<CashSettlement | null>(null);
+
+  const isStore = user?.role === 'store';
+
+  const loadLedger = async () => {
+    try {
+      const [entriesResponse, settlementsResponse] = await Promise.all([
+        ledgerAPI.getEntries({ settled: false }),
+        ledgerAPI.getSettlements()
+      ]);
+      if (entriesResponse.success) setEntries(entriesResponse.data || []);
+      if (settlementsResponse.success) setSettlements(settlementsResponse.data || []);
+    } catch (error: any) {
+      logError(error, 'Ledger.loadLedger');
+      toast.error(t('components.ledger.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLedger();
+  }, []);
+
+  const totals = useMemo(() => sumLedger(entries), [entries]);
+  const groups = useMemo(() => groupLedger(entries, isStore ? 'driver' : 'store'), [entries, isStore]);
+
+  if (user?.role !== 'driver' && user?.role !== 'store') {
+    return <Navigate to="/dashboard" />;
+  }
+
+  const toggleEntry = (orderId: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(orderId);
+      else next.delete(orderId);
+      return next;
+    });
+  };
+
+  const toggleGroup = (group: LedgerGroup, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      group.entries.forEach(entry => (checked ? next.add(entry.order) : next.delete(entry.order)));
+      return next;
+    });
+  };
+
+  const handleSettle = async (group: LedgerGroup) => {
+    const orderIds = group.entries.filter(entry => selected.has(entry.order)).map(entry => entry.order);
+    if (orderIds.length === 0) return;
+
+    const owed = sumLedger(group.entries.filter(entry => selected.has(entry.order))).owed;
+    if (!window.confirm(t('components.ledger.confirmSettle', {
+      count: orderIds.length,
+      amount: formatPersianCurrency(owed),
+      driver: group.party.name || group.party.username
+    }))) return;
+
+    setSettlingDriver(group.party._id);
+    try {
+      const response = await ledgerAPI.settle({ driverId: group.party._id, orderIds });
+      const settlement = response.data;
+      if (response.success && settlement) {
+        toast.success(t('components.ledger.settled'));
+        setEntries(prev => prev.filter(entry => !orderIds.includes(entry.order)));
+        setSettlements(prev => [settlement, ...prev]);
+        setSelected(prev => new Set([...prev].filter(id => !orderIds.includes(id))));
+        setSlip(settlement);
+      }
+    } catch (error: any) {
+      logError(error, 'Ledger.settle');
+      toast.error(error.response?.data?.message || t('components.ledger.settleFailed'));
+    } finally {
+      setSettlingDriver(null);
+    }
+  };
+
+  const summaryCards = [
+    { label: t('components.ledger.cashCollected'), value: totals.cashCollected, icon: Banknote, color: 'text-blue-600' },
+    { label: t('components.ledger.feesEarned'), value: totals.deliveryFees, icon: Truck, color: 'text-green-600' },
+    { label: t('components.ledger.tipsEarned'), value: totals.tips, icon: HeartHandshake, color: 'text-pink-600' },
+    { label: isStore ? t('components.ledger.owedToYou') : t('components.ledger.owedToStores'), value: totals.owed, icon: HandCoins, color: 'text-orange-600' }
+  ];
+
+  const renderGroup = (group: LedgerGroup) => {
+    const selectedInGroup = group.entries.filter(entry => selected.has(entry.order)).length;
+    const allSelected = selectedInGroup === group.entries.length;
+
+    return (
+      <Card key={group.party._id}>
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <CardTitle className="text-base flex items-center gap-2">
+              {isStore && (
+                <Checkbox checked={allSelected} onCheckedChange={(checked) => toggleGroup(group, checked)} />
+              )}
+              {group.party.name || group.party.username}
+              <Badge variant="secondary">{toPersianNumbers(group.orders)}</Badge>
+            </CardTitle>
+            <div className="text-sm">
+              <span className="text-muted-foreground">{t('components.ledger.owed')}: </span>
+              <span className="font-semibold">{formatPersianCurrency(group.owed)}</span>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  {isStore && <th className="w-8" />}
+                  <th className="text-start py-1 font-medium">{t('components.ledger.order')}</th>
+                  <th className="text-start py-1 font-medium">{t('components.ledger.deliveredAt')}</th>
+                  <th className="text-end py-1 font-medium">{t('components.ledger.cash')}</th>
+                  <th className="text-end py-1 font-medium">{t('components.ledger.fee')}</th>
+                  <th className="text-end py-1 font-medium">{t('components.ledger.tip')}</th>
+                  <th className="text-end py-1 font-medium">{t('components.ledger.owed')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {group.entries.map(entry => (
+                  <tr key={entry.order} className="border-b last:border-0">
+                    {isStore && (
+                      <td className="py-1">
+                        <Checkbox
+                          checked={selected.has(entry.order)}
+                          onCheckedChange={(checked) => toggleEntry(entry.order, checked)}
+                        />
+                      </td>
+                    )}
+                    <td className="py-1">{entry.orderName || `#${entry.order.slice(-6)}`}</td>
+                    <td className="py-1">{formatPersianDateTime(entry.deliveredAt)}</td>
+                    <td className="py-1 text-end">{formatPersianCurrency(entry.cashCollected)}</td>
+                    <td className="py-1 text-end">{formatPersianCurrency(entry.deliveryFee)}</td>
+                    <td className="py-1 text-end">{formatPersianCurrency(entry.tip || 0)}</td>
+                    <td className="py-1 text-end font-medium">{formatPersianCurrency(owedToStore(entry))}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {isStore && (
+            <Button
+              size="sm"
+              className="w-full"
+              disabled={selectedInGroup === 0 || settlingDriver === group.party._id}
+              onClick={() => handleSettle(group)}
+            >
+              {settlingDriver === group.party._id
+                ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                : <CheckCheck className="w-4 h-4 mr-2" />}
+              {t('components.ledger.settleSelected', { count: selectedInGroup })}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Wallet className="w-6 h-6 text-primary" />
+        <h1 className="text-2xl font-bold">{t('components.ledger.title')}</h1>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {summaryCards.map(card => (
+          <Card key={card.label}>
+            <CardContent className="p-4 flex items-center gap-3">
+              <card.icon className={`w-8 h-8 ${card.color}`} />
+              <div>
+                <p className="text-sm text-muted-foreground">{card.label}</p>
+                <p className="text-lg font-bold">{formatPersianCurrency(card.value)}</p>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Tabs defaultValue="open">
+        <TabsList>
+          <TabsTrigger value="open">{t('components.ledger.open')}</TabsTrigger>
+          <TabsTrigger value="settlements">{t('components.ledger.settlements')}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="open" className="space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin" /></div>
+          ) : groups.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">{t('components.ledger.empty')}</p>
+          ) : (
+            groups.map(renderGroup)
+          )}
+        </TabsContent>
+
+        <TabsContent value="settlements" className="space-y-2">
+          {settlements.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">{t('components.ledger.noSettlements')}</p>
+          ) : (
+            settlements.map(settlement => {
+              const party = isStore ? settlement.driver : settlement.store;
+              return (
+                <Card key={settlement._id}>
+                  <CardContent className="p-4 flex items-center justify-between gap-3 flex-wrap">
+                    <div>
+                      <p className="font-medium">{party.name || party.username}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatPersianDateTime(settlement.settledAt)} · {t('components.ledger.orderCount', { count: settlement.entries.length })}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-semibold">{formatPersianCurrency(settlement.totalOwed)}</span>
+                      <Button variant="outline" size="sm" onClick={() => setSlip(settlement)}>
+                        <Printer className="w-4 h-4 mr-2" />
+                        {t('components.ledger.slip')}
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <SettlementSlip settlement={slip} onClose={() => setSlip(null)} />
+    </div>
+  );
+};
+
+export default Ledger;
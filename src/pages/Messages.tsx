@@ -1,13 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useLocation, useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { toast } from 'react-toastify';
-import { messageAPI, userAPI, socialAPI } from '../services/api';
+import { messageAPI, userAPI, socialAPI, OrderThread } from '../services/api';
 import { logUserAction } from '../services/logger';
 import { Button } from '../components/ui/button';
 import { Badge } from '../components/ui/badge';
-import { Send, Users, MessageSquare, UserPlus, Heart, UserCheck, UserMinus, Menu, Check, CheckCheck } from 'lucide-react';
+import { Send, Users, MessageSquare, UserPlus, Heart, UserCheck, UserMinus, Menu, Check, CheckCheck, Package } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import AvatarLink from '../components/AvatarLink';
+import OrderThreadHeader from '../components/OrderThreadHeader';
 
 interface MessagesProps {
   user: any;
@@ -15,19 +16,38 @@ interface MessagesProps {
 
 interface Conversation {
   _id: string;
-  type: 'private' | 'group';
+  type: 'private' | 'group' | 'order';
   name: string;
   avatar: string;
   statusMain: string;
   participants: any[];
   lastMessage?: any;
   unreadCount: number;
+  // Order context, only for order threads
+  order?: OrderThread['order'];
 }
 
+const toOrderConversation = (thread: OrderThread): Conversation => ({
+  _id: thread.order._id,
+  type: 'order',
+  name: thread.order.orderName || `#${thread.order._id.slice(-6)}`,
+  avatar: '',
+  statusMain: '',
+  participants: [thread.order.user, thread.order.store, thread.order.driver].filter(Boolean),
+  lastMessage: thread.lastMessage || null,
+  unreadCount: thread.unreadCount || 0,
+  order: thread.order
+});
+
 const Messages: React.FC<MessagesProps> = ({ user }) => {
   const location = useLocation();
   const navigate = useNavigate();
+  // Chats can also be opened by link, e.g. from a push notification
+  const [searchParams] = useSearchParams();
+  const startChatWith = location.state?.startChatWith || searchParams.get('with');
+  const openOrderThreadId = location.state?.openOrderThread || searchParams.get('order');
   const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [orderThreads, setOrderThreads] = useState<Conversation[]>([]);
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
   const [messages, setMessages] = useState<any[]>([]);
   const [newMessage, setNewMessage] = useState('');
@@ -63,6 +83,7 @@ const Messages: React.FC<MessagesProps> = ({ user }) => {
     // Poll for new conversations and unread messages every 30 seconds
     const interval = setInterval(() => {
       loadConversations();
+      loadOrderThreads();
       loadUnreadMessages();
     }, 30000);
 
@@ -71,8 +92,8 @@ const Messages: React.FC<MessagesProps> = ({ user }) => {
 
   // Handle navigation state for starting chat with specific user
   useEffect(() => {
-    if (location.state?.startChatWith && users.length > 0 && !loading) {
-      const targetUser = users.find(u => u._id === location.state.startChatWith);
+    if (startChatWith && users.length > 0 && !loading) {
+      const targetUser = users.find(u => u._id === startChatWith);
       if (targetUser) {
         const conversation: Conversation = {
           _id: targetUser._id,
@@ -85,11 +106,38 @@ const Messages: React.FC<MessagesProps> = ({ user }) => {
         };
         setSelectedConversation(conversation);
         loadMessages(conversation);
-        // Clear the state to prevent re-triggering
-        window.history.replaceState({}, document.title);
+        // Clear the state and link parameters to prevent re-triggering
+        navigate(location.pathname, { replace: true });
       }
     }
-  }, [location.state, users, loading]);
+  }, [startChatWith, users, loading]);
+
+  // Handle navigation state for opening an order's chat thread
+  useEffect(() => {
+    const orderId = openOrderThreadId;
+    if (!orderId || loading) return;
+
+    const openThread = async () => {
+      let conversation = orderThreads.find(thread => thread._id === orderId);
+      if (!conversation) {
+        try {
+          const response = await messageAPI.getOrderThread(orderId);
+          if (response.success && response.data) {
+            conversation = toOrderConversation(response.data);
+            setOrderThreads(prev => [conversation!, ...prev]);
+          }
+        } catch (error) {
+          toast.error('Failed to open order chat');
+        }
+      }
+      if (conversation) {
+        setSelectedConversation(conversation);
+      }
+      // Clear the state and link parameters to prevent re-triggering
+      navigate(location.pathname, { replace: true });
+    };
+    openThread();
+  }, [openOrderThreadId, loading]);
 
   // Load messages when conversation changes
   useEffect(() => {
@@ -115,6 +163,7 @@ const Messages: React.FC<MessagesProps> = ({ user }) => {
       await Promise.all([
         loadUsers(),
         loadConversations(),
+        loadOrderThreads(),
         loadSocialRelationships(),
         loadUnreadMessages()
       ]);
@@ -174,8 +223,8 @@ const Messages: React.FC<MessagesProps> = ({ user }) => {
         );
 
         // If we have a target user from navigation state, ensure they're in the conversations
-        if (location.state?.startChatWith) {
-          const targetUser = users.find(u => u._id === location.state.startChatWith);
+        if (startChatWith) {
+          const targetUser = users.find(u => u._id === startChatWith);
           if (targetUser && !uniqueConversations.find((c: any) => c._id === targetUser._id)) {
             uniqueConversations.unshift({
               _id: targetUser._id,
@@ -216,6 +265,17 @@ const Messages: React.FC<MessagesProps> = ({ user }) => {
     }
   };
 
+  const loadOrderThreads = async () => {
+    try {
+      const response = await messageAPI.getOrderThreads();
+      if (response.success && response.data) {
+        setOrderThreads(response.data.map(toOrderConversation));
+      }
+    } catch (error) {
+      console.error('Failed to load order threads:', error);
+    }
+  };
+
   const loadSocialRelationships = async () => {
     try {
       const response = await socialAPI.getRelationships();
@@ -289,6 +349,17 @@ const Messages: React.FC<MessagesProps> = ({ user }) => {
         if (response.success && response.data) {
           loadedMessages = response.data;
         }
+      } else if (conversation.type === 'order') {
+        const response = await messageAPI.getOrderMessages(conversation._id);
+
+        if (response.success && response.data) {
+          loadedMessages = response.data;
+        }
+
+        if (conversation.unreadCount > 0) {
+          await messageAPI.markOrderThreadAsRead(conversation._id);
+          loadOrderThreads();
+        }
       }
 
       // Ensure messages is always an array
@@ -345,6 +416,12 @@ const Messages: React.FC<MessagesProps> = ({ user }) => {
           content: newMessage,
           messageType: 'text'
         });
+      } else if (selectedConversation.type === 'order') {
+        await messageAPI.send({
+          orderId: selectedConversation._id,
+          content: newMessage,
+          messageType: 'text'
+        });
       }
 
       logUserAction('send_message', {
@@ -500,13 +577,14 @@ const Messages: React.FC<MessagesProps> = ({ user }) => {
           }} />
           {activeTab === 'chats' ? (
             <div className="p-2">
-              {(!conversations || conversations.length === 0) ? (
+              {(!conversations || conversations.length === 0) && orderThreads.length === 0 ? (
                 <div className="text-center py-8 text-muted-foreground">
                   <MessageSquare className="w-6 h-6 mx-auto mb-2 opacity-50" />
                   {!sidebarCollapsed && <p className="text-xs">No conversations yet</p>}
                 </div>
               ) : (
-                conversations.map((conversation, index) => (
+                <>
+                {conversations.map((conversation, index) => (
                   <div
                     key={`${conversation._id}-${conversation.type}-${index}`}
                     onClick={() => selectConversation(conversation)}
@@ -596,7 +674,60 @@ const Messages: React.FC<MessagesProps> = ({ user }) => {
                       </div>
                     )}
                   </div>
-                ))
+                ))}
+
+                {/* Order threads */}
+                {orderThreads.length > 0 && (
+                  <div className="mt-2 pt-2 border-t">
+                    {!sidebarCollapsed && (
+                      <h3 className="text-xs font-semibold text-muted-foreground px-3 mb-1 flex items-center">
+                        <Package className="w-3 h-3 mr-2" />
+                        Orders
+                      </h3>
+                    )}
+                    {orderThreads.map(thread => (
+                      <div
+                        key={`order-${thread._id}`}
+                        onClick={() => selectConversation(thread)}
+                        className={`
+                          ${sidebarCollapsed ? 'p-2 mb-1 flex justify-center' : 'p-3 mb-1 flex items-center space-x-3'}
+                          rounded-lg cursor-pointer transition-all duration-200 hover:bg-accent
+                          ${selectedConversation?._id === thread._id ? 'bg-accent' : ''}
+                        `}
+                        title={sidebarCollapsed ? thread.name : undefined}
+                      >
+                        <div className="relative">
+                          <div className={`${sidebarCollapsed ? 'w-9 h-9' : 'w-10 h-10'} bg-primary/10 rounded-full flex items-center justify-center flex-shrink-0`}>
+                            <Package className="w-4 h-4 text-primary" />
+                          </div>
+                          {sidebarCollapsed && thread.unreadCount > 0 && (
+                            <span className="absolute -top-1 -right-2 bg-constructive text-primary-foreground text-xs w-5 h-5 rounded-full flex items-center justify-center">
+                              {thread.unreadCount > 9 ? '9+' : thread.unreadCount}
+                            </span>
+                          )}
+                        </div>
+                        {!sidebarCollapsed && (
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center justify-between">
+                              <p className="text-sm font-medium truncate">
+                                {thread.name} · {thread.order?.store?.name || thread.order?.store?.username}
+                              </p>
+                              {thread.unreadCount > 0 && (
+                                <span className="bg-constructive text-primary-foreground text-xs px-2 py-1 rounded-full flex-shrink-0">
+                                  {thread.unreadCount}
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {thread.lastMessage?.content || 'No messages yet'}
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                </>
               )}
             </div>
           ) : (
@@ -860,6 +991,9 @@ const Messages: React.FC<MessagesProps> = ({ user }) => {
           <>
             {/* Chat Header */}
             <div className="p-4 border-b bg-card/50 backdrop-blur-sm flex items-center">
+              {selectedConversation.type === 'order' && selectedConversation.order ? (
+                <OrderThreadHeader order={selectedConversation.order} />
+              ) : (
               <div className="flex items-center space-x-3 flex-1 min-w-0">
                 {selectedConversation.avatar && selectedConversation.avatar.trim() !== '' ? (
                   <AvatarLink
@@ -914,6 +1048,7 @@ const Messages: React.FC<MessagesProps> = ({ user }) => {
                   </p>
                 </div>
               </div>
+              )}
             </div>
 
             {/* Messages */}
@@ -986,6 +1121,9 @@ const Messages: React.FC<MessagesProps> = ({ user }) => {
                           : 'bg-muted rounded-bl-sm'
                           }`}
                       >
+                        {!isCurrentUser && selectedConversation.type === 'order' && (
+                          <p className="text-xs font-semibold mb-1">{msg.senderName || msg.senderId?.name || msg.senderId?.username}</p>
+                        )}
                         <p className="text-sm break-words">{messageContent}</p>
                         <div className={`flex items-center justify-end mt-1 space-x-2 ${isCurrentUser ? 'text-primary-foreground/70' : 'text-muted-foreground'
                           }`}>
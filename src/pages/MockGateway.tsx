@@ -0,0 +1,88 @@
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CreditCard, CheckCircle, XCircle, Ban } from 'lucide-react';
+import { formatPersianCurrency } from '@/lib/utils';
+
+// Only send the customer back into this app
+const isSafeCallback = (callback: string | null): callback is string => {
+  if (!callback) return false;
+  try {
+    return new URL(callback).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Stand-in payment page for the built-in mock gateway
+ * Plays the provider's part: the customer picks an outcome and is sent back
+ * to the callback with the same parameters a real provider would add.
+ */
+const MockGateway: React.FC = () => {
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const authority = searchParams.get('authority');
+  const amount = Number(searchParams.get('amount')) || 0;
+  const callback = searchParams.get('callback');
+
+  const finish = (status: 'OK' | 'NOK' | 'CANCELED') => {
+    if (!authority || !isSafeCallback(callback)) return;
+    const url = new URL(callback);
+    url.searchParams.set('authority', authority);
+    url.searchParams.set('status', status);
+    window.location.replace(url.toString());
+  };
+
+  if (!authority || !isSafeCallback(callback)) {
+    return (
+      <div className="max-w-md mx-auto py-12 text-center text-muted-foreground">
+        {t('components.payment.invalidSession')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto py-12">
+      <Card>
+        <CardHeader className="text-center space-y-2">
+          <Badge variant="outline" className="mx-auto">{t('components.payment.testMode')}</Badge>
+          <CardTitle className="flex items-center justify-center gap-2">
+            <CreditCard className="w-5 h-5" />
+            {t('components.payment.mockGateway')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">{t('components.payment.amount')}</span>
+            <span className="font-semibold">{formatPersianCurrency(amount)}</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">{t('components.payment.authority')}</span>
+            <span className="font-mono text-xs">{authority}</span>
+          </div>
+
+          <div className="space-y-2 pt-2">
+            <Button className="w-full bg-green-600 hover:bg-green-700 text-white" onClick={() => finish('OK')}>
+              <CheckCircle className="w-4 h-4 mr-2" />
+              {t('components.payment.simulateSuccess')}
+            </Button>
+            <Button variant="destructive" className="w-full" onClick={() => finish('NOK')}>
+              <XCircle className="w-4 h-4 mr-2" />
+              {t('components.payment.simulateFailure')}
+            </Button>
+            <Button variant="outline" className="w-full" onClick={() => finish('CANCELED')}>
+              <Ban className="w-4 h-4 mr-2" />
+              {t('components.payment.simulateCancel')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MockGateway;
@@ -1,26 +1,50 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { toast } from 'react-toastify';
+import { useSearchParams } from 'react-router-dom';
 import { orderAPI } from '../services/api';
 import OrderCardStaff from '../components/OrderCardStaff';
 import OrderCardCustomer from '../components/OrderCardCustomer';
-import OrderFilters, { OrderFilters as OrderFiltersType } from '../components/OrderFilters';
+import OrderGroupCard from '../components/OrderGroupCard';
+import DriverDispatch from '../components/DriverDispatch';
+import OrderExportMenu from '../components/OrderExportMenu';
+import BulkOrderActions from '../components/BulkOrderActions';
+import SlaAlertBanner from '../components/SlaAlertBanner';
+import OrderFilters, { OrderFilters as OrderFiltersType, ORDER_FILTER_SCHEMA } from '../components/OrderFilters';
 import { Button } from '../components/ui/button';
 import { Card, CardContent } from '../components/ui/card';
+import { Checkbox } from '../components/ui/checkbox';
 import { Badge } from '../components/ui/badge';
-import { Grid, List, Eye, Clock, MapPin, DollarSign } from 'lucide-react';
+import { Grid, List, Eye, Clock, MapPin, DollarSign, Wifi, WifiOff, CalendarClock, Map as MapIcon } from 'lucide-react';
 import { formatPersianDateTime, formatPersianCurrency } from '@/lib/utils';
 import { useTranslation } from 'react-i18next';
-
-// Custom hook for batch progress updates
-const useBatchProgressUpdates = (orders: any[]) => {
+import { useOrderRealtime } from '../hooks/useOrderRealtime';
+import { useUrlFilters } from '../hooks/useUrlFilters';
+import { useSlaMonitor } from '../hooks/useSlaMonitor';
+import { debounce } from '../utils/performanceUtils';
+import { isAwaitingSchedule } from '../utils/schedule';
+import { filterOrders } from '../utils/orderFilters';
+import { groupOrderHistory } from '../utils/orderGroups';
+
+// Custom hook for batch progress updates: socket ticks, polling only while the socket is down
+const useBatchProgressUpdates = (orders: any[], onStatusChange: () => void) => {
   const [progressData, setProgressData] = useState<Record<string, any>>({});
+  const orderIds = useMemo(() => orders.map(order => order._id), [orders]);
+
+  const { connected } = useOrderRealtime((event) => {
+    if (event.type === 'progress') {
+      if (event.progress) {
+        setProgressData(prev => ({ ...prev, [event.orderId]: event.progress }));
+      }
+    } else {
+      onStatusChange();
+    }
+  }, orderIds);
 
   useEffect(() => {
-    if (orders.length === 0) return;
+    if (orders.length === 0 || connected) return;
 
     const updateProgress = async () => {
       try {
-        const orderIds = orders.map(order => order._id);
         const response = await orderAPI.getOrdersProgress(orderIds);
         if (response.success && response.data) {
           const progressMap: Record<string, any> = {};
@@ -37,13 +61,13 @@ const useBatchProgressUpdates = (orders: any[]) => {
     // Update immediately
     updateProgress();
 
-    // Update every 2 seconds for batch updates
+    // Fallback polling every 2 seconds until the socket reconnects
     const interval = setInterval(updateProgress, 2000);
 
     return () => clearInterval(interval);
-  }, [orders]);
+  }, [orders, connected]);
 
-  return progressData;
+  return { progressData, connected };
 };
 
 interface OrdersProps {
@@ -56,115 +80,81 @@ const Orders: React.FC<OrdersProps> = ({ user }) => {
   const [orders, setOrders] = useState<any[]>([]);
   const [availableOrders, setAvailableOrders] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filters, setFilters] = useState<OrderFiltersType>(user?.role === 'store' ? { status: ['placed', 'accepted'] } : {});
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [searchParams] = useSearchParams();
+  // Receipt QR codes link here with ?order=<id>; it becomes a search, whatever the order's status
+  const linkedOrderId = searchParams.get('order');
+  const { filters, setFilters } = useUrlFilters<OrderFiltersType>(
+    ORDER_FILTER_SCHEMA,
+    user?.role === 'store' ? { status: ['placed', 'accepted'] } : {},
+    { initial: linkedOrderId ? { searchTerm: linkedOrderId, status: [] } : undefined, consumeParams: ['order'] }
+  );
+  const [viewMode, setViewMode] = useState<'grid' | 'list' | 'map'>('grid');
   const [activeTab, setActiveTab] = useState<'assigned' | 'available'>('assigned');
+  const [now, setNow] = useState(() => new Date());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Status events reload the list; bursts are coalesced into one request
+  const reloadOrders = useMemo(() => debounce(() => loadOrders(), 500), [user]);
 
   // Use batch progress updates
-  const progressData = useBatchProgressUpdates(orders);
+  const { progressData, connected } = useBatchProgressUpdates(orders, reloadOrders);
+  const { alerts: slaAlerts } = useSlaMonitor(orders, progressData, {
+    enabled: user?.role === 'store' || user?.role === 'staff'
+  });
 
   useEffect(() => {
     loadOrders();
   }, [user]);
 
+  // Re-evaluate the scheduled lane every minute so orders move out on time
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Dispatch map is only offered for a driver's available orders
+  const showDispatchMap = user?.role === 'driver' && activeTab === 'available';
+
   // Determine which orders to display based on active tab
   const displayOrders = user?.role === 'driver' && activeTab === 'available' ? availableOrders : orders;
   const displayFilteredOrders = useMemo(() => {
     const ordersArray = Array.isArray(displayOrders) ? displayOrders : [];
-    return ordersArray.filter((order) => {
-      // Status filter
-      if (filters.status && filters.status.length > 0 && !filters.status.includes(order.status)) {
-        return false;
-      }
-
-      // Date and time range filter
-      if (filters.dateFrom || filters.dateTo || filters.timeFrom || filters.timeTo) {
-        const orderDate = new Date(order.datePlaced);
-
-        // Date filtering
-        if (filters.dateFrom) {
-          const fromDate = new Date(filters.dateFrom);
-          if (filters.timeFrom) {
-            const [hours, minutes] = filters.timeFrom.split(':');
-            fromDate.setHours(parseInt(hours), parseInt(minutes), 0, 0);
-          } else {
-            fromDate.setHours(0, 0, 0, 0); // Start of day
-          }
-          if (orderDate < fromDate) return false;
-        }
-
-        if (filters.dateTo) {
-          const toDate = new Date(filters.dateTo);
-          if (filters.timeTo) {
-            const [hours, minutes] = filters.timeTo.split(':');
-            toDate.setHours(parseInt(hours), parseInt(minutes), 59, 999);
-          } else {
-            toDate.setHours(23, 59, 59, 999); // End of day
-          }
-          if (orderDate > toDate) return false;
-        }
-
-        // Time-only filtering (if dates are not set but times are)
-        if (!filters.dateFrom && !filters.dateTo && (filters.timeFrom || filters.timeTo)) {
-          const orderTime = orderDate.getHours() * 60 + orderDate.getMinutes();
-
-          if (filters.timeFrom) {
-            const [hours, minutes] = filters.timeFrom.split(':');
-            const fromTime = parseInt(hours) * 60 + parseInt(minutes);
-            if (orderTime < fromTime) return false;
-          }
-
-          if (filters.timeTo) {
-            const [hours, minutes] = filters.timeTo.split(':');
-            const toTime = parseInt(hours) * 60 + parseInt(minutes);
-            if (orderTime > toTime) return false;
-          }
-        }
-      }
-
-      // Price range filter
-      if (filters.priceMin || filters.priceMax) {
-        const orderAmount = Number(order.amount || 0);
-        const minPrice = filters.priceMin ? Number(filters.priceMin) : null;
-        const maxPrice = filters.priceMax ? Number(filters.priceMax) : null;
-
-        if (minPrice !== null && orderAmount < minPrice) return false;
-        if (maxPrice !== null && orderAmount > maxPrice) return false;
-      }
-
-      // Order type filter
-      if (filters.orderType) {
-        const isTakeout = filters.orderType === 'delivery';
-        if (order.isTakeout !== isTakeout) return false;
-      }
-
-      // Driver assignment filter (for stores and drivers)
-      if (filters.hasDriver && (user?.role === 'store' || user?.role === 'driver')) {
-        const hasDriver = !!order.driver;
-        const shouldHaveDriver = filters.hasDriver === 'assigned';
-        if (hasDriver !== shouldHaveDriver) return false;
-      }
+    return filterOrders(ordersArray, filters, user?.role);
+  }, [displayOrders, filters, user]);
 
-      // Search term filter
-      if (filters.searchTerm) {
-        const searchTerm = filters.searchTerm.toLowerCase();
-        const matchesOrderId = order._id.toLowerCase().includes(searchTerm);
-        const matchesOrderName = order.orderName?.toLowerCase().includes(searchTerm);
+  // Stores keep future orders in their own lane until shortly before the slot
+  const hasScheduledLane = user?.role === 'store' || user?.role === 'staff' || user?.role === 'admin';
+  const { scheduledLane, activeOrders } = useMemo(() => {
+    if (!hasScheduledLane) {
+      return { scheduledLane: [], activeOrders: displayFilteredOrders };
+    }
+    const lane = displayFilteredOrders
+      .filter(order => isAwaitingSchedule(order, now))
+      .sort((a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime());
+    return {
+      scheduledLane: lane,
+      activeOrders: displayFilteredOrders.filter(order => !lane.includes(order))
+    };
+  }, [displayFilteredOrders, hasScheduledLane, now]);
 
-        let matchesCustomer = false;
-        if (user?.role !== 'customer') {
-          matchesCustomer = order.user?.name?.toLowerCase().includes(searchTerm) ||
-            order.user?.username?.toLowerCase().includes(searchTerm);
-        }
+  // Customers see the store orders of one checkout-all together
+  const isCustomerView = user?.role === 'customer' || !user || user?.role === 'guest';
+  const historyEntries = useMemo(
+    () => isCustomerView ? groupOrderHistory(activeOrders) : activeOrders.map(order => ({ groupId: null, orders: [order] })),
+    [activeOrders, isCustomerView]
+  );
 
-        if (!matchesOrderId && !matchesOrderName && !matchesCustomer) {
-          return false;
-        }
-      }
+  // Stores can select orders and act on them in bulk
+  const bulkEnabled = user?.role === 'store';
 
-      return true;
+  const toggleSelected = (orderId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(orderId);
+      else next.delete(orderId);
+      return next;
     });
-  }, [displayOrders, filters, user]);
+  };
 
   const handleFiltersChange = (newFilters: OrderFiltersType) => {
     setFilters(newFilters);
@@ -209,6 +199,52 @@ const Orders: React.FC<OrdersProps> = ({ user }) => {
     }
   };
 
+  const renderOrderCard = (order: any) => {
+    // Merge order data with real-time progress data
+    const progress = progressData[order._id] || {};
+    const orderWithProgress = {
+      ...order,
+      progressPrepare: progress.progressPrepare !== undefined ? progress.progressPrepare : order.progressPrepare || 0,
+      progressPickup: progress.progressPickup !== undefined ? progress.progressPickup : order.progressPickup || 0,
+      progressDeliver: progress.progressDeliver !== undefined ? progress.progressDeliver : order.progressDeliver || 0,
+      minutesLeftPrepare: progress.minutesLeftPrepare !== undefined ? progress.minutesLeftPrepare : order.minutesLeftPrepare,
+      minutesLeftPickup: progress.minutesLeftPickup !== undefined ? progress.minutesLeftPickup : order.minutesLeftPickup,
+      minutesLeftDeliver: progress.minutesLeftDeliver !== undefined ? progress.minutesLeftDeliver : order.minutesLeftDeliver
+    };
+
+    if (isCustomerView) {
+      return (
+        <OrderCardCustomer
+          key={order._id}
+          order={orderWithProgress}
+          onUpdate={loadOrders}
+        />
+      );
+    } else {
+      return (
+        <OrderCardStaff
+          key={order._id}
+          order={orderWithProgress}
+          user={user}
+          onUpdate={loadOrders}
+        />
+      );
+    }
+  };
+
+  const renderSelectableCard = (order: any) => {
+    if (!bulkEnabled) return renderOrderCard(order);
+    const selected = selectedIds.has(order._id);
+    return (
+      <div key={order._id} className={`relative rounded-xl ${selected ? 'ring-2 ring-primary' : ''}`}>
+        <div className="absolute top-3 left-3 z-10 rounded bg-background/80 p-1">
+          <Checkbox checked={selected} onCheckedChange={(checked) => toggleSelected(order._id, checked)} />
+        </div>
+        {renderOrderCard(order)}
+      </div>
+    );
+  };
+
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-64">
@@ -222,11 +258,18 @@ const Orders: React.FC<OrdersProps> = ({ user }) => {
       <div className="flex items-center justify-between mb-8">
         <h1 className="text-3xl font-bold">Orders</h1>
         <div className="flex items-center space-x-4">
+          <Badge variant="outline" className="flex items-center gap-1">
+            {connected ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
+            {connected ? t('components.realtime.live') : t('components.realtime.polling')}
+          </Badge>
           {displayFilteredOrders.length !== displayOrders.length && (
             <div className="text-sm text-muted-foreground">
               Showing {displayFilteredOrders.length} of {displayOrders.length} orders
             </div>
           )}
+          {(user?.role === 'store' || user?.role === 'admin') && (
+            <OrderExportMenu orders={displayFilteredOrders} />
+          )}
           {/* View Mode Toggle */}
           <div className="flex items-center space-x-2">
             <Button
@@ -243,6 +286,15 @@ const Orders: React.FC<OrdersProps> = ({ user }) => {
             >
               <List className="w-4 h-4" />
             </Button>
+            {showDispatchMap && (
+              <Button
+                variant={viewMode === 'map' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setViewMode('map')}
+              >
+                <MapIcon className="w-4 h-4" />
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -276,54 +328,55 @@ const Orders: React.FC<OrdersProps> = ({ user }) => {
         onReset={handleResetFilters}
       />
 
+      <SlaAlertBanner alerts={slaAlerts} />
+
+      {bulkEnabled && (
+        <BulkOrderActions
+          orders={displayFilteredOrders}
+          role={user.role}
+          selectedIds={selectedIds}
+          onSelectionChange={setSelectedIds}
+          onComplete={loadOrders}
+        />
+      )}
+
+      {scheduledLane.length > 0 && (
+        <div className="mb-8 rounded-xl border border-primary/20 bg-primary/5 p-4">
+          <h2 className="text-lg font-semibold flex items-center gap-2 mb-4 text-primary">
+            <CalendarClock className="w-5 h-5" />
+            {t('components.scheduledOrder.lane', { count: scheduledLane.length })}
+          </h2>
+          <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2 xl:grid-cols-3">
+            {scheduledLane.map(renderSelectableCard)}
+          </div>
+        </div>
+      )}
+
       {loading ? (
         <div className="flex justify-center items-center min-h-64">
           <div className="text-lg">Loading orders...</div>
         </div>
-      ) : displayFilteredOrders.length === 0 ? (
-        <div className="text-center text-muted-foreground py-12">
-          {displayOrders.length === 0 ? `No ${activeTab} orders found` : 'No orders match the current filters'}
-        </div>
-      ) : viewMode === 'grid' ? (
+      ) : activeOrders.length === 0 ? (
+        scheduledLane.length === 0 && (
+          <div className="text-center text-muted-foreground py-12">
+            {displayOrders.length === 0 ? `No ${activeTab} orders found` : 'No orders match the current filters'}
+          </div>
+        )
+      ) : viewMode === 'map' && showDispatchMap ? (
+        <DriverDispatch orders={activeOrders} user={user} onUpdate={loadOrders} />
+      ) : viewMode === 'grid' || viewMode === 'map' ? (
         <div className="grid gap-6 md:grid-cols-1 lg:grid-cols-2 xl:grid-cols-3">
-          {displayFilteredOrders.map((order) => {
-            // Merge order data with real-time progress data
-            const progress = progressData[order._id] || {};
-            const orderWithProgress = {
-              ...order,
-              progressPrepare: progress.progressPrepare !== undefined ? progress.progressPrepare : order.progressPrepare || 0,
-              progressPickup: progress.progressPickup !== undefined ? progress.progressPickup : order.progressPickup || 0,
-              progressDeliver: progress.progressDeliver !== undefined ? progress.progressDeliver : order.progressDeliver || 0,
-              minutesLeftPrepare: progress.minutesLeftPrepare !== undefined ? progress.minutesLeftPrepare : order.minutesLeftPrepare,
-              minutesLeftPickup: progress.minutesLeftPickup !== undefined ? progress.minutesLeftPickup : order.minutesLeftPickup,
-              minutesLeftDeliver: progress.minutesLeftDeliver !== undefined ? progress.minutesLeftDeliver : order.minutesLeftDeliver
-            };
-
-            if (user?.role === 'customer' || !user || user?.role === 'guest') {
-              return (
-                <OrderCardCustomer
-                  key={order._id}
-                  order={orderWithProgress}
-                  onUpdate={loadOrders}
-                />
-              );
-            } else {
-              return (
-                <OrderCardStaff
-                  key={order._id}
-                  order={orderWithProgress}
-                  user={user}
-                  onUpdate={loadOrders}
-                />
-              );
-            }
-          })}
+          {historyEntries.map(entry => entry.groupId ? (
+            <OrderGroupCard key={entry.groupId} orders={entry.orders}>
+              {entry.orders.map(renderSelectableCard)}
+            </OrderGroupCard>
+          ) : renderSelectableCard(entry.orders[0]))}
         </div>
       ) : (
         <Card>
           <CardContent className="p-0">
             <div className="divide-y">
-              {displayFilteredOrders.map((order) => {
+              {activeOrders.map((order) => {
                 // Merge order data with real-time progress data
                 const orderWithProgress = { ...order, ...progressData[order._id] };
 
@@ -333,8 +386,6 @@ const Orders: React.FC<OrdersProps> = ({ user }) => {
                       return <Badge className="bg-blue-500">Placed</Badge>;
                     case 'accepted':
                       return <Badge className="bg-yellow-500">Accepted</Badge>;
-                    case 'accepted-by-driver':
-                      return <Badge className="bg-indigo-500">Driver Accepted</Badge>;
                     case 'prepared':
                       return <Badge className="bg-orange-500">Prepared</Badge>;
                     case 'pickedup':
@@ -353,6 +404,14 @@ const Orders: React.FC<OrdersProps> = ({ user }) => {
                 return (
                   <div key={order._id} className="p-4 hover:bg-muted/50">
                     <div className="flex items-center justify-between">
+                      {bulkEnabled && (
+                        <div className="mr-3">
+                          <Checkbox
+                            checked={selectedIds.has(order._id)}
+                            onCheckedChange={(checked) => toggleSelected(order._id, checked)}
+                          />
+                        </div>
+                      )}
                       <div className="flex-1">
                         <div className="flex items-center space-x-3 mb-2">
                           <h3 className="font-medium">Order #{order._id.slice(-8)}</h3>
@@ -360,6 +419,9 @@ const Orders: React.FC<OrdersProps> = ({ user }) => {
                           <Badge variant="outline" className="text-xs">
                             {order.isTakeout ? 'Delivery' : 'In-store'}
                           </Badge>
+                          {isCustomerView && order.orderGroup && (
+                            <Badge variant="secondary" className="text-xs">{t('components.orderGroup.badge')}</Badge>
+                          )}
                         </div>
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-muted-foreground">
                           <div className="flex items-center space-x-2">
@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, XCircle, Loader2, RotateCcw } from 'lucide-react';
+import { Payment } from '../services/api';
+import { PaymentService } from '../services/paymentService';
+import { loadGuestTrackingLinks } from '../utils/guestTracking';
+import { formatPersianCurrency, toPersianNumbers } from '@/lib/utils';
+
+/**
+ * Return route for payment gateways - verifies the callback and shows the outcome
+ */
+const PaymentCallback: React.FC = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [verifying, setVerifying] = useState(true);
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [retrying, setRetrying] = useState(false);
+  // A callback must be verified once, even if the effect runs twice
+  const verifiedRef = useRef(false);
+
+  const orderId = searchParams.get('orderId');
+  const gatewayId = searchParams.get('gateway');
+  // Rest of a checkout-all group, paid one gateway visit at a time
+  const pending = PaymentService.getPendingPayments();
+  const hasTrackingLinks = loadGuestTrackingLinks().length > 0;
+
+  useEffect(() => {
+    if (verifiedRef.current) return;
+    verifiedRef.current = true;
+
+    PaymentService.verifyCallback(searchParams)
+      .then(setPayment)
+      .finally(() => setVerifying(false));
+  }, []);
+
+  const handleRetry = async () => {
+    if (!orderId || !gatewayId) return;
+    setRetrying(true);
+    const started = await PaymentService.startPayment(orderId, gatewayId);
+    if (!started) setRetrying(false);
+  };
+
+  const handlePayNext = async () => {
+    setRetrying(true);
+    const started = await PaymentService.payNextPending();
+    if (!started) setRetrying(false);
+  };
+
+  if (verifying) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[300px] gap-3 text-muted-foreground">
+        <Loader2 className="w-8 h-8 animate-spin" />
+        {t('components.payment.verifying')}
+      </div>
+    );
+  }
+
+  const paid = payment?.status === 'paid';
+  const message = !payment
+    ? t('components.payment.verifyFailed')
+    : paid
+      ? t('components.payment.paid')
+      : payment.status === 'canceled'
+        ? t('components.payment.canceled')
+        : t('components.payment.failed');
+
+  return (
+    <div className="max-w-md mx-auto py-12">
+      <Card>
+        <CardContent className="pt-6 space-y-4 text-center">
+          {paid ? (
+            <CheckCircle className="w-14 h-14 mx-auto text-green-600" />
+          ) : (
+            <XCircle className="w-14 h-14 mx-auto text-destructive" />
+          )}
+          <p className="text-lg font-semibold">{message}</p>
+
+          {payment && (
+            <div className="text-sm space-y-1 text-left border-t pt-4">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">{t('components.payment.amount')}</span>
+                <span>{formatPersianCurrency(payment.amount)}</span>
+              </div>
+              {payment.refId && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">{t('components.payment.refId')}</span>
+                  <span className="font-mono">{payment.refId}</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {pending.length > 0 && (
+            <div className="space-y-2 border-t pt-4">
+              <p className="text-sm text-muted-foreground">
+                {t('components.payment.nextPending', { count: pending.length, orders: toPersianNumbers(pending.length) })}
+              </p>
+              <Button className="w-full" disabled={retrying} onClick={handlePayNext}>
+                {t('components.payment.payNext', { store: pending[0].storeName })}
+              </Button>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            {!paid && orderId && gatewayId && (
+              <Button variant="outline" className="flex-1" disabled={retrying} onClick={handleRetry}>
+                {retrying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+                {t('components.payment.retry')}
+              </Button>
+            )}
+            {hasTrackingLinks ? (
+              <Button className="flex-1" variant={pending.length > 0 ? 'outline' : 'default'} onClick={() => navigate('/cart')}>
+                {t('components.payment.trackingLinks')}
+              </Button>
+            ) : (
+              <Button className="flex-1" variant={pending.length > 0 ? 'outline' : 'default'} onClick={() => navigate('/orders')}>
+                {t('components.payment.viewOrders')}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PaymentCallback;
@@ -11,6 +11,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Input } from '@/components/ui/input';
 import { Plus, Heart, Eye, ChevronUp, ChevronDown } from 'lucide-react';
 import FilterHeader from '../components/FilterHeader';
+import { useUrlFilters, FilterSchema } from '../hooks/useUrlFilters';
 import { formatPersianDate, formatPersianCurrency, toPersianNumbers } from '@/lib/utils';
 import AddProductCard from '@/components/AddProductCard';
 import EditProductCard from '@/components/EditProductCard';
@@ -20,6 +21,57 @@ interface ProductsProps {
   user: any;
 }
 
+type ProductFilters = {
+  q: string;
+  category: string;
+  sort: string;
+  store: string;
+  availability: string;
+  dateFrom: string;
+  dateTo: string;
+  priceMin: string;
+  priceMax: string;
+  stockMin: string;
+  stockMax: string;
+  tags: string[];
+  brand: string;
+  currency: string;
+};
+
+const PRODUCT_FILTER_SCHEMA: FilterSchema<ProductFilters> = {
+  q: 'string',
+  category: 'string',
+  sort: 'string',
+  store: 'string',
+  availability: 'string',
+  dateFrom: 'string',
+  dateTo: 'string',
+  priceMin: 'string',
+  priceMax: 'string',
+  stockMin: 'string',
+  stockMax: 'string',
+  tags: 'array',
+  brand: 'string',
+  currency: 'string'
+};
+
+const PRODUCT_FILTER_DEFAULTS: ProductFilters = {
+  q: '',
+  category: '',
+  sort: 'name',
+  store: '',
+  availability: '',
+  dateFrom: '',
+  dateTo: '',
+  priceMin: '',
+  priceMax: '',
+  stockMin: '',
+  stockMax: '',
+  tags: [],
+  brand: '',
+  currency: ''
+};
+
 const Products: React.FC<ProductsProps> = ({ user }) => {
   const { t } = useTranslation();
 
@@ -33,20 +85,24 @@ const Products: React.FC<ProductsProps> = ({ user }) => {
   const [products, setProducts] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const { storeCarts, handleAddToCart, getCartItemCount } = useCart();
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('');
-  const [sortBy, setSortBy] = useState('name');
-  const [selectedStore, setSelectedStore] = useState('');
-  const [selectedAvailability, setSelectedAvailability] = useState('');
-  const [dateFrom, setDateFrom] = useState('');
-  const [dateTo, setDateTo] = useState('');
-  const [priceMin, setPriceMin] = useState('');
-  const [priceMax, setPriceMax] = useState('');
-  const [stockMin, setStockMin] = useState('');
-  const [stockMax, setStockMax] = useState('');
-  const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [selectedBrand, setSelectedBrand] = useState('');
-  const [selectedCurrency, setSelectedCurrency] = useState('');
+  // Filters live in the query string so they survive reload and can be shared
+  const { filters, setFilters, setFilter } = useUrlFilters(PRODUCT_FILTER_SCHEMA, PRODUCT_FILTER_DEFAULTS);
+  const { q: searchTerm, category: selectedCategory, sort: sortBy, store: selectedStore, availability: selectedAvailability,
+    dateFrom, dateTo, priceMin, priceMax, stockMin, stockMax, tags: selectedTags, brand: selectedBrand, currency: selectedCurrency } = filters;
+  const setSearchTerm = (value: string) => setFilter('q', value);
+  const setSelectedCategory = (value: string) => setFilter('category', value);
+  const setSortBy = (value: string) => setFilter('sort', value);
+  const setSelectedStore = (value: string) => setFilter('store', value);
+  const setSelectedAvailability = (value: string) => setFilter('availability', value);
+  const setDateFrom = (value: string) => setFilter('dateFrom', value);
+  const setDateTo = (value: string) => setFilter('dateTo', value);
+  const setPriceMin = (value: string) => setFilter('priceMin', value);
+  const setPriceMax = (value: string) => setFilter('priceMax', value);
+  const setStockMin = (value: string) => setFilter('stockMin', value);
+  const setStockMax = (value: string) => setFilter('stockMax', value);
+  const setSelectedTags = (value: string[] | ((prev: string[]) => string[])) => setFilter('tags', value);
+  const setSelectedBrand = (value: string) => setFilter('brand', value);
+  const setSelectedCurrency = (value: string) => setFilter('currency', value);
   const [showAddModal, setShowAddModal] = useState(false);
   const [tagsExpanded, setTagsExpanded] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
@@ -347,6 +403,11 @@ const Products: React.FC<ProductsProps> = ({ user }) => {
               }}
               viewMode={viewMode}
               onViewModeChange={setViewMode}
+              presets={{
+                scope: 'products',
+                filters,
+                onApply: (preset) => setFilters({ ...PRODUCT_FILTER_DEFAULTS, ...preset })
+              }}
             >
               {/* Search Row */}
               <div className="flex flex-col sm:flex-row gap-3">
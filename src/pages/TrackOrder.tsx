@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'react-toastify';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle, Loader2, Phone, Store, Truck, XCircle } from 'lucide-react';
+import { trackingAPI, TrackedOrder } from '../services/api';
+import { logError } from '../services/logger';
+import { OrderStateMachine } from '../services/orderStateMachine';
+import LiveTrackingMap from '../components/LiveTrackingMap';
+import { toGeoPoint } from '../utils/geo';
+import { formatPersianCurrency, formatPersianDateTime, toPersianNumbers } from '@/lib/utils';
+
+const REFRESH_INTERVAL = 20000;
+// Backend answers for a bad, expired or revoked tracking token; anything else is worth retrying
+const REJECTED_TOKEN_STATUSES = [401, 403, 404];
+
+interface ProgressRowProps {
+  label: string;
+  value?: number;
+  minutesLeft?: number;
+}
+
+const ProgressRow: React.FC<ProgressRowProps> = ({ label, value = 0, minutesLeft }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span>{toPersianNumbers(Math.round(value))}٪</span>
+      </div>
+      <Progress value={value} className="h-2" />
+      {!!minutesLeft && minutesLeft > 0 && (
+        <p className="text-xs text-muted-foreground text-end">
+          {t('components.trackOrder.minutesLeft', { minutes: toPersianNumbers(Math.round(minutesLeft)) })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Public order tracking page - opened from the guest checkout link or the receipt QR
+ */
+const TrackOrder: React.FC = () => {
+  const { t } = useTranslation();
+  const { orderId = '' } = useParams<{ orderId: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [order, setOrder] = useState<TrackedOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [confirming, setConfirming] = useState(false);
+
+  const terminal = order ? OrderStateMachine.isTerminal(order.status) : false;
+
+  useEffect(() => {
+    if (!token) {
+      setLoading(false);
+      return;
+    }
+
+    const loadOrder = async () => {
+      try {
+        const response = await trackingAPI.get(orderId, token);
+        setOrder(response.success ? response.data || null : null);
+      } catch (error: any) {
+        logError(error, 'TrackOrder.load');
+        // Keep showing the last good state through network hiccups between polls
+        if (REJECTED_TOKEN_STATUSES.includes(error.status)) {
+          setOrder(null);
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadOrder();
+    if (terminal) return;
+    const interval = setInterval(loadOrder, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [orderId, token, terminal]);
+
+  const handleConfirmReceipt = async () => {
+    try {
+      setConfirming(true);
+      const response = await trackingAPI.confirmReceipt(orderId, token);
+      if (response.success && response.data) {
+        setOrder(response.data);
+        toast.success(t('components.trackOrder.receiptConfirmed'));
+      }
+    } catch (error: any) {
+      logError(error, 'TrackOrder.confirmReceipt');
+      toast.error(error.message || t('components.trackOrder.confirmFailed'));
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[300px] gap-3 text-muted-foreground">
+        <Loader2 className="w-8 h-8 animate-spin" />
+        {t('components.trackOrder.loading')}
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="max-w-md mx-auto py-12">
+        <Card>
+          <CardContent className="flex flex-col items-center gap-3 py-8 text-center">
+            <XCircle className="w-10 h-10 text-destructive" />
+            <p className="font-semibold">{t('components.trackOrder.invalidLink')}</p>
+            <p className="text-sm text-muted-foreground">{t('components.trackOrder.invalidLinkHint')}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const canceled = OrderStateMachine.isCanceled(order.status) || order.status === 'rejected';
+  const showPrepare = ['placed', 'accepted'].includes(order.status);
+  const showPickup = order.isTakeout && !!order.driver && ['placed', 'accepted', 'prepared'].includes(order.status);
+  const showDeliver = order.isTakeout && order.status === 'pickedup';
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <CardTitle className="text-xl">{order.orderName || `#${order._id.slice(-6)}`}</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">{formatPersianDateTime(order.datePlaced)}</p>
+              {order.scheduledFor && (
+                <p className="text-sm text-primary mt-1">
+                  {t('components.scheduledOrder.scheduledFor', { time: formatPersianDateTime(order.scheduledFor) })}
+                </p>
+              )}
+            </div>
+            <Badge variant={canceled ? 'destructive' : 'secondary'}>
+              {t(`components.orderTimeline.status.${order.status}`, { defaultValue: order.status })}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {(showPrepare || showPickup || showDeliver) && (
+            <div className="space-y-3">
+              {showPrepare && (
+                <ProgressRow label={t('components.trackOrder.preparing')} value={order.progressPrepare} minutesLeft={order.minutesLeftPrepare} />
+              )}
+              {showPickup && (
+                <ProgressRow label={t('components.trackOrder.pickup')} value={order.progressPickup} minutesLeft={order.minutesLeftPickup} />
+              )}
+              {showDeliver && (
+                <ProgressRow label={t('components.trackOrder.delivering')} value={order.progressDeliver} minutesLeft={order.minutesLeftDeliver} />
+              )}
+            </div>
+          )}
+
+          {showDeliver && order.driver && (
+            <LiveTrackingMap
+              orderId={order._id}
+              destination={toGeoPoint(order.deliveryLat, order.deliveryLng)}
+              initialDriver={toGeoPoint(order.driver.locationLat, order.driver.locationLng)}
+              trackingToken={token}
+            />
+          )}
+
+          {OrderStateMachine.can(order, 'customer', 'receive') && (
+            <Button className="w-full" disabled={confirming} onClick={handleConfirmReceipt}>
+              {confirming ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+              {t('components.trackOrder.confirmReceipt')}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Contacts */}
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <span className="flex items-center gap-2 text-sm">
+              <Store className="w-4 h-4 text-primary" />
+              {order.store.name || order.store.username}
+            </span>
+            {order.store.phone && (
+              <a href={`tel:${order.store.phone}`} className="flex items-center gap-1 text-sm text-primary">
+                <Phone className="w-4 h-4" />
+                {toPersianNumbers(order.store.phone)}
+              </a>
+            )}
+          </div>
+          {order.isTakeout && (
+            <div className="flex items-center justify-between gap-3">
+              <span className="flex items-center gap-2 text-sm">
+                <Truck className="w-4 h-4 text-primary" />
+                {order.driver ? order.driver.name || order.driver.username : t('components.trackOrder.noDriver')}
+              </span>
+              {order.driver?.phone && (
+                <a href={`tel:${order.driver.phone}`} className="flex items-center gap-1 text-sm text-primary">
+                  <Phone className="w-4 h-4" />
+                  {toPersianNumbers(order.driver.phone)}
+                </a>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Items */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{t('components.trackOrder.items')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          {order.items.map((item, index) => (
+            <div key={item._id || index} className="flex justify-between">
+              <span>{item.product?.name} × {toPersianNumbers(item.quantity)}</span>
+              {item.product?.price !== undefined && <span>{formatPersianCurrency(item.product.price * item.quantity)}</span>}
+            </div>
+          ))}
+          {order.deliveryFee > 0 && (
+            <div className="flex justify-between text-muted-foreground">
+              <span>{t('components.trackOrder.deliveryFee')}</span>
+              <span>{formatPersianCurrency(order.deliveryFee)}</span>
+            </div>
+          )}
+          {!!order.tip && (
+            <div className="flex justify-between text-muted-foreground">
+              <span>{t('components.trackOrder.tip')}</span>
+              <span>{formatPersianCurrency(order.tip)}</span>
+            </div>
+          )}
+          <div className="flex justify-between border-t pt-2 font-semibold">
+            <span>{t('components.trackOrder.total')}</span>
+            <span>{formatPersianCurrency(order.amount + (order.tip || 0))}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {order.payment ? t('components.trackOrder.paid') : t('components.trackOrder.unpaid')}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TrackOrder;
@@ -0,0 +1,60 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { AxiosAdapter, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { trackingAPI } from './api';
+
+// Every request of the shared axios instance goes through this adapter
+const { adapter } = vi.hoisted(() => ({ adapter: vi.fn<AxiosAdapter>() }));
+
+vi.mock('axios', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('axios')>();
+  return {
+    ...actual,
+    default: {
+      ...actual.default,
+      create: (config: Parameters<typeof actual.default.create>[0]) => actual.default.create({ ...config, adapter })
+    }
+  };
+});
+
+const respond = (config: InternalAxiosRequestConfig, status: number, data: unknown) => {
+  const response = { data, status, statusText: '', headers: {}, config };
+  if (status >= 400) {
+    throw new AxiosError('Request failed', AxiosError.ERR_BAD_REQUEST, config, {}, response);
+  }
+  return response;
+};
+
+beforeAll(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  adapter.mockReset();
+});
+
+describe('API error statuses', () => {
+  it('reports a rejected tracking token with the backend status', async () => {
+    adapter.mockImplementation(async (config) => respond(config, 401, { success: false, message: 'Invalid tracking token' }));
+    await expect(trackingAPI.get('order-1', 'expired')).rejects.toMatchObject({ status: 401, message: 'Invalid tracking token' });
+  });
+
+  it('keeps the status of success: false bodies', async () => {
+    adapter.mockImplementation(async (config) => respond(config, 404, { success: false, message: 'Order not found' }));
+    await expect(trackingAPI.get('order-1', 'token')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('reports network failures as unavailable, not as a rejected token', async () => {
+    adapter.mockImplementation(async (config) => {
+      throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {});
+    });
+    await expect(trackingAPI.get('order-1', 'token')).rejects.toMatchObject({ status: 503 });
+  });
+
+  it('resolves successful responses', async () => {
+    adapter.mockImplementation(async (config) => respond(config, 200, { success: true, data: { _id: 'order-1' } }));
+    await expect(trackingAPI.get('order-1', 'token')).resolves.toMatchObject({ success: true, data: { _id: 'order-1' } });
+  });
+});
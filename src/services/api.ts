@@ -152,9 +152,23 @@ export interface Order {
   isTakeout: boolean;
   deliveryFee: number;
   amount: number;
+  // Driver tip, kept apart from deliveryFee and not part of amount
+  tip?: number;
   payment: boolean;
+  // 'online' orders are settled through a payment gateway, 'cash' on delivery/pickup
+  paymentMethod?: PaymentMethod;
   isActive: boolean;
   datePlaced: string;
+  // Signed token for the public tracking page, sent to the order's customer and store
+  trackingToken?: string;
+  // Checkout-all group the order was placed with, shared by its sibling store orders
+  orderGroup?: string | null;
+  // Requested delivery time for scheduled orders, absent for immediate ones
+  scheduledFor?: string | null;
+  // Why the order was canceled
+  cancelReason?: { code: string; note?: string } | null;
+  // Store-proposed item changes waiting for the customer
+  pendingItemChange?: OrderItemChange | null;
   // Progress tracking fields
   progressPrepare?: number;
   progressPickup?: number;
@@ -166,12 +180,170 @@ export interface Order {
   customerRating?: number;
   customerComment?: string;
   customerReactions?: string[];
+  // When the customer left the feedback
+  dateFeedback?: string;
+  // Store's public answer to the customer's comment
+  storeReply?: { text: string; repliedAt: string } | null;
   // Time estimation fields
   datePrepared_byStore_est?: string;
   datePickedup_byDriver_est?: string;
   dateDelivered_byDriver_est?: string;
 }
 
+/**
+ * Outcome of a checkout-all placement, one entry per store cart
+ * Stores reject independently, so a group may be only partly placed.
+ */
+export interface OrderGroupResult {
+  groupId: string;
+  placed: { storeId: string; orderId: string; trackingToken?: string }[];
+  rejected: { storeId: string; message: string }[];
+}
+
+/**
+ * Public view of an order on the tracking page, authorised by its signed token
+ */
+export interface TrackedOrder extends Pick<Order,
+  '_id' | 'orderName' | 'status' | 'items' | 'amount' | 'deliveryFee' | 'tip' | 'isTakeout' | 'payment' | 'datePlaced' |
+  'scheduledFor' | 'deliveryLat' | 'deliveryLng' | 'progressPrepare' | 'progressPickup' | 'progressDeliver' |
+  'minutesLeftPrepare' | 'minutesLeftPickup' | 'minutesLeftDeliver'> {
+  store: { _id: string; name?: string; username: string; phone?: string; avatar?: string };
+  driver?: { _id: string; name?: string; username: string; phone?: string; locationLat?: number; locationLng?: number } | null;
+}
+
+/**
+ * Chat thread attached to an order, shared by the customer, the store (and its staff) and the driver
+ */
+export interface OrderThread {
+  order: Pick<Order, '_id' | 'orderName' | 'status' | 'items' | 'amount' | 'user' | 'store' | 'driver'>;
+  lastMessage?: any;
+  unreadCount: number;
+}
+
+/**
+ * Item edit proposed by the store, e.g. dropping an out-of-stock product
+ */
+export interface OrderItemChange {
+  items: {
+    product: string;
+    name: string;
+    fromQuantity: number;
+    toQuantity: number;
+  }[];
+  previousAmount: number;
+  newAmount: number;
+  note?: string;
+  requestedAt: string;
+}
+
+/**
+ * Order history entry - one row of the per-order audit trail
+ */
+export type OrderHistoryEventType = 'status' | 'time_adjust' | 'payment' | 'cancel' | 'items';
+
+export interface OrderHistoryEvent {
+  _id: string;
+  order: string;
+  type: OrderHistoryEventType;
+  actor?: Pick<User, '_id' | 'username' | 'name' | 'avatar' | 'role'> | null;
+  fromStatus?: OrderStatus;
+  toStatus?: OrderStatus;
+  // Time adjustments
+  target?: 'prepare' | 'pickup' | 'deliver';
+  minutes?: number;
+  // Payment toggles
+  payment?: boolean;
+  // Cancellations
+  reason?: string;
+  createdAt: string;
+}
+
+/**
+ * Online payments - the backend talks to the provider, the client only redirects
+ */
+export type PaymentMethod = 'cash' | 'online';
+
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'canceled' | 'refunded';
+
+export interface Payment {
+  _id: string;
+  order: string;
+  gateway: string;
+  amount: number;
+  status: PaymentStatus;
+  // Provider's id for the transaction, used on the callback
+  authority: string;
+  // Provider's reference number once verified
+  refId?: string | null;
+  refundedAmount?: number;
+  createdAt: string;
+  verifiedAt?: string | null;
+}
+
+/**
+ * Payment opened on the backend, ready to hand the customer to the gateway
+ */
+export interface PaymentSession {
+  paymentId: string;
+  gateway: string;
+  authority: string;
+  amount: number;
+  // Provider payment page; gateways hosted by the app build their own
+  redirectUrl?: string;
+}
+
+/**
+ * Surge window - multiplies the delivery fee on the given days/hours
+ */
+export interface SurgeRule {
+  label: string;
+  multiplier: number;
+  // 0 = Sunday ... 6 = Saturday; empty means every day
+  days?: number[];
+  startTime: string; // "HH:mm"
+  endTime: string; // "HH:mm", may wrap past midnight
+}
+
+/**
+ * Per-store delivery pricing (amounts in IRT)
+ */
+export interface DeliveryPricing {
+  baseFee: number;
+  perKmRate: number;
+  minimumFee: number;
+  // Subtotal at or above which delivery is free; 0 disables it
+  freeDeliveryThreshold: number;
+  // Orders further than this are refused; 0/undefined means no limit
+  maxDistanceKm?: number;
+  surge: SurgeRule[];
+}
+
+/**
+ * Delivery zone - a polygon a store delivers to, with its own fee and minimum order
+ */
+export interface DeliveryZone {
+  _id?: string;
+  name: string;
+  // Replaces the store's base delivery fee inside this zone
+  fee: number;
+  minimumOrder: number;
+  color?: string;
+  polygon: { lat: number; lng: number }[];
+}
+
+/**
+ * Named filter set a user saved for a list page
+ */
+export type FilterPresetScope = 'orders' | 'products';
+
+export interface FilterPreset {
+  _id: string;
+  name: string;
+  scope: FilterPresetScope;
+  filters: Record<string, string | string[]>;
+  createdAt: string;
+}
+
 /**
  * Updated API Service for Zero Community Frontend
  * Matches backend standardization with proper error handling and response processing
@@ -257,6 +429,11 @@ api.interceptors.response.use(
  * @returns Standardized error object
  */
 function standardizeError(error: any): { message: string; status: number; data?: any; code?: string } {
+  if (typeof error?.status === 'number' && !error.response && !error.request) {
+    // Already standardized by the response interceptor, keep the real status
+    return error;
+  }
+
   if (error.response) {
     // The request was made and the server responded with a status code
     // that falls out of the range of 2xx
@@ -437,8 +614,8 @@ export const userAPI = {
     return ApiHelper.get<User[]>('/user/all');
   },
 
-  getDrivers: async (): Promise<ApiResponse<User[]>> => {
-    return ApiHelper.get<User[]>('/user/drivers');
+  getDrivers: async (): Promise<ApiResponse<DispatchDriver[]>> => {
+    return ApiHelper.get<DispatchDriver[]>('/user/drivers');
   },
   getStores: async (): Promise<ApiResponse<User[]>> => {
     return ApiHelper.get<User[]>('/user/stores');
@@ -535,6 +712,11 @@ export const orderAPI = {
     return ApiHelper.post<any>('/order/place', data);
   },
 
+  // One linked order per store cart, sharing address, schedule and payment method
+  placeGroup: async (orders: any[]): Promise<ApiResponse<OrderGroupResult>> => {
+    return ApiHelper.post<OrderGroupResult>('/order/group', { orders });
+  },
+
   // Dashboard statistics endpoint
   getDashboardStatistics: async (): Promise<ApiResponse<{
     orders: number;
@@ -585,6 +767,11 @@ export const orderAPI = {
     return ApiHelper.post('/order/accept-driver', { orderId });
   },
 
+  // Store hands the order to one of its drivers, replacing any current one
+  assignDriver: async (orderId: string, driverId: string): Promise<ApiResponse<any>> => {
+    return ApiHelper.post('/order/assign-driver', { orderId, driverId });
+  },
+
   pickupOrder: async (orderId: string): Promise<ApiResponse<any>> => {
     return ApiHelper.post('/order/pickup', { orderId });
   },
@@ -623,15 +810,43 @@ export const orderAPI = {
     return ApiHelper.post<any[]>('/order/progress-batch', { orderIds });
   },
 
+  // Audit trail
+  getOrderHistory: async (orderId: string): Promise<ApiResponse<OrderHistoryEvent[]>> => {
+    return ApiHelper.get<OrderHistoryEvent[]>(`/order/history/${orderId}`);
+  },
+
   // Feedback
   addFeedback: async (data: { orderId: string; rating?: number; comment?: string; reactions?: string[] }): Promise<ApiResponse<any>> => {
     return ApiHelper.post('/order/feedback', data);
   },
 
+  // Rated orders of the current store, with items, for feedback analytics
+  getStoreFeedback: async (params?: { from?: string; to?: string }): Promise<ApiResponse<Order[]>> => {
+    return ApiHelper.get<Order[]>('/order/feedback/store', params);
+  },
+
+  replyToFeedback: async (orderId: string, reply: string): Promise<ApiResponse<Order>> => {
+    return ApiHelper.post<Order>('/order/feedback/reply', { orderId, reply });
+  },
+
+  // Tip for the driver, after delivery when none was given at checkout
+  addTip: async (orderId: string, amount: number): Promise<ApiResponse<Order>> => {
+    return ApiHelper.post<Order>('/order/tip', { orderId, amount });
+  },
+
   cancelOrder: async (data: any): Promise<ApiResponse<any>> => {
     return ApiHelper.post('/order/cancel', data);
   },
 
+  // Partial cancellation - the store proposes new quantities, the customer confirms
+  updateOrderItems: async (orderId: string, data: { items: { productId: string; quantity: number }[]; note?: string }): Promise<ApiResponse<Order>> => {
+    return ApiHelper.put<Order>(`/order/items/${orderId}`, data);
+  },
+
+  respondToItemChange: async (orderId: string, accept: boolean): Promise<ApiResponse<Order>> => {
+    return ApiHelper.post<Order>(`/order/items/${orderId}/respond`, { accept });
+  },
+
 
   // Payment endpoints
   markOrderAsPaid: async (orderId: string): Promise<ApiResponse<any>> => {
@@ -645,6 +860,36 @@ export const orderAPI = {
     */
 };
 
+// Tracking API - public order tracking with a signed token, no login required
+export const trackingAPI = {
+  get: async (orderId: string, token: string): Promise<ApiResponse<TrackedOrder>> => {
+    return ApiHelper.get<TrackedOrder>(`/track/${orderId}`, { token });
+  },
+
+  confirmReceipt: async (orderId: string, token: string): Promise<ApiResponse<TrackedOrder>> => {
+    return ApiHelper.post<TrackedOrder>(`/track/${orderId}/receive`, { token });
+  }
+};
+
+// Payment API - gateway sessions, callback verification and refunds
+export const paymentAPI = {
+  initiate: async (data: { orderId: string; gateway: string; callbackUrl: string }): Promise<ApiResponse<PaymentSession>> => {
+    return ApiHelper.post<PaymentSession>('/payment/initiate', data);
+  },
+
+  verify: async (data: { gateway: string; authority: string; status: string }): Promise<ApiResponse<Payment>> => {
+    return ApiHelper.post<Payment>('/payment/verify', data);
+  },
+
+  refund: async (paymentId: string, amount?: number): Promise<ApiResponse<Payment>> => {
+    return ApiHelper.post<Payment>(`/payment/refund/${paymentId}`, { amount });
+  },
+
+  getForOrder: async (orderId: string): Promise<ApiResponse<Payment[]>> => {
+    return ApiHelper.get<Payment[]>(`/payment/order/${orderId}`);
+  }
+};
+
 // Cart API - Unified approach for all user types (guest and authenticated)
 export const cartAPI = {
   // Unified cart operations - works for both guest and authenticated users
@@ -823,6 +1068,23 @@ export const messageAPI = {
 
   markMessagesAsRead: async (messageIds: string[]) => {
     return ApiHelper.post('/message/read', { messageIds });
+  },
+
+  // Order threads - send() with an orderId posts into the thread
+  getOrderThreads: async (): Promise<ApiResponse<OrderThread[]>> => {
+    return ApiHelper.get<OrderThread[]>('/message/order-threads');
+  },
+
+  getOrderThread: async (orderId: string): Promise<ApiResponse<OrderThread>> => {
+    return ApiHelper.get<OrderThread>(`/message/order-threads/${orderId}`);
+  },
+
+  getOrderMessages: async (orderId: string): Promise<ApiResponse<any[]>> => {
+    return ApiHelper.get<any[]>(`/message/order/${orderId}`);
+  },
+
+  markOrderThreadAsRead: async (orderId: string) => {
+    return ApiHelper.post(`/message/order/${orderId}/read`);
   }
 };
 
@@ -980,6 +1242,210 @@ export const catalogAPI = {
   }
 };
 
+// Delivery Pricing API
+export const deliveryPricingAPI = {
+  // Public pricing of a store, used by the cart
+  getForStore: async (storeId: string): Promise<ApiResponse<DeliveryPricing>> => {
+    return ApiHelper.get<DeliveryPricing>(`/delivery-pricing/${storeId}`);
+  },
+
+  getMine: async (): Promise<ApiResponse<DeliveryPricing>> => {
+    return ApiHelper.get<DeliveryPricing>('/delivery-pricing/me');
+  },
+
+  update: async (pricing: DeliveryPricing): Promise<ApiResponse<DeliveryPricing>> => {
+    return ApiHelper.put<DeliveryPricing>('/delivery-pricing/me', pricing);
+  }
+};
+
+// Delivery Zone API
+export const deliveryZoneAPI = {
+  getForStore: async (storeId: string): Promise<ApiResponse<DeliveryZone[]>> => {
+    return ApiHelper.get<DeliveryZone[]>(`/delivery-zone/${storeId}`);
+  },
+
+  getMine: async (): Promise<ApiResponse<DeliveryZone[]>> => {
+    return ApiHelper.get<DeliveryZone[]>('/delivery-zone/me');
+  },
+
+  // Replaces all zones of the signed-in store
+  update: async (zones: DeliveryZone[]): Promise<ApiResponse<DeliveryZone[]>> => {
+    return ApiHelper.put<DeliveryZone[]>('/delivery-zone/me', { zones });
+  }
+};
+
+/**
+ * Driver as listed for store dispatch
+ * Status comes from statusMain ('online' | 'busy' | 'soon' | 'offline').
+ */
+export interface DispatchDriver extends User {
+  // Orders assigned to the driver and not yet delivered
+  activeOrders?: number;
+}
+
+export type AutoDispatchStrategy = 'nearest_online' | 'least_busy';
+
+/**
+ * Store rules for assigning a driver without waiting for one to self-accept
+ */
+export interface AutoDispatchRules {
+  enabled: boolean;
+  strategy: AutoDispatchStrategy;
+  // Status at which the backend picks the driver
+  trigger: 'accepted' | 'prepared';
+  maxDistanceKm: number;
+  maxActiveOrders: number;
+}
+
+// Dispatch API - auto-dispatch rules of the signed-in store
+export const dispatchAPI = {
+  getMine: async (): Promise<ApiResponse<AutoDispatchRules>> => {
+    return ApiHelper.get<AutoDispatchRules>('/dispatch/me');
+  },
+
+  update: async (rules: AutoDispatchRules): Promise<ApiResponse<AutoDispatchRules>> => {
+    return ApiHelper.put<AutoDispatchRules>('/dispatch/me', rules);
+  }
+};
+
+// Filter Preset API - saved filters of the signed-in user
+export const filterPresetAPI = {
+  list: async (scope: FilterPresetScope): Promise<ApiResponse<FilterPreset[]>> => {
+    return ApiHelper.get<FilterPreset[]>(`/filter-preset?scope=${scope}`);
+  },
+
+  create: async (data: { name: string; scope: FilterPresetScope; filters: Record<string, string | string[]> }): Promise<ApiResponse<FilterPreset>> => {
+    return ApiHelper.post<FilterPreset>('/filter-preset', data);
+  },
+
+  delete: async (presetId: string): Promise<ApiResponse> => {
+    return ApiHelper.delete<ApiResponse>(`/filter-preset/${presetId}`);
+  }
+};
+
+/**
+ * Cash-on-delivery order in the driver/store cash ledger
+ * Only orders still unpaid when the driver picked them up end up here.
+ */
+export interface CashLedgerEntry {
+  order: string;
+  orderName?: string;
+  store: Pick<User, '_id' | 'username' | 'name'>;
+  driver: Pick<User, '_id' | 'username' | 'name'>;
+  deliveredAt: string;
+  // Cash taken from the customer, delivery fee included
+  cashCollected: number;
+  // Part of the cash the driver keeps
+  deliveryFee: number;
+  // Cash tip, also kept by the driver
+  tip?: number;
+  // Settlement the order was reconciled in, null while the driver still owes it
+  settlement?: string | null;
+}
+
+export interface CashSettlement {
+  _id: string;
+  store: Pick<User, '_id' | 'username' | 'name' | 'phone'>;
+  driver: Pick<User, '_id' | 'username' | 'name' | 'phone'>;
+  entries: CashLedgerEntry[];
+  totalCash: number;
+  totalDeliveryFees: number;
+  totalTips?: number;
+  totalOwed: number;
+  settledAt: string;
+}
+
+// Ledger API - scoped to the signed-in driver or store by the backend
+export const ledgerAPI = {
+  getEntries: async (params: { settled?: boolean; from?: string; to?: string } = {}): Promise<ApiResponse<CashLedgerEntry[]>> => {
+    return ApiHelper.get<CashLedgerEntry[]>('/ledger/cash', params);
+  },
+
+  getSettlements: async (): Promise<ApiResponse<CashSettlement[]>> => {
+    return ApiHelper.get<CashSettlement[]>('/ledger/settlements');
+  },
+
+  // Store only - reconciles the given orders of one driver
+  settle: async (data: { driverId: string; orderIds: string[] }): Promise<ApiResponse<CashSettlement>> => {
+    return ApiHelper.post<CashSettlement>('/ledger/settlements', data);
+  }
+};
+
+/**
+ * Per-store SLA thresholds - how early before an estimate runs out staff get warned
+ */
+export interface SlaSettings {
+  prepareWarnMinutes: number;
+  pickupWarnMinutes: number;
+  deliverWarnMinutes: number;
+  browserNotifications: boolean;
+  sound: boolean;
+}
+
+export type SlaStage = 'prepare' | 'pickup' | 'deliver';
+
+export interface LateOrderEntry {
+  order: string;
+  orderName?: string;
+  stage: SlaStage;
+  estimatedAt: string;
+  // Null while the stage is still open
+  completedAt?: string | null;
+  minutesLate: number;
+}
+
+export interface LateOrdersReport {
+  date: string; // "YYYY-MM-DD"
+  totalOrders: number;
+  lateOrders: number;
+  entries: LateOrderEntry[];
+}
+
+// SLA API - thresholds and the daily late orders report of the signed-in store
+export const slaAPI = {
+  getMine: async (): Promise<ApiResponse<SlaSettings>> => {
+    return ApiHelper.get<SlaSettings>('/sla/me');
+  },
+
+  update: async (data: SlaSettings): Promise<ApiResponse<SlaSettings>> => {
+    return ApiHelper.put<SlaSettings>('/sla/me', data);
+  },
+
+  getLateReport: async (date: string): Promise<ApiResponse<LateOrdersReport>> => {
+    return ApiHelper.get<LateOrdersReport>('/sla/late-report', { date });
+  }
+};
+
+/**
+ * Events a user can receive browser push notifications for
+ */
+export type NotificationEvent = 'newOrder' | 'statusChange' | 'newMessage' | 'driverAssigned';
+
+export type NotificationPreferences = Record<NotificationEvent, boolean>;
+
+// Notification API - Web Push subscriptions and per-event preferences
+export const notificationAPI = {
+  getVapidPublicKey: async (): Promise<ApiResponse<{ publicKey: string }>> => {
+    return ApiHelper.get<{ publicKey: string }>('/notification/vapid-public-key');
+  },
+
+  subscribe: async (subscription: PushSubscriptionJSON): Promise<ApiResponse> => {
+    return ApiHelper.post('/notification/subscribe', subscription);
+  },
+
+  unsubscribe: async (endpoint: string): Promise<ApiResponse> => {
+    return ApiHelper.post('/notification/unsubscribe', { endpoint });
+  },
+
+  getPreferences: async (): Promise<ApiResponse<NotificationPreferences>> => {
+    return ApiHelper.get<NotificationPreferences>('/notification/preferences');
+  },
+
+  updatePreferences: async (data: NotificationPreferences): Promise<ApiResponse<NotificationPreferences>> => {
+    return ApiHelper.put<NotificationPreferences>('/notification/preferences', data);
+  }
+};
+
 export default {
   userAPI,
   productAPI,
@@ -993,6 +1459,15 @@ export default {
   invitationAPI,
   themeAPI,
   catalogAPI,
+  deliveryPricingAPI,
+  deliveryZoneAPI,
+  dispatchAPI,
+  filterPresetAPI,
+  trackingAPI,
+  paymentAPI,
+  ledgerAPI,
+  slaAPI,
+  notificationAPI,
   getApiDocsUrl,
   isAuthenticated,
   getCurrentUser,
@@ -5,6 +5,7 @@
 
 import { toast } from 'react-toastify';
 import { logError } from './logger';
+import { OrderStateMachine, OrderLike } from './orderStateMachine';
 
 /**
  * Error Types
@@ -265,40 +266,14 @@ export class ResponseValidator {
 }
 
 /**
- * Order Status Validation
+ * Order Status Validation - delegates to the shared order state machine
  */
 export class OrderStatusValidator {
-  static validateStatusTransition(currentStatus: string, newStatus: string, role: string): boolean {
-    const validTransitions: Record<string, Record<string, string[]>> = {
-      customer: {
-        placed: ['received'],
-        accepted: ['received'],
-        prepared: ['received'],
-        pickedup: ['received'],
-        delivered: ['received']
-      },
-      store: {
-        placed: ['accepted', 'rejected'],
-        accepted: ['prepared']
-      },
-      driver: {
-        prepared: ['accepted'],
-        accepted: ['pickedup'],
-        pickedup: ['delivered']
-      }
-    };
-
-    const allowedTransitions = validTransitions[role]?.[currentStatus] || [];
-    return allowedTransitions.includes(newStatus);
+  static validateStatusTransition(order: OrderLike, newStatus: string, role: string): boolean {
+    return OrderStateMachine.canTransition(order, role, newStatus);
   }
 
-  static canCancelOrder(status: string, role: string): boolean {
-    const cancellableStatuses: Record<string, string[]> = {
-      customer: ['placed', 'accepted', 'prepared'],
-      store: ['placed', 'accepted', 'prepared'],
-      driver: ['accepted', 'prepared']
-    };
-
-    return cancellableStatuses[role]?.includes(status) || false;
+  static canCancelOrder(order: OrderLike, role: string): boolean {
+    return OrderStateMachine.can(order, role, 'cancel');
   }
-}
\ No newline at end of file
+}
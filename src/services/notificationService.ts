@@ -0,0 +1,78 @@
+/**
+ * Notification Service - Web Push subscription for the current browser
+ * The backend stores the subscription and pushes the events the user opted into;
+ * public/sw.js shows them and deep-links clicks back into the app.
+ */
+
+import { notificationAPI } from './api';
+import { toast } from 'react-toastify';
+import { logError, logUserAction } from './logger';
+import { getPushSubscription, pushSupported, subscribeToPush, unsubscribeFromPush } from '../utils/notifications';
+
+export class NotificationService {
+  /**
+   * Whether this browser currently has a push subscription
+   */
+  static async isPushEnabled(): Promise<boolean> {
+    if (!pushSupported()) return false;
+    try {
+      return (await getPushSubscription()) !== null;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Subscribe this browser and register the subscription with the backend
+   */
+  static async enablePush(): Promise<boolean> {
+    try {
+      if (!pushSupported()) {
+        throw new Error('Push notifications are not supported in this browser');
+      }
+
+      const keyResponse = await notificationAPI.getVapidPublicKey();
+      if (!keyResponse.success || !keyResponse.data?.publicKey) {
+        throw new Error(keyResponse.message || 'Push notifications are not configured');
+      }
+
+      const subscription = await subscribeToPush(keyResponse.data.publicKey);
+      if (!subscription) {
+        toast.error('Notifications are blocked for this site');
+        return false;
+      }
+
+      const response = await notificationAPI.subscribe(subscription.toJSON());
+      if (!response.success) {
+        throw new Error(response.message || 'Failed to enable push notifications');
+      }
+
+      logUserAction('push_enabled');
+      return true;
+    } catch (error: any) {
+      logError(error, 'NotificationService.enablePush');
+      toast.error(error.message || 'Failed to enable push notifications');
+      return false;
+    }
+  }
+
+  /**
+   * Unsubscribe this browser and tell the backend to forget it
+   */
+  static async disablePush(): Promise<boolean> {
+    try {
+      const endpoint = await unsubscribeFromPush();
+      if (endpoint) {
+        await notificationAPI.unsubscribe(endpoint);
+      }
+      logUserAction('push_disabled');
+      return true;
+    } catch (error: any) {
+      logError(error, 'NotificationService.disablePush');
+      toast.error(error.message || 'Failed to disable push notifications');
+      return false;
+    }
+  }
+}
+
+export default NotificationService;
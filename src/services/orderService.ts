@@ -3,7 +3,8 @@
  * This service provides a comprehensive order workflow that aligns with backend tests
  */
 
-import { orderAPI, Order } from './api';
+import { orderAPI, Order, OrderGroupResult } from './api';
+import { OrderStateMachine, OrderLike, TIME_ADJUST_STEPS } from './orderStateMachine';
 import { toast } from 'react-toastify';
 import { logApiCall, logError } from './logger';
 
@@ -199,6 +200,26 @@ export class OrderService {
     }
   }
 
+  /**
+   * Store assigns (or reassigns) a driver to an order
+   */
+  static async assignDriver(orderId: string, driverId: string): Promise<boolean> {
+    try {
+      const response = await orderAPI.assignDriver(orderId, driverId);
+      if (response.success) {
+        toast.success('Driver assigned!');
+        return true;
+      } else {
+        toast.error(response.message || 'Failed to assign driver');
+        return false;
+      }
+    } catch (error: any) {
+      logError(error, 'OrderService.assignDriver');
+      toast.error(error.message || 'Failed to assign driver');
+      return false;
+    }
+  }
+
   /**
    * Driver picks up an order
    */
@@ -356,6 +377,84 @@ export class OrderService {
     }
   }
 
+  /**
+   * Place every store cart as one linked order group
+   * @param orders - Order payloads, one per store
+   * @returns The per-store outcome, or null when nothing could be placed
+   */
+  static async placeOrderGroup(orders: any[]): Promise<OrderGroupResult | null> {
+    try {
+      const response = await orderAPI.placeGroup(orders);
+
+      if (!response.success || !response.data) {
+        logApiCall('/order/group', 'POST', false, { message: response.message });
+        toast.error(response.message || 'Failed to place orders');
+        return null;
+      }
+
+      const result = response.data;
+      logApiCall('/order/group', 'POST', true, { placed: result.placed.length, rejected: result.rejected.length });
+      if (result.placed.length === 0) {
+        toast.error('None of the stores accepted the order');
+      } else if (result.rejected.length > 0) {
+        toast.warning(`${result.placed.length} of ${orders.length} orders placed`);
+      } else {
+        toast.success('All orders placed successfully!');
+      }
+      return result;
+    } catch (error: any) {
+      logError(error, 'OrderService.placeOrderGroup');
+      toast.error(error.response?.data?.message || error.message || 'Failed to place orders');
+      return null;
+    }
+  }
+
+  /**
+   * Tip the driver of a delivered order
+   */
+  static async addTip(orderId: string, amount: number): Promise<boolean> {
+    try {
+      if (amount <= 0) {
+        throw new Error('Tip must be greater than zero');
+      }
+
+      const response = await orderAPI.addTip(orderId, amount);
+
+      if (response.success) {
+        toast.success('Thank you! Your tip was sent to the driver');
+        return true;
+      } else {
+        toast.error(response.message || 'Failed to add tip');
+        return false;
+      }
+    } catch (error: any) {
+      logError(error, 'OrderService.addTip');
+      toast.error(error.message || 'Failed to add tip');
+      return false;
+    }
+  }
+
+  /**
+   * Reply to a customer's comment as the store; an empty reply removes it
+   */
+  static async replyToFeedback(orderId: string, reply: string): Promise<boolean> {
+    try {
+      const response = await orderAPI.replyToFeedback(orderId, reply.trim());
+
+      if (response.success) {
+        toast.success('Reply saved');
+        return true;
+      } else {
+        toast.error(response.message || 'Failed to save reply');
+        return false;
+      }
+    } catch (error: any) {
+      logError(error, 'OrderService.replyToFeedback');
+      toast.error(error.message || 'Failed to save reply');
+      return false;
+    }
+  }
+
   /**
    * Get available orders for driver
    */
@@ -424,12 +523,15 @@ export class OrderService {
 
   /**
    * Cancel an order
+   * @param reason - Reason code from CANCEL_REASONS plus optional free text
    */
-  static async cancelOrder(orderId: string, userId: string, role: string): Promise<boolean> {
+  static async cancelOrder(orderId: string, userId: string, role: string, reason?: { code: string; note?: string }): Promise<boolean> {
     try {
       const cancelData = {
         orderId,
-        [role === 'customer' ? 'userId' : role === 'store' ? 'storeId' : 'driverId']: userId
+        [role === 'customer' ? 'userId' : role === 'store' || role === 'staff' ? 'storeId' : 'driverId']: userId,
+        reasonCode: reason?.code,
+        reasonNote: reason?.note || undefined
       };
 
       // Use the cancel endpoint directly
@@ -448,66 +550,71 @@ export class OrderService {
       return false;
     }
   }
+
+  /**
+   * Propose new item quantities for a placed/accepted order (0 removes the item)
+   * The customer has to confirm before the new amount applies
+   */
+  static async updateOrderItems(orderId: string, items: { productId: string; quantity: number }[], note?: string): Promise<boolean> {
+    try {
+      const response = await orderAPI.updateOrderItems(orderId, { items, note: note || undefined });
+
+      if (response.success) {
+        toast.success('Item changes sent to the customer');
+        return true;
+      } else {
+        toast.error(response.message || 'Failed to update order items');
+        return false;
+      }
+    } catch (error: any) {
+      logError(error, 'OrderService.updateOrderItems');
+      toast.error(error.message || 'Failed to update order items');
+      return false;
+    }
+  }
+
+  /**
+   * Customer accepts or declines the store's item changes; declining cancels the order
+   */
+  static async respondToItemChange(orderId: string, accept: boolean): Promise<boolean> {
+    try {
+      const response = await orderAPI.respondToItemChange(orderId, accept);
+
+      if (response.success) {
+        toast.success(accept ? 'Order updated' : 'Order canceled');
+        return true;
+      } else {
+        toast.error(response.message || 'Failed to respond to item changes');
+        return false;
+      }
+    } catch (error: any) {
+      logError(error, 'OrderService.respondToItemChange');
+      toast.error(error.message || 'Failed to respond to item changes');
+      return false;
+    }
+  }
 }
 
 /**
- * Order Workflow Helper - State machine for order processing
+ * Order Workflow Helper - thin adapter over the shared order state machine
  */
 export class OrderWorkflow {
-  static getNextActions(order: any, userRole: string): string[] {
-    const actions: string[] = [];
-
-    if (userRole === 'store') {
-      if (order.status === 'placed') {
-        actions.push('accept_store', 'reject_store');
-      } else if (order.status === 'accepted') {
-        actions.push('prepare');
-        actions.push('adjust_prepare_5', 'adjust_prepare_3', 'adjust_prepare_1',
-                   'adjust_prepare_-1', 'adjust_prepare_-3', 'adjust_prepare_-5');
-      }
-    } else if (userRole === 'driver') {
-      // Check if this is an available order (no driver assigned yet)
-      const isAvailableOrder = !order.driver && order.stateGiven === 'by-store';
-
-      if (isAvailableOrder && order.isTakeout) {
-        actions.push('accept_driver');
-      } else if (order.driver && order.isTakeout) {
-        // Show pickup button when order is prepared or accepted-by-driver
-        if (order.status === 'prepared' || order.status === 'accepted-by-driver') {
-          actions.push('pickup');
-        }
-        
-        // Time adjustment section - show for accepted orders (after driver accepts, before pickup)
-        if (order.status === 'accepted' || order.status === 'accepted-by-driver') {
-          actions.push('adjust_pickup_5', 'adjust_pickup_3', 'adjust_pickup_1',
-                     'adjust_pickup_-1', 'adjust_pickup_-3', 'adjust_pickup_-5');
-        }
+  /**
+   * Next actions as action strings, time adjustments expanded to adjust_<target>_<minutes>
+   */
+  static getNextActions(order: OrderLike, userRole: string): string[] {
+    const actions: string[] = OrderStateMachine.getAvailableActions(order, userRole)
+      .filter(action => action !== 'cancel');
 
-        // Show deliver button when order is picked up
-        if (order.status === 'pickedup') {
-          actions.push('deliver');
-          actions.push('adjust_deliver_5', 'adjust_deliver_3', 'adjust_deliver_1',
-                     'adjust_deliver_-1', 'adjust_deliver_-3', 'adjust_deliver_-5');
-        }
-      }
-    } else if (userRole === 'customer') {
-      if (['pickedup', 'prepared', 'delivered'].includes(order.status)) {
-        actions.push('receive');
-      }
-      if (order.status === 'received' && !order.customerRating) {
-        actions.push('feedback');
-      }
-    }
+    OrderStateMachine.getTimeAdjustTargets(order, userRole).forEach(target => {
+      TIME_ADJUST_STEPS.forEach(minutes => actions.push(`adjust_${target}_${minutes}`));
+    });
 
     return actions;
   }
 
-  static canCancelOrder(order: Order, userRole: string): boolean {
-    const cancellableStatuses = ['placed', 'accepted', 'prepared'];
-    return cancellableStatuses.includes(order.status) &&
-           ((userRole === 'customer' && !!order.user) ||
-            (userRole === 'store' && !!order.store) ||
-            (userRole === 'driver' && !!order.driver));
+  static canCancelOrder(order: OrderLike, userRole: string): boolean {
+    return OrderStateMachine.can(order, userRole, 'cancel');
   }
 }
 
@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CANCEL_REASONS,
+  CANCEL_WINDOWS,
+  ORDER_STATUSES,
+  OrderAction,
+  OrderLike,
+  OrderRole,
+  OrderStateMachine,
+  TERMINAL_STATUSES,
+  TimeAdjustTarget
+} from './orderStateMachine';
+import { OrderStatus } from './api';
+
+const ROLES: OrderRole[] = ['customer', 'store', 'staff', 'driver', 'admin'];
+
+// One order per guard-relevant shape; status is filled in per case
+const FIXTURES = {
+  delivery: { isTakeout: true },
+  assigned: { isTakeout: true, driver: { _id: 'driver-1' } },
+  tipped: { isTakeout: true, driver: { _id: 'driver-1' }, tip: 5000 },
+  inStore: { isTakeout: false },
+  rated: { isTakeout: false, customerRating: 4 },
+  pendingChange: { isTakeout: true, pendingItemChange: { items: [] } }
+} satisfies Record<string, Omit<OrderLike, 'status'>>;
+
+type FixtureName = keyof typeof FIXTURES;
+
+const ALL_FIXTURES = Object.keys(FIXTURES) as FixtureName[];
+const TAKEOUT: FixtureName[] = ['delivery', 'assigned', 'tipped', 'pendingChange'];
+const WITH_DRIVER: FixtureName[] = ['assigned', 'tipped'];
+const IN_STORE: FixtureName[] = ['inStore', 'rated'];
+
+// Which roles may act from which statuses, for the listed order shapes
+type Permission = { fixtures: FixtureName[]; roles: Partial<Record<OrderRole, OrderStatus[]>> };
+
+const EXPECTED_ACTIONS: Record<OrderAction, Permission[]> = {
+  accept_store: [{ fixtures: ALL_FIXTURES, roles: { store: ['placed'] } }],
+  reject_store: [{ fixtures: ALL_FIXTURES, roles: { store: ['placed'] } }],
+  prepare: [{ fixtures: ['delivery', 'assigned', 'tipped', 'inStore', 'rated'], roles: { store: ['accepted'] } }],
+  accept_driver: [{ fixtures: ['delivery', 'pendingChange'], roles: { driver: ['accepted', 'prepared'] } }],
+  assign_driver: [{ fixtures: TAKEOUT, roles: { store: ['accepted', 'prepared'] } }],
+  pickup: [{ fixtures: WITH_DRIVER, roles: { driver: ['prepared'] } }],
+  deliver: [{ fixtures: WITH_DRIVER, roles: { driver: ['pickedup'] } }],
+  receive: [
+    { fixtures: TAKEOUT, roles: { customer: ['pickedup', 'delivered'] } },
+    { fixtures: IN_STORE, roles: { customer: ['prepared'] } }
+  ],
+  feedback: [{ fixtures: ['delivery', 'assigned', 'tipped', 'inStore', 'pendingChange'], roles: { customer: ['received'] } }],
+  tip: [{ fixtures: ['assigned'], roles: { customer: ['delivered', 'received'] } }],
+  edit_items: [{ fixtures: ['delivery', 'assigned', 'tipped', 'inStore', 'rated'], roles: { store: ['placed', 'accepted'] } }],
+  confirm_items: [{ fixtures: ['pendingChange'], roles: { customer: ['placed', 'accepted'] } }],
+  cancel: [
+    {
+      fixtures: ALL_FIXTURES,
+      roles: {
+        customer: ['placed', 'accepted', 'prepared'],
+        store: ['placed', 'accepted', 'prepared']
+      }
+    },
+    { fixtures: WITH_DRIVER, roles: { driver: ['accepted', 'prepared'] } }
+  ]
+};
+
+const EXPECTED_TIME_ADJUST: Record<TimeAdjustTarget, Permission[]> = {
+  prepare: [{ fixtures: ALL_FIXTURES, roles: { store: ['accepted'] } }],
+  pickup: [{ fixtures: WITH_DRIVER, roles: { driver: ['accepted', 'prepared'] } }],
+  deliver: [{ fixtures: WITH_DRIVER, roles: { driver: ['pickedup'] } }]
+};
+
+const key = (fixture: FixtureName, role: OrderRole, status: OrderStatus) => `${fixture} / ${role} / ${status}`;
+
+const expand = (permissions: Permission[]): string[] =>
+  permissions.flatMap(({ fixtures, roles }) =>
+    fixtures.flatMap(fixture =>
+      Object.entries(roles).flatMap(([role, statuses]) =>
+        statuses!.map(status => key(fixture, role as OrderRole, status))
+      )
+    )
+  ).sort();
+
+// Every fixture x role x status combination for which the predicate holds
+const collect = (allowed: (order: OrderLike, role: OrderRole) => boolean): string[] =>
+  ALL_FIXTURES.flatMap(fixture =>
+    ROLES.flatMap(role =>
+      ORDER_STATUSES
+        .filter(status => allowed({ ...FIXTURES[fixture], status }, role))
+        .map(status => key(fixture, role, status))
+    )
+  ).sort();
+
+const ACTIONS = Object.keys(EXPECTED_ACTIONS) as OrderAction[];
+const TARGETS = Object.keys(EXPECTED_TIME_ADJUST) as TimeAdjustTarget[];
+
+describe('OrderStateMachine.can', () => {
+  it.each(ACTIONS)('%s is allowed exactly for its status x role x order table', (action) => {
+    expect(collect((order, role) => OrderStateMachine.can(order, role, action))).toEqual(expand(EXPECTED_ACTIONS[action]));
+  });
+
+  it('rejects unknown roles and statuses', () => {
+    expect(OrderStateMachine.can({ ...FIXTURES.delivery, status: 'placed' }, 'guest', 'cancel')).toBe(false);
+    expect(OrderStateMachine.can({ ...FIXTURES.delivery, status: 'placed' }, undefined, 'cancel')).toBe(false);
+    expect(OrderStateMachine.can({ ...FIXTURES.delivery, status: 'accepted-by-driver' }, 'driver', 'pickup')).toBe(false);
+  });
+});
+
+describe('OrderStateMachine.getAvailableActions', () => {
+  it('matches can() for every action, in table order', () => {
+    ALL_FIXTURES.forEach(fixture => {
+      ROLES.forEach(role => {
+        ORDER_STATUSES.forEach(status => {
+          const order = { ...FIXTURES[fixture], status };
+          const expected = ACTIONS.filter(action => expand(EXPECTED_ACTIONS[action]).includes(key(fixture, role, status)));
+          const available = OrderStateMachine.getAvailableActions(order, role);
+          expect(new Set(available), key(fixture, role, status)).toEqual(new Set(expected));
+          expect(available).toEqual([...available].sort((a, b) => ACTIONS.indexOf(a) - ACTIONS.indexOf(b)));
+        });
+      });
+    });
+  });
+
+  it('offers nothing on terminal orders except customer follow-ups', () => {
+    TERMINAL_STATUSES.forEach(status => {
+      ROLES.filter(role => role !== 'customer').forEach(role => {
+        expect(OrderStateMachine.getAvailableActions({ ...FIXTURES.assigned, status }, role)).toEqual([]);
+      });
+    });
+  });
+});
+
+describe('OrderStateMachine.getTimeAdjustTargets', () => {
+  it.each(TARGETS)('%s can be shifted exactly for its status x role x order table', (target) => {
+    expect(collect((order, role) => OrderStateMachine.canAdjustTime(order, role, target))).toEqual(expand(EXPECTED_TIME_ADJUST[target]));
+  });
+
+  it('returns nothing for unknown roles', () => {
+    expect(OrderStateMachine.getTimeAdjustTargets({ ...FIXTURES.assigned, status: 'accepted' }, 'guest')).toEqual([]);
+  });
+});
+
+describe('cancellation', () => {
+  it.each(ROLES)('%s cancels exactly within its CANCEL_WINDOWS entry', (role) => {
+    const allowed = ORDER_STATUSES.filter(status => OrderStateMachine.can({ ...FIXTURES.assigned, status }, role, 'cancel'));
+    expect(allowed).toEqual([...(CANCEL_WINDOWS[role] ?? [])]);
+  });
+
+  it('needs an assigned driver before a driver can cancel', () => {
+    CANCEL_WINDOWS.driver!.forEach(status => {
+      expect(OrderStateMachine.can({ ...FIXTURES.delivery, status }, 'driver', 'cancel')).toBe(false);
+    });
+  });
+
+  it.each(ROLES.filter(role => CANCEL_WINDOWS[role]))('%s has reason codes ending with a free-text "other"', (role) => {
+    const reasons = CANCEL_REASONS[role]!;
+    expect(reasons.length).toBeGreaterThan(1);
+    expect(reasons[reasons.length - 1]).toBe('other');
+  });
+
+  it('offers reason codes only to roles that can cancel', () => {
+    expect(Object.keys(CANCEL_REASONS).sort()).toEqual(Object.keys(CANCEL_WINDOWS).sort());
+  });
+
+  it.each([
+    ['customer', 'canceled by customer'],
+    ['store', 'canceled by store'],
+    ['driver', 'canceled by driver']
+  ] as [OrderRole, OrderStatus][])('%s cancels into "%s"', (role, status) => {
+    expect(OrderStateMachine.getNextStatus('cancel', role)).toBe(status);
+  });
+});
+
+describe('transitions', () => {
+  it('reports target statuses for transitions and none for side actions', () => {
+    expect(OrderStateMachine.getNextStatus('accept_store', 'store')).toBe('accepted');
+    expect(OrderStateMachine.getNextStatus('deliver', 'driver')).toBe('delivered');
+    expect(OrderStateMachine.getNextStatus('accept_driver', 'driver')).toBeUndefined();
+    expect(OrderStateMachine.getNextStatus('feedback', 'customer')).toBeUndefined();
+    expect(OrderStateMachine.getNextStatus('tip', 'customer')).toBeUndefined();
+    expect(OrderStateMachine.getNextStatus('assign_driver', 'store')).toBeUndefined();
+  });
+
+  it('allows a status change only through an available action', () => {
+    expect(OrderStateMachine.canTransition({ ...FIXTURES.assigned, status: 'prepared' }, 'driver', 'pickedup')).toBe(true);
+    expect(OrderStateMachine.canTransition({ ...FIXTURES.delivery, status: 'prepared' }, 'driver', 'pickedup')).toBe(false);
+    expect(OrderStateMachine.canTransition({ ...FIXTURES.inStore, status: 'prepared' }, 'customer', 'received')).toBe(true);
+    expect(OrderStateMachine.canTransition({ ...FIXTURES.delivery, status: 'placed' }, 'customer', 'accepted')).toBe(false);
+  });
+
+  it('classifies terminal and canceled statuses', () => {
+    expect(ORDER_STATUSES.filter(status => OrderStateMachine.isTerminal(status))).toEqual([...TERMINAL_STATUSES]);
+    expect(ORDER_STATUSES.filter(status => OrderStateMachine.isCanceled(status))).toEqual([
+      'canceled by customer',
+      'canceled by store',
+      'canceled by driver'
+    ]);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Order State Machine - single source of truth for order transitions
+ * Every order card, service and validator derives its actions from this table
+ */
+
+import { OrderStatus } from './api';
+
+/**
+ * Roles that can act on an order
+ */
+export type OrderRole = 'customer' | 'store' | 'staff' | 'driver' | 'admin';
+
+/**
+ * Actions that move an order to another status
+ */
+export type OrderTransitionAction =
+  | 'accept_store'
+  | 'reject_store'
+  | 'prepare'
+  | 'pickup'
+  | 'deliver'
+  | 'receive'
+  | 'cancel';
+
+/**
+ * Actions that keep the status but change the order
+ */
+export type OrderSideAction = 'accept_driver' | 'assign_driver' | 'feedback' | 'tip' | 'edit_items' | 'confirm_items';
+
+export type OrderAction = OrderTransitionAction | OrderSideAction;
+
+/**
+ * Estimates that can be shifted while an order is in progress
+ */
+export type TimeAdjustTarget = 'prepare' | 'pickup' | 'deliver';
+
+/**
+ * Minimal order shape the state machine needs
+ */
+export interface OrderLike {
+  status: string;
+  isTakeout: boolean;
+  driver?: unknown;
+  customerRating?: number;
+  tip?: number;
+  pendingItemChange?: unknown;
+}
+
+interface ActionRule {
+  roles: OrderRole[];
+  from: OrderStatus[];
+  to?: OrderStatus | ((role: OrderRole) => OrderStatus | undefined);
+  guard?: (order: OrderLike, role: OrderRole) => boolean;
+}
+
+export const ORDER_STATUSES: readonly OrderStatus[] = [
+  'placed',
+  'accepted',
+  'prepared',
+  'pickedup',
+  'delivered',
+  'received',
+  'rejected',
+  'canceled by customer',
+  'canceled by store',
+  'canceled by driver'
+];
+
+export const TERMINAL_STATUSES: readonly OrderStatus[] = [
+  'received',
+  'rejected',
+  'canceled by customer',
+  'canceled by store',
+  'canceled by driver'
+];
+
+export const TIME_ADJUST_STEPS: readonly number[] = [5, 3, 1, -1, -3, -5];
+
+const STORE_ROLES: OrderRole[] = ['store'];
+
+const hasDriver = (order: OrderLike) => !!order.driver;
+
+// Per-role cancellation windows, roles without an entry cannot cancel
+export const CANCEL_WINDOWS: Partial<Record<OrderRole, readonly OrderStatus[]>> = {
+  customer: ['placed', 'accepted', 'prepared'],
+  store: ['placed', 'accepted', 'prepared'],
+  driver: ['accepted', 'prepared']
+};
+
+/**
+ * Reason codes offered in the cancel dialog, per role that can cancel; 'other' requires a note
+ */
+export const CANCEL_REASONS: Partial<Record<OrderRole, readonly string[]>> = {
+  customer: ['changed_mind', 'ordered_by_mistake', 'taking_too_long', 'wrong_address', 'other'],
+  store: ['out_of_stock', 'store_closed', 'too_busy', 'outside_delivery_area', 'suspected_fraud', 'other'],
+  driver: ['vehicle_problem', 'too_far', 'store_delay', 'emergency', 'other']
+};
+
+const CANCELED_STATUS: Partial<Record<OrderRole, OrderStatus>> = {
+  customer: 'canceled by customer',
+  store: 'canceled by store',
+  driver: 'canceled by driver'
+};
+
+/**
+ * Declarative action table
+ */
+const ACTION_RULES: Record<OrderAction, ActionRule> = {
+  accept_store: { roles: STORE_ROLES, from: ['placed'], to: 'accepted' },
+  reject_store: { roles: STORE_ROLES, from: ['placed'], to: 'rejected' },
+  // The customer answers an item change only before preparation, so it has to be settled first
+  prepare: {
+    roles: STORE_ROLES,
+    from: ['accepted'],
+    to: 'prepared',
+    guard: (order) => !order.pendingItemChange
+  },
+  accept_driver: {
+    roles: ['driver'],
+    from: ['accepted', 'prepared'],
+    guard: (order) => order.isTakeout && !hasDriver(order)
+  },
+  // Stores with their own couriers assign, or reassign, until the order leaves
+  assign_driver: {
+    roles: STORE_ROLES,
+    from: ['accepted', 'prepared'],
+    guard: (order) => order.isTakeout
+  },
+  pickup: {
+    roles: ['driver'],
+    from: ['prepared'],
+    to: 'pickedup',
+    guard: (order) => order.isTakeout && hasDriver(order)
+  },
+  deliver: {
+    roles: ['driver'],
+    from: ['pickedup'],
+    to: 'delivered',
+    guard: (order) => order.isTakeout && hasDriver(order)
+  },
+  receive: {
+    roles: ['customer'],
+    from: ['prepared', 'pickedup', 'delivered'],
+    to: 'received',
+    // In-store orders are collected once prepared, delivery orders once they left the store
+    guard: (order) => order.isTakeout ? order.status !== 'prepared' : order.status === 'prepared'
+  },
+  feedback: {
+    roles: ['customer'],
+    from: ['received'],
+    guard: (order) => !order.customerRating
+  },
+  // Once per order, for the driver who delivered it
+  tip: {
+    roles: ['customer'],
+    from: ['delivered', 'received'],
+    guard: (order) => order.isTakeout && hasDriver(order) && !order.tip
+  },
+  // One pending item change at a time
+  edit_items: {
+    roles: STORE_ROLES,
+    from: ['placed', 'accepted'],
+    guard: (order) => !order.pendingItemChange
+  },
+  confirm_items: {
+    roles: ['customer'],
+    from: ['placed', 'accepted'],
+    guard: (order) => !!order.pendingItemChange
+  },
+  cancel: {
+    roles: ['customer', 'store', 'driver'],
+    from: ['placed', 'accepted', 'prepared'],
+    to: (role) => CANCELED_STATUS[role],
+    guard: (order, role) => !!CANCEL_WINDOWS[role]?.includes(order.status as OrderStatus) &&
+      (role !== 'driver' || hasDriver(order))
+  }
+};
+
+/**
+ * Time adjustment windows per estimate
+ */
+const TIME_ADJUST_RULES: Record<TimeAdjustTarget, ActionRule> = {
+  prepare: { roles: STORE_ROLES, from: ['accepted'] },
+  pickup: {
+    roles: ['driver'],
+    from: ['accepted', 'prepared'],
+    guard: (order) => order.isTakeout && hasDriver(order)
+  },
+  deliver: {
+    roles: ['driver'],
+    from: ['pickedup'],
+    guard: (order) => order.isTakeout && hasDriver(order)
+  }
+};
+
+const ORDER_ACTIONS = Object.keys(ACTION_RULES) as OrderAction[];
+const TIME_ADJUST_TARGETS = Object.keys(TIME_ADJUST_RULES) as TimeAdjustTarget[];
+
+const matches = (rule: ActionRule, order: OrderLike, role: OrderRole) =>
+  rule.roles.includes(role) &&
+  (rule.from as string[]).includes(order.status) &&
+  (!rule.guard || rule.guard(order, role));
+
+/**
+ * Order State Machine - query helpers over the action table
+ */
+export class OrderStateMachine {
+  static isOrderStatus(status: string): status is OrderStatus {
+    return (ORDER_STATUSES as string[]).includes(status);
+  }
+
+  static isOrderRole(role: string | undefined): role is OrderRole {
+    return role === 'customer' || role === 'store' || role === 'staff' || role === 'driver' || role === 'admin';
+  }
+
+  static isTerminal(status: string): boolean {
+    return (TERMINAL_STATUSES as string[]).includes(status);
+  }
+
+  static isCanceled(status: string): boolean {
+    return status.startsWith('canceled');
+  }
+
+  /**
+   * Check whether a role may perform an action on an order
+   */
+  static can(order: OrderLike, role: string | undefined, action: OrderAction): boolean {
+    if (!this.isOrderRole(role) || !this.isOrderStatus(order.status)) return false;
+    return matches(ACTION_RULES[action], order, role);
+  }
+
+  /**
+   * All actions available to a role, in table order
+   */
+  static getAvailableActions(order: OrderLike, role: string | undefined): OrderAction[] {
+    return ORDER_ACTIONS.filter(action => this.can(order, role, action));
+  }
+
+  /**
+   * Estimates the role may shift right now
+   */
+  static getTimeAdjustTargets(order: OrderLike, role: string | undefined): TimeAdjustTarget[] {
+    if (!this.isOrderRole(role) || !this.isOrderStatus(order.status)) return [];
+    return TIME_ADJUST_TARGETS.filter(target => matches(TIME_ADJUST_RULES[target], order, role));
+  }
+
+  static canAdjustTime(order: OrderLike, role: string | undefined, target: TimeAdjustTarget): boolean {
+    return this.getTimeAdjustTargets(order, role).includes(target);
+  }
+
+  /**
+   * Status an order ends up in after an action, undefined for side actions
+   */
+  static getNextStatus(action: OrderAction, role: OrderRole): OrderStatus | undefined {
+    const { to } = ACTION_RULES[action];
+    return typeof to === 'function' ? to(role) : to;
+  }
+
+  /**
+   * Check whether a role can move an order from one status to another
+   */
+  static canTransition(order: OrderLike, role: string | undefined, newStatus: string): boolean {
+    if (!this.isOrderRole(role)) return false;
+    return this.getAvailableActions(order, role).some(action => this.getNextStatus(action, role) === newStatus);
+  }
+}
+
+export default OrderStateMachine;
@@ -0,0 +1,263 @@
+/**
+ * Payment Service - online payment through pluggable gateways
+ * The backend opens, verifies and refunds payments with the provider;
+ * the client hands the customer over and brings the callback back.
+ */
+
+import { paymentAPI, ApiResponse, Payment, PaymentSession } from './api';
+import { toast } from 'react-toastify';
+import { logError, logUserAction } from './logger';
+
+/**
+ * Callback parameters as the provider sends them back
+ */
+export interface PaymentCallback {
+  authority: string;
+  // Provider's own status value, e.g. 'OK' / 'NOK'
+  status: string;
+}
+
+/**
+ * A payment provider as seen from the app
+ */
+export interface PaymentGateway {
+  id: string;
+  // i18n key of the display name
+  label: string;
+  initiate: (orderId: string, callbackUrl: string) => Promise<PaymentSession>;
+  // Leave the app for the provider's payment page
+  redirect: (session: PaymentSession, callbackUrl: string) => void;
+  verify: (params: URLSearchParams) => Promise<Payment>;
+  refund: (payment: Payment, amount?: number) => Promise<Payment>;
+}
+
+// Path of the callback route, the gateway id and order ride along in the query
+export const PAYMENT_CALLBACK_PATH = '/payment/callback';
+export const MOCK_GATEWAY_PATH = '/payment/mock';
+
+// The mock gateway marks payments paid without a provider, so production builds must opt in explicitly
+export const MOCK_PAYMENT_ENABLED: boolean =
+  import.meta.env.DEV || import.meta.env.VITE_ENABLE_MOCK_PAYMENT === 'true';
+
+const unwrap = <T>(response: ApiResponse<T>): T => {
+  if (!response.success || !response.data) {
+    throw new Error(response.message || 'Payment request failed');
+  }
+  return response.data;
+};
+
+/**
+ * Gateway whose provider calls go through our backend
+ * Providers only differ in how the customer is sent off and how the callback reads.
+ */
+export const createBackendGateway = (options: {
+  id: string;
+  label: string;
+  redirect: PaymentGateway['redirect'];
+  parseCallback: (params: URLSearchParams) => PaymentCallback | null;
+}): PaymentGateway => ({
+  id: options.id,
+  label: options.label,
+  redirect: options.redirect,
+  initiate: async (orderId, callbackUrl) =>
+    unwrap(await paymentAPI.initiate({ orderId, gateway: options.id, callbackUrl })),
+  verify: async (params) => {
+    const callback = options.parseCallback(params);
+    if (!callback) {
+      throw new Error('Missing payment callback parameters');
+    }
+    return unwrap(await paymentAPI.verify({ gateway: options.id, ...callback }));
+  },
+  refund: async (payment, amount) => unwrap(await paymentAPI.refund(payment._id, amount))
+});
+
+/**
+ * Built-in gateway served by the app itself (see MockGateway page)
+ * Lets the redirect and verify cycle run without a real provider.
+ */
+export const mockGateway = createBackendGateway({
+  id: 'mock',
+  label: 'components.payment.mockGateway',
+  redirect: (session, callbackUrl) => {
+    const params = new URLSearchParams({
+      authority: session.authority,
+      amount: String(session.amount),
+      callback: callbackUrl
+    });
+    window.location.assign(`${MOCK_GATEWAY_PATH}?${params.toString()}`);
+  },
+  parseCallback: (params) => {
+    const authority = params.get('authority');
+    return authority ? { authority, status: params.get('status') || 'NOK' } : null;
+  }
+});
+
+const gateways = new Map<string, PaymentGateway>(MOCK_PAYMENT_ENABLED ? [[mockGateway.id, mockGateway]] : []);
+
+// Unset when no provider is configured, online payment is then unavailable
+export const DEFAULT_PAYMENT_GATEWAY: string | undefined =
+  import.meta.env.VITE_PAYMENT_GATEWAY || (MOCK_PAYMENT_ENABLED ? mockGateway.id : undefined);
+
+/**
+ * Make a provider available to checkout, e.g. from the app entry point
+ */
+export const registerPaymentGateway = (gateway: PaymentGateway) => {
+  gateways.set(gateway.id, gateway);
+};
+
+export const getPaymentGateway = (id: string): PaymentGateway | undefined => gateways.get(id);
+
+/**
+ * Whether checkout can offer online payment through the default gateway
+ */
+export const isOnlinePaymentAvailable = (): boolean =>
+  !!DEFAULT_PAYMENT_GATEWAY && gateways.has(DEFAULT_PAYMENT_GATEWAY);
+
+/**
+ * An order of a checkout-all group still waiting for its online payment
+ */
+export interface PendingPayment {
+  orderId: string;
+  storeName: string;
+}
+
+// Gateways take one order per session, the rest of the group waits here across the redirects
+const PENDING_PAYMENTS_KEY = 'pending_group_payments';
+
+const readPendingPayments = (): PendingPayment[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(PENDING_PAYMENTS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writePendingPayments = (payments: PendingPayment[]) => {
+  if (payments.length > 0) {
+    sessionStorage.setItem(PENDING_PAYMENTS_KEY, JSON.stringify(payments));
+  } else {
+    sessionStorage.removeItem(PENDING_PAYMENTS_KEY);
+  }
+};
+
+const buildCallbackUrl = (gatewayId: string, orderId: string) =>
+  `${window.location.origin}${PAYMENT_CALLBACK_PATH}?${new URLSearchParams({ gateway: gatewayId, orderId }).toString()}`;
+
+/**
+ * Payment Service Class
+ */
+export class PaymentService {
+  /**
+   * Open a payment for the order and redirect to the gateway
+   * @returns false when the payment could not be started; on success the page navigates away
+   */
+  static async startPayment(orderId: string, gatewayId: string | undefined = DEFAULT_PAYMENT_GATEWAY): Promise<boolean> {
+    if (!gatewayId) {
+      logError(new Error('No payment gateway configured'), 'PaymentService.startPayment');
+      toast.error('Online payment is not available');
+      return false;
+    }
+
+    const gateway = getPaymentGateway(gatewayId);
+    if (!gateway) {
+      toast.error(`Unknown payment gateway: ${gatewayId}`);
+      return false;
+    }
+
+    try {
+      const callbackUrl = buildCallbackUrl(gateway.id, orderId);
+      const session = await gateway.initiate(orderId, callbackUrl);
+      logUserAction('payment_started', { orderId, gateway: gateway.id, paymentId: session.paymentId });
+      gateway.redirect(session, callbackUrl);
+      return true;
+    } catch (error: any) {
+      logError(error, 'PaymentService.startPayment');
+      toast.error(error.response?.data?.message || error.message || 'Failed to start payment');
+      return false;
+    }
+  }
+
+  /**
+   * Pay every online order of a checkout-all group, one gateway visit after another
+   * The first order is started right away; the callback page offers the next one.
+   * @returns false when the first payment could not be started
+   */
+  static async startGroupPayment(payments: PendingPayment[]): Promise<boolean> {
+    const [first, ...rest] = payments;
+    if (!first) return false;
+
+    writePendingPayments(rest);
+    const started = await this.startPayment(first.orderId);
+    if (!started) {
+      writePendingPayments([]);
+    }
+    return started;
+  }
+
+  /**
+   * Group orders still waiting to be paid after the current gateway visit
+   */
+  static getPendingPayments(): PendingPayment[] {
+    return readPendingPayments();
+  }
+
+  /**
+   * Continue a group payment with the next waiting order
+   */
+  static async payNextPending(): Promise<boolean> {
+    return this.startGroupPayment(readPendingPayments());
+  }
+
+  /**
+   * Verify the gateway callback on the return route
+   * @param params - Query string the gateway redirected back with
+   * @returns The verified payment (paid, failed or canceled), or null when verification itself failed
+   */
+  static async verifyCallback(params: URLSearchParams): Promise<Payment | null> {
+    const gateway = getPaymentGateway(params.get('gateway') || '');
+    if (!gateway) {
+      logError(new Error(`Unknown payment gateway: ${params.get('gateway')}`), 'PaymentService.verifyCallback');
+      return null;
+    }
+
+    try {
+      const payment = await gateway.verify(params);
+      logUserAction('payment_verified', { orderId: payment.order, gateway: gateway.id, status: payment.status });
+      return payment;
+    } catch (error: any) {
+      logError(error, 'PaymentService.verifyCallback');
+      return null;
+    }
+  }
+
+  /**
+   * Refund the paid online payment of an order through its gateway
+   * @param amount - Partial amount, the full payment when omitted
+   */
+  static async refundOrder(orderId: string, amount?: number): Promise<boolean> {
+    try {
+      const payments = unwrap(await paymentAPI.getForOrder(orderId));
+      const payment = payments.find(p => p.status === 'paid');
+      if (!payment) {
+        toast.error('No online payment to refund for this order');
+        return false;
+      }
+
+      const gateway = getPaymentGateway(payment.gateway);
+      if (!gateway) {
+        toast.error(`Unknown payment gateway: ${payment.gateway}`);
+        return false;
+      }
+
+      await gateway.refund(payment, amount);
+      toast.success('Payment refunded');
+      return true;
+    } catch (error: any) {
+      logError(error, 'PaymentService.refundOrder');
+      toast.error(error.response?.data?.message || error.message || 'Failed to refund payment');
+      return false;
+    }
+  }
+}
+
+export default PaymentService;
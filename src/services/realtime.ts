@@ -0,0 +1,226 @@
+/**
+ * Realtime Service - socket.io connection for live order updates
+ * A single shared socket is opened while at least one subscriber is listening
+ */
+
+import { io, Socket } from 'socket.io-client';
+import { API_BASE_URL, Order } from './api';
+import { logError } from './logger';
+
+export const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || new URL(API_BASE_URL).origin;
+
+/**
+ * Order event types pushed by the backend
+ */
+export type OrderEventType =
+  | 'placed'
+  | 'accepted'
+  | 'prepared'
+  | 'pickedup'
+  | 'delivered'
+  | 'progress';
+
+/**
+ * Progress tick payload (same shape as /order/progress-batch entries)
+ */
+export interface OrderProgress {
+  _id: string;
+  progressPrepare?: number;
+  progressPickup?: number;
+  progressDeliver?: number;
+  minutesLeftPrepare?: number;
+  minutesLeftPickup?: number;
+  minutesLeftDeliver?: number;
+}
+
+export interface OrderEvent {
+  type: OrderEventType;
+  orderId: string;
+  order?: Partial<Order>;
+  progress?: OrderProgress;
+}
+
+/**
+ * Driver position broadcast for an order in delivery
+ */
+export interface DriverLocation {
+  orderId: string;
+  driverId?: string;
+  lat: number;
+  lng: number;
+  // Metres per second, when the device reports it
+  speed?: number | null;
+  heading?: number | null;
+  at: string;
+}
+
+// One order in an order:* socket message: a progress tick, or the order itself, optionally wrapped with its id
+type OrderSocketItem = OrderProgress & Partial<Order> & { orderId?: string; order?: Partial<Order> };
+
+type OrderEventListener = (event: OrderEvent) => void;
+type ConnectionListener = (connected: boolean) => void;
+type DriverLocationListener = (location: DriverLocation) => void;
+
+// Socket event name for each order event type
+const ORDER_SOCKET_EVENTS: Record<OrderEventType, string> = {
+  placed: 'order:placed',
+  accepted: 'order:accepted',
+  prepared: 'order:prepared',
+  pickedup: 'order:pickedup',
+  delivered: 'order:delivered',
+  progress: 'order:progress'
+};
+
+let socket: Socket | null = null;
+const orderListeners = new Set<OrderEventListener>();
+// Listeners for a single order, so per-card subscriptions don't each see every event
+const singleOrderListeners = new Map<string, Set<OrderEventListener>>();
+const connectionListeners = new Set<ConnectionListener>();
+const driverLocationListeners = new Set<DriverLocationListener>();
+
+const emitOrderEvent = (event: OrderEvent) => {
+  orderListeners.forEach(listener => listener(event));
+  singleOrderListeners.get(event.orderId)?.forEach(listener => listener(event));
+
+  // Status changes also refresh the navigation counters
+  if (event.type !== 'progress') {
+    window.dispatchEvent(new CustomEvent('orderUpdate'));
+  }
+};
+
+const emitConnection = (connected: boolean) => {
+  connectionListeners.forEach(listener => listener(connected));
+};
+
+const connect = (): Socket => {
+  if (socket) return socket;
+
+  socket = io(SOCKET_URL, {
+    transports: ['websocket'],
+    // Read on every (re)connect so a login or logout since the socket opened is picked up
+    auth: (cb) => cb({
+      token: localStorage.getItem('token') || undefined,
+      sessionId: localStorage.getItem('sessionId') || undefined
+    }),
+    reconnection: true,
+    reconnectionDelay: 1000,
+    reconnectionDelayMax: 10000
+  });
+
+  socket.on('connect', () => emitConnection(true));
+  socket.on('disconnect', () => emitConnection(false));
+  socket.on('connect_error', (error) => {
+    logError(error, 'realtime.connect');
+    emitConnection(false);
+  });
+
+  (Object.keys(ORDER_SOCKET_EVENTS) as OrderEventType[]).forEach((type) => {
+    socket!.on(ORDER_SOCKET_EVENTS[type], (payload: OrderSocketItem | OrderSocketItem[] | null) => {
+      // Progress ticks may arrive batched
+      const items = Array.isArray(payload) ? payload : [payload];
+      items.forEach((item) => {
+        if (!item) return;
+        if (type === 'progress') {
+          emitOrderEvent({ type, orderId: item._id, progress: item });
+        } else {
+          const order = item.order || item;
+          const orderId = item.orderId || order._id;
+          if (orderId) {
+            emitOrderEvent({ type, orderId, order });
+          }
+        }
+      });
+    });
+  });
+
+  socket.on('driver:location', (payload: DriverLocation) => {
+    if (payload?.orderId) {
+      driverLocationListeners.forEach(listener => listener(payload));
+    }
+  });
+
+  return socket;
+};
+
+const disconnectIfIdle = () => {
+  if (socket && orderListeners.size === 0 && singleOrderListeners.size === 0 && connectionListeners.size === 0 && driverLocationListeners.size === 0) {
+    socket.removeAllListeners();
+    socket.disconnect();
+    socket = null;
+  }
+};
+
+/**
+ * Subscribe to order events, returns an unsubscribe function
+ */
+export const subscribeToOrderEvents = (listener: OrderEventListener): (() => void) => {
+  orderListeners.add(listener);
+  connect();
+  return () => {
+    orderListeners.delete(listener);
+    disconnectIfIdle();
+  };
+};
+
+/**
+ * Subscribe to the events of one order, returns an unsubscribe function
+ */
+export const subscribeToOrder = (orderId: string, listener: OrderEventListener): (() => void) => {
+  const listeners = singleOrderListeners.get(orderId) || new Set<OrderEventListener>();
+  listeners.add(listener);
+  singleOrderListeners.set(orderId, listeners);
+  connect();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      singleOrderListeners.delete(orderId);
+    }
+    disconnectIfIdle();
+  };
+};
+
+/**
+ * Subscribe to connection state changes, returns an unsubscribe function
+ */
+export const subscribeToConnection = (listener: ConnectionListener): (() => void) => {
+  connectionListeners.add(listener);
+  listener(connect().connected);
+  return () => {
+    connectionListeners.delete(listener);
+    disconnectIfIdle();
+  };
+};
+
+/**
+ * Ask the backend to stream progress ticks for the given orders
+ * @param trackingToken - Authorizes a guest, who has no session, to watch the order of the token
+ */
+export const watchOrders = (orderIds: string[], trackingToken?: string) => {
+  if (socket?.connected && orderIds.length > 0) {
+    socket.emit('orders:watch', trackingToken ? { orderIds, trackingToken } : { orderIds });
+  }
+};
+
+export const isRealtimeConnected = (): boolean => !!socket?.connected;
+
+/**
+ * Subscribe to driver positions of watched orders, returns an unsubscribe function
+ */
+export const subscribeToDriverLocation = (listener: DriverLocationListener): (() => void) => {
+  driverLocationListeners.add(listener);
+  connect();
+  return () => {
+    driverLocationListeners.delete(listener);
+    disconnectIfIdle();
+  };
+};
+
+/**
+ * Publish the current driver's position for their active orders
+ * @returns Whether the position was sent (false while disconnected)
+ */
+export const publishDriverLocation = (location: Omit<DriverLocation, 'orderId' | 'at'> & { orderIds: string[] }): boolean => {
+  if (!socket?.connected || location.orderIds.length === 0) return false;
+  socket.emit('driver:location', { ...location, at: new Date().toISOString() });
+  return true;
+};
@@ -0,0 +1,120 @@
+/**
+ * Reorder Service - rebuilds a cart from a past order
+ * Compares the order snapshot against current products before anything is added
+ */
+
+import { cartAPI, productAPI, CartItem, Product } from './api';
+import { toast } from 'react-toastify';
+import { logError, logUserAction } from './logger';
+
+/**
+ * Why a past line can't be re-added as it was
+ */
+export type ReorderIssue = 'unavailable' | 'out_of_stock' | 'limited_stock' | 'price_changed';
+
+/**
+ * One line of a reorder plan
+ */
+export interface ReorderLine {
+  productId: string;
+  catalogId: string;
+  name: string;
+  image?: string | null;
+  orderedQuantity: number;
+  // Quantity that can actually be added right now
+  quantity: number;
+  originalPrice: number;
+  currentPrice?: number;
+  issues: ReorderIssue[];
+}
+
+const buildLine = (item: CartItem, current?: Product): ReorderLine => {
+  const issues: ReorderIssue[] = [];
+  const ordered = item.quantity;
+  let quantity = ordered;
+
+  if (!current || !current.available) {
+    issues.push('unavailable');
+    quantity = 0;
+  } else if (typeof current.stock === 'number' && current.stock <= 0) {
+    issues.push('out_of_stock');
+    quantity = 0;
+  } else if (typeof current.stock === 'number' && current.stock < ordered) {
+    issues.push('limited_stock');
+    quantity = current.stock;
+  }
+
+  if (current && current.price !== item.product.price) {
+    issues.push('price_changed');
+  }
+
+  return {
+    productId: item.product._id,
+    catalogId: item.catalog?._id,
+    name: current?.name || item.product.name,
+    image: current?.image ?? item.product.image,
+    orderedQuantity: ordered,
+    quantity,
+    originalPrice: item.product.price,
+    currentPrice: current?.price,
+    issues
+  };
+};
+
+/**
+ * Reorder Service Class
+ */
+export class ReorderService {
+  /**
+   * Reconcile past order items with the current product state
+   * @param items - Items of the past order
+   * @returns Lines to review, or null when products could not be loaded
+   */
+  static async buildPlan(items: CartItem[]): Promise<ReorderLine[] | null> {
+    try {
+      const productIds = items.map(item => item.product._id);
+      const response = await productAPI.getCartProducts(productIds);
+      if (!response.success) {
+        toast.error(response.message || 'Failed to check products for reorder');
+        return null;
+      }
+
+      const products = new Map<string, Product>(
+        (response.data || []).map((product: Product) => [product._id, product])
+      );
+      return items.map(item => buildLine(item, products.get(item.product._id)));
+    } catch (error: any) {
+      logError(error, 'ReorderService.buildPlan');
+      toast.error(error.message || 'Failed to check products for reorder');
+      return null;
+    }
+  }
+
+  static hasIssues(lines: ReorderLine[]): boolean {
+    return lines.some(line => line.issues.length > 0);
+  }
+
+  /**
+   * Add plan lines to the cart with their original catalog
+   * @returns Number of lines that were added
+   */
+  static async addToCart(lines: ReorderLine[], orderId: string): Promise<number> {
+    let added = 0;
+
+    for (const line of lines) {
+      if (line.quantity <= 0) continue;
+      try {
+        await cartAPI.addToCart(line.productId, line.quantity, line.catalogId);
+        added++;
+      } catch (error: any) {
+        logError(error, 'ReorderService.addToCart');
+        toast.error(`Failed to add ${line.name} to cart`);
+      }
+    }
+
+    logUserAction('reorder', { orderId, lines: lines.length, added });
+    return added;
+  }
+}
+
+export default ReorderService;
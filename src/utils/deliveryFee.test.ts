@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDeliveryFee, calculateFeeForDistance, findDeliveryZone, getActiveSurge } from './deliveryFee';
+
+const PRICING = {
+  baseFee: 20000,
+  perKmRate: 10000,
+  minimumFee: 30000,
+  freeDeliveryThreshold: 500000,
+  maxDistanceKm: 10,
+  surge: []
+};
+
+const LUNCH = { label: 'Lunch', multiplier: 1.5, startTime: '12:00', endTime: '14:00' };
+// Friday nights only; the part after midnight falls on Saturday
+const LATE_FRIDAY = { label: 'Late Friday', multiplier: 2, days: [5], startTime: '22:00', endTime: '02:00' };
+
+// 17 January 2025 is a Friday
+const friday = (hours: number, minutes = 0) => new Date(2025, 0, 17, hours, minutes);
+const saturday = (hours: number, minutes = 0) => new Date(2025, 0, 18, hours, minutes);
+const MORNING = friday(10);
+
+describe('calculateFeeForDistance', () => {
+  it('adds the distance rate to the base fee, rounded up to whole thousands', () => {
+    expect(calculateFeeForDistance(PRICING, 3, 0, MORNING)).toMatchObject({ baseFee: 20000, distanceFee: 30000, total: 50000 });
+    expect(calculateFeeForDistance(PRICING, 2.05, 0, MORNING).total).toBe(41000);
+  });
+
+  it('charges the minimum fee for short trips', () => {
+    expect(calculateFeeForDistance(PRICING, 0.5, 0, MORNING)).toMatchObject({ total: 30000, minimumApplied: true });
+  });
+
+  it('delivers for free from the threshold up', () => {
+    expect(calculateFeeForDistance(PRICING, 3, 499999, MORNING).total).toBe(50000);
+    expect(calculateFeeForDistance(PRICING, 3, 500000, MORNING)).toMatchObject({ total: 0, freeDelivery: true, minimumApplied: false });
+  });
+
+  it('flags trips beyond the maximum distance', () => {
+    expect(calculateFeeForDistance(PRICING, 10, 0, MORNING).outOfRange).toBe(false);
+    expect(calculateFeeForDistance(PRICING, 12, 0, MORNING).outOfRange).toBe(true);
+    expect(calculateFeeForDistance({ ...PRICING, maxDistanceKm: 0 }, 120, 0, MORNING).outOfRange).toBe(false);
+  });
+
+  it('uses the zone fee in place of the base fee', () => {
+    const zone = { name: 'Center', fee: 5000, minimumOrder: 0, polygon: [] };
+    expect(calculateFeeForDistance({ ...PRICING, minimumFee: 0 }, 1, 0, MORNING, zone)).toMatchObject({ baseFee: 5000, zoneName: 'Center', total: 15000 });
+  });
+
+  it('multiplies by the surge active at the given time', () => {
+    const pricing = { ...PRICING, surge: [LUNCH] };
+    expect(calculateFeeForDistance(pricing, 3, 0, friday(13))).toMatchObject({ surgeMultiplier: 1.5, surgeLabel: 'Lunch', total: 75000 });
+    expect(calculateFeeForDistance(pricing, 3, 0, friday(14)).surgeMultiplier).toBe(1);
+  });
+});
+
+describe('getActiveSurge', () => {
+  it('keeps a window that wraps past midnight on the day it started', () => {
+    const pricing = { ...PRICING, surge: [LATE_FRIDAY] };
+    expect(getActiveSurge(pricing, friday(23))?.label).toBe('Late Friday');
+    expect(getActiveSurge(pricing, saturday(1, 59))?.label).toBe('Late Friday');
+    expect(getActiveSurge(pricing, saturday(2))).toBeNull();
+    // Early Friday morning belongs to Thursday night, and Saturday night is not Friday
+    expect(getActiveSurge(pricing, friday(1))).toBeNull();
+    expect(getActiveSurge(pricing, saturday(23))).toBeNull();
+  });
+
+  it('applies a wrapping window without days every night', () => {
+    const pricing = { ...PRICING, surge: [{ ...LATE_FRIDAY, days: [] }] };
+    expect(getActiveSurge(pricing, friday(1))).not.toBeNull();
+    expect(getActiveSurge(pricing, friday(21, 59))).toBeNull();
+  });
+
+  it('picks the highest multiplier where windows overlap', () => {
+    const pricing = { ...PRICING, surge: [LUNCH, { label: 'Rain', multiplier: 1.8, startTime: '00:00', endTime: '23:59' }] };
+    expect(getActiveSurge(pricing, friday(13))?.label).toBe('Rain');
+  });
+});
+
+describe('calculateDeliveryFee', () => {
+  it('prices a scheduled order at its delivery time', () => {
+    const pricing = { ...PRICING, surge: [LUNCH] };
+    const store = { lat: 35.7, lng: 51.4 };
+    expect(calculateDeliveryFee(pricing, store, store, 0, MORNING).surgeMultiplier).toBe(1);
+    expect(calculateDeliveryFee(pricing, store, store, 0, friday(12, 30)).surgeMultiplier).toBe(1.5);
+  });
+
+  it('charges only the base fee when a location is missing', () => {
+    expect(calculateDeliveryFee({ ...PRICING, minimumFee: 0 }, { lat: 35.7, lng: 51.4 }, null, 0, MORNING)).toMatchObject({
+      distanceKm: null,
+      distanceFee: 0,
+      total: 20000
+    });
+  });
+});
+
+const square = (from: number, to: number) => [
+  { lat: from, lng: from },
+  { lat: from, lng: to },
+  { lat: to, lng: to },
+  { lat: to, lng: from }
+];
+
+const ZONES = [
+  { name: 'City', fee: 40000, minimumOrder: 0, polygon: square(0, 2) },
+  { name: 'Center', fee: 20000, minimumOrder: 100000, polygon: square(0.5, 1.5) }
+];
+
+describe('findDeliveryZone', () => {
+  it('returns the zone the point falls in', () => {
+    expect(findDeliveryZone(ZONES, { lat: 0.2, lng: 0.2 })?.name).toBe('City');
+  });
+
+  it('picks the cheapest zone where zones overlap', () => {
+    expect(findDeliveryZone(ZONES, { lat: 1, lng: 1 })?.name).toBe('Center');
+  });
+
+  it('returns null outside every zone or without a point', () => {
+    expect(findDeliveryZone(ZONES, { lat: 3, lng: 3 })).toBeNull();
+    expect(findDeliveryZone(ZONES, null)).toBeNull();
+    expect(findDeliveryZone([], { lat: 1, lng: 1 })).toBeNull();
+  });
+});
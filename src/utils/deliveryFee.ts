@@ -0,0 +1,141 @@
+/**
+ * Delivery fee engine - prices takeout orders from store-to-customer distance
+ */
+import { DeliveryPricing, DeliveryZone, SurgeRule } from '../services/api';
+import { GeoPoint, haversineKm, isPointInPolygon } from './geo';
+
+// Used when a store hasn't configured pricing (matches the old flat fee)
+export const DEFAULT_DELIVERY_PRICING: DeliveryPricing = {
+  baseFee: 50000,
+  perKmRate: 0,
+  minimumFee: 0,
+  freeDeliveryThreshold: 0,
+  maxDistanceKm: 0,
+  surge: []
+};
+
+// Fees are charged in whole thousands of Toman
+const FEE_ROUNDING = 1000;
+
+export interface DeliveryFeeBreakdown {
+  distanceKm: number | null;
+  baseFee: number;
+  distanceFee: number;
+  surgeMultiplier: number;
+  surgeLabel: string | null;
+  minimumApplied: boolean;
+  freeDelivery: boolean;
+  outOfRange: boolean;
+  zoneName: string | null;
+  total: number;
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+const isSurgeActive = (rule: SurgeRule, now: Date): boolean => {
+  const start = toMinutes(rule.startTime);
+  const end = toMinutes(rule.endTime);
+  const current = now.getHours() * 60 + now.getMinutes();
+
+  if (start <= end) {
+    const matchesDay = !rule.days?.length || rule.days.includes(now.getDay());
+    return matchesDay && current >= start && current < end;
+  }
+
+  // Window wraps past midnight: the early-morning part belongs to the previous day
+  if (current >= start) {
+    return !rule.days?.length || rule.days.includes(now.getDay());
+  }
+  if (current < end) {
+    return !rule.days?.length || rule.days.includes((now.getDay() + 6) % 7);
+  }
+  return false;
+};
+
+/**
+ * Highest surge multiplier active at the given time
+ * @returns {SurgeRule | null} The winning rule, or null when none applies
+ */
+export const getActiveSurge = (pricing: DeliveryPricing, now: Date = new Date()): SurgeRule | null => {
+  return (pricing.surge || [])
+    .filter(rule => rule.multiplier > 1 && isSurgeActive(rule, now))
+    .reduce<SurgeRule | null>((best, rule) => (!best || rule.multiplier > best.multiplier ? rule : best), null);
+};
+
+/**
+ * Zone a delivery point falls in; the cheapest one wins where zones overlap
+ * @returns {DeliveryZone | null} Matching zone, or null when the point is outside all of them
+ */
+export const findDeliveryZone = (zones: DeliveryZone[], point: GeoPoint | null): DeliveryZone | null => {
+  if (!point) return null;
+  return zones
+    .filter(zone => isPointInPolygon(point, zone.polygon))
+    .reduce<DeliveryZone | null>((best, zone) => (!best || zone.fee < best.fee ? zone : best), null);
+};
+
+/**
+ * Compute the delivery fee for one store order
+ * @param {DeliveryPricing} pricing - Store pricing
+ * @param {GeoPoint | null} store - Store location
+ * @param {GeoPoint | null} destination - Delivery location
+ * @param {number} subtotal - Items total, checked against the free-delivery threshold
+ * @param {Date} now - Time used for surge windows; the delivery time for scheduled orders
+ * @param {DeliveryZone | null} zone - Matched delivery zone; its fee replaces the base fee
+ * @returns {DeliveryFeeBreakdown} Fee and how it was reached
+ */
+export const calculateDeliveryFee = (
+  pricing: DeliveryPricing,
+  store: GeoPoint | null,
+  destination: GeoPoint | null,
+  subtotal: number,
+  now: Date = new Date(),
+  zone: DeliveryZone | null = null
+): DeliveryFeeBreakdown => {
+  // Without both points only the base fee can be charged
+  const distanceKm = store && destination ? haversineKm(store, destination) : null;
+  return calculateFeeForDistance(pricing, distanceKm, subtotal, now, zone);
+};
+
+/**
+ * Compute the delivery fee for a known distance, e.g. a sample quote
+ * @param {number | null} distanceKm - Store-to-customer distance, null when unknown
+ * @returns {DeliveryFeeBreakdown} Fee and how it was reached
+ */
+export const calculateFeeForDistance = (
+  pricing: DeliveryPricing,
+  distanceKm: number | null,
+  subtotal: number,
+  now: Date = new Date(),
+  zone: DeliveryZone | null = null
+): DeliveryFeeBreakdown => {
+  const baseFee = zone ? zone.fee : pricing.baseFee;
+  const outOfRange = !!pricing.maxDistanceKm && distanceKm !== null && distanceKm > pricing.maxDistanceKm;
+  const distanceFee = distanceKm !== null ? distanceKm * pricing.perKmRate : 0;
+
+  const surge = getActiveSurge(pricing, now);
+  const surgeMultiplier = surge ? surge.multiplier : 1;
+
+  const raw = (baseFee + distanceFee) * surgeMultiplier;
+  const minimumApplied = raw < pricing.minimumFee;
+  const freeDelivery = pricing.freeDeliveryThreshold > 0 && subtotal >= pricing.freeDeliveryThreshold;
+
+  const total = freeDelivery
+    ? 0
+    : Math.ceil(Math.max(raw, pricing.minimumFee) / FEE_ROUNDING) * FEE_ROUNDING;
+
+  return {
+    distanceKm,
+    baseFee,
+    distanceFee: Math.round(distanceFee),
+    surgeMultiplier,
+    surgeLabel: surge ? surge.label : null,
+    minimumApplied: minimumApplied && !freeDelivery,
+    freeDelivery,
+    outOfRange,
+    zoneName: zone ? zone.name : null,
+    total
+  };
+};
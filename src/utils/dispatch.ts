@@ -0,0 +1,69 @@
+/**
+ * Store dispatch helpers - ranking drivers for an order the way the auto-dispatch rules would
+ */
+
+import { AutoDispatchRules, DispatchDriver } from '../services/api';
+import { GeoPoint, haversineKm, toGeoPoint } from './geo';
+
+export const DEFAULT_AUTO_DISPATCH_RULES: AutoDispatchRules = {
+  enabled: false,
+  strategy: 'nearest_online',
+  trigger: 'accepted',
+  maxDistanceKm: 5,
+  maxActiveOrders: 2
+};
+
+export interface RankedDriver {
+  driver: DispatchDriver;
+  // null when the driver doesn't share a location
+  distanceKm: number | null;
+  load: number;
+  online: boolean;
+  // Whether the auto-dispatch rules would consider this driver
+  eligible: boolean;
+}
+
+/**
+ * Drivers count as available only when they set themselves online
+ */
+export const isDriverOnline = (driver: DispatchDriver): boolean => driver.statusMain === 'online';
+
+const byDistance = (a: RankedDriver, b: RankedDriver) =>
+  (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity);
+
+const byLoad = (a: RankedDriver, b: RankedDriver) => a.load - b.load;
+
+/**
+ * Order drivers for a store: eligible ones first, then by the rules' strategy
+ * @param {DispatchDriver[]} drivers - Drivers from userAPI.getDrivers
+ * @param {GeoPoint | null} store - Store location, distances are unknown without it
+ * @param {AutoDispatchRules} rules - Store's auto-dispatch rules
+ * @returns {RankedDriver[]} Ranked drivers, the first eligible one is the suggestion
+ */
+export const rankDrivers = (
+  drivers: DispatchDriver[],
+  store: GeoPoint | null,
+  rules: AutoDispatchRules
+): RankedDriver[] => {
+  const ranked = drivers.map(driver => {
+    const location = toGeoPoint(driver.locationLat, driver.locationLng);
+    const distanceKm = store && location ? haversineKm(store, location) : null;
+    const load = driver.activeOrders || 0;
+    const online = isDriverOnline(driver);
+    return {
+      driver,
+      distanceKm,
+      load,
+      online,
+      eligible: online && load < rules.maxActiveOrders && (distanceKm === null || distanceKm <= rules.maxDistanceKm)
+    };
+  });
+
+  const [first, second] = rules.strategy === 'least_busy' ? [byLoad, byDistance] : [byDistance, byLoad];
+  return ranked.sort((a, b) =>
+    Number(b.eligible) - Number(a.eligible) ||
+    Number(b.online) - Number(a.online) ||
+    first(a, b) ||
+    second(a, b)
+  );
+};
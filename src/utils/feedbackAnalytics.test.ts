@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Order } from '../services/api';
+import { lowestRatedProducts, ratingTrend, searchComments, summarizeFeedback } from './feedbackAnalytics';
+
+const product = (_id: string, name: string) => ({ product: { _id, name } });
+
+const TEA = product('p1', 'Tea');
+const CAKE = product('p2', 'Cake');
+const SOUP = product('p3', 'Soup');
+
+const order = (overrides: Record<string, unknown>) => ({
+  _id: 'order',
+  orderName: '',
+  items: [],
+  datePlaced: new Date(2025, 0, 10, 12, 0).toISOString(),
+  ...overrides
+}) as unknown as Order;
+
+const ORDERS = [
+  // 17 January 2025 is a Friday, the last day of the week starting Saturday the 11th
+  order({ _id: 'a', customerRating: 5, customerReactions: ['love'], items: [TEA, TEA], dateFeedback: new Date(2025, 0, 17, 20, 0).toISOString() }),
+  order({ _id: 'b', customerRating: 2, customerReactions: ['sad', 'love'], items: [CAKE, TEA], dateFeedback: new Date(2025, 0, 18, 9, 0).toISOString() }),
+  order({ _id: 'c', customerRating: 1, items: [CAKE, SOUP], customerComment: 'Cold soup', dateFeedback: new Date(2025, 0, 18, 21, 0).toISOString() }),
+  // Feedback from before the date was recorded falls back to the order date
+  order({ _id: 'd', customerRating: 4, items: [TEA], customerComment: 'Lovely tea', user: { name: 'Sara' } }),
+  order({ _id: 'e', items: [CAKE], customerComment: 'Not rated' })
+];
+
+describe('summarizeFeedback', () => {
+  it('counts rated orders, stars and reactions', () => {
+    expect(summarizeFeedback(ORDERS)).toEqual({
+      ratedOrders: 4,
+      averageRating: 3,
+      distribution: [1, 1, 0, 1, 1],
+      reactions: [{ reaction: 'love', count: 2 }, { reaction: 'sad', count: 1 }]
+    });
+  });
+
+  it('averages to zero without ratings', () => {
+    expect(summarizeFeedback([]).averageRating).toBe(0);
+  });
+});
+
+describe('ratingTrend', () => {
+  it('buckets by the day the feedback was given, not the order date', () => {
+    expect(ratingTrend(ORDERS, 'day')).toEqual([
+      { date: '2025-01-10', average: 4, count: 1 },
+      { date: '2025-01-17', average: 5, count: 1 },
+      { date: '2025-01-18', average: 1.5, count: 2 }
+    ]);
+  });
+
+  it('starts weeks on Saturday', () => {
+    expect(ratingTrend(ORDERS, 'week')).toEqual([
+      { date: '2025-01-04', average: 4, count: 1 },
+      { date: '2025-01-11', average: 5, count: 1 },
+      { date: '2025-01-18', average: 1.5, count: 2 }
+    ]);
+  });
+});
+
+describe('lowestRatedProducts', () => {
+  it('ranks products by the ratings of their orders, counting each order once', () => {
+    expect(lowestRatedProducts(ORDERS)).toEqual([
+      { productId: 'p2', name: 'Cake', average: 1.5, count: 2 },
+      { productId: 'p1', name: 'Tea', average: 11 / 3, count: 3 }
+    ]);
+  });
+
+  it('leaves out products with too few ratings and honours the limit', () => {
+    expect(lowestRatedProducts(ORDERS).map(p => p.productId)).not.toContain('p3');
+    expect(lowestRatedProducts(ORDERS, 1)).toHaveLength(1);
+  });
+});
+
+describe('searchComments', () => {
+  it('lists commented orders by feedback date, newest first', () => {
+    expect(searchComments(ORDERS, '').map(o => o._id)).toEqual(['c', 'd', 'e']);
+  });
+
+  it('matches comments, customers and products', () => {
+    expect(searchComments(ORDERS, 'soup').map(o => o._id)).toEqual(['c']);
+    expect(searchComments(ORDERS, 'sara').map(o => o._id)).toEqual(['d']);
+    expect(searchComments(ORDERS, 'CAKE').map(o => o._id)).toEqual(['c', 'e']);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Feedback analytics helpers - aggregate customer ratings for the store dashboard
+ */
+
+import { Order } from '../services/api';
+import { toDateKey } from './schedule';
+
+// Products need this many ratings before they can rank as lowest-rated
+export const MIN_PRODUCT_RATINGS = 2;
+
+export interface RatingPoint {
+  // Local YYYY-MM-DD of the day (or the Saturday starting the week)
+  date: string;
+  average: number;
+  count: number;
+}
+
+export interface ProductRating {
+  productId: string;
+  name: string;
+  average: number;
+  count: number;
+}
+
+export interface ReactionCount {
+  reaction: string;
+  count: number;
+}
+
+export interface FeedbackSummary {
+  ratedOrders: number;
+  averageRating: number;
+  // Index 0 holds one-star ratings, index 4 five-star ratings
+  distribution: number[];
+  reactions: ReactionCount[];
+}
+
+export const isRated = (order: Order): boolean => (order.customerRating || 0) > 0;
+
+// Feedback of older orders carries no date of its own, so the order date stands in
+const feedbackDate = (order: Order): Date => new Date(order.dateFeedback || order.datePlaced);
+
+export const summarizeFeedback = (orders: Order[]): FeedbackSummary => {
+  const rated = orders.filter(isRated);
+  const distribution = [0, 0, 0, 0, 0];
+  const reactionCounts = new Map<string, number>();
+  let total = 0;
+
+  rated.forEach(order => {
+    const rating = Math.min(5, Math.max(1, Math.round(order.customerRating!)));
+    distribution[rating - 1] += 1;
+    total += order.customerRating!;
+    (order.customerReactions || []).forEach(reaction => {
+      reactionCounts.set(reaction, (reactionCounts.get(reaction) || 0) + 1);
+    });
+  });
+
+  return {
+    ratedOrders: rated.length,
+    averageRating: rated.length > 0 ? total / rated.length : 0,
+    distribution,
+    reactions: Array.from(reactionCounts, ([reaction, count]) => ({ reaction, count }))
+      .sort((a, b) => b.count - a.count)
+  };
+};
+
+/**
+ * Average rating per day the feedback was given, or per week (starting Saturday) for longer ranges
+ */
+export const ratingTrend = (orders: Order[], bucket: 'day' | 'week'): RatingPoint[] => {
+  const buckets = new Map<string, { total: number; count: number }>();
+
+  orders.filter(isRated).forEach(order => {
+    const date = feedbackDate(order);
+    if (bucket === 'week') {
+      date.setDate(date.getDate() - ((date.getDay() + 1) % 7));
+    }
+    const key = toDateKey(date);
+    const entry = buckets.get(key) || { total: 0, count: 0 };
+    entry.total += order.customerRating!;
+    entry.count += 1;
+    buckets.set(key, entry);
+  });
+
+  return Array.from(buckets, ([date, { total, count }]) => ({ date, average: total / count, count }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Products whose orders got the lowest ratings; an order's rating counts for every product in it
+ */
+export const lowestRatedProducts = (orders: Order[], limit = 5): ProductRating[] => {
+  const products = new Map<string, { name: string; total: number; count: number }>();
+
+  orders.filter(isRated).forEach(order => {
+    const seen = new Set<string>();
+    order.items.forEach(item => {
+      const productId = item.product?._id;
+      if (!productId || seen.has(productId)) return;
+      seen.add(productId);
+      const entry = products.get(productId) || { name: item.product.name, total: 0, count: 0 };
+      entry.total += order.customerRating!;
+      entry.count += 1;
+      products.set(productId, entry);
+    });
+  });
+
+  return Array.from(products, ([productId, { name, total, count }]) => ({
+    productId,
+    name,
+    average: total / count,
+    count
+  }))
+    .filter(product => product.count >= MIN_PRODUCT_RATINGS)
+    .sort((a, b) => a.average - b.average || b.count - a.count)
+    .slice(0, limit);
+};
+
+/**
+ * Orders with a written comment matching the search, newest first
+ */
+export const searchComments = (orders: Order[], query: string): Order[] => {
+  const needle = query.trim().toLowerCase();
+  return orders
+    .filter(order => order.customerComment?.trim())
+    .filter(order => {
+      if (!needle) return true;
+      return [
+        order.customerComment,
+        order.storeReply?.text,
+        order.orderName,
+        order.user?.name,
+        order.user?.username,
+        ...order.items.map(item => item.product?.name)
+      ].some(value => value?.toLowerCase().includes(needle));
+    })
+    .sort((a, b) => feedbackDate(b).getTime() - feedbackDate(a).getTime());
+};
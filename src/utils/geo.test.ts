@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { isPointInPolygon } from './geo';
+
+// Unit square, open ring
+const SQUARE = [
+  { lat: 0, lng: 0 },
+  { lat: 0, lng: 1 },
+  { lat: 1, lng: 1 },
+  { lat: 1, lng: 0 }
+];
+
+// L shape: the top-right quarter of a 2x2 square is cut out
+const L_SHAPE = [
+  { lat: 0, lng: 0 },
+  { lat: 0, lng: 2 },
+  { lat: 1, lng: 2 },
+  { lat: 1, lng: 1 },
+  { lat: 2, lng: 1 },
+  { lat: 2, lng: 0 }
+];
+
+describe('isPointInPolygon', () => {
+  it('finds points inside and outside a simple ring', () => {
+    expect(isPointInPolygon({ lat: 0.5, lng: 0.5 }, SQUARE)).toBe(true);
+    expect(isPointInPolygon({ lat: 1.5, lng: 0.5 }, SQUARE)).toBe(false);
+    expect(isPointInPolygon({ lat: 0.5, lng: -0.1 }, SQUARE)).toBe(false);
+  });
+
+  it('handles a closed ring the same as an open one', () => {
+    expect(isPointInPolygon({ lat: 0.5, lng: 0.5 }, [...SQUARE, SQUARE[0]])).toBe(true);
+  });
+
+  it('follows concave outlines', () => {
+    expect(isPointInPolygon({ lat: 0.5, lng: 1.5 }, L_SHAPE)).toBe(true);
+    expect(isPointInPolygon({ lat: 1.5, lng: 0.5 }, L_SHAPE)).toBe(true);
+    expect(isPointInPolygon({ lat: 1.5, lng: 1.5 }, L_SHAPE)).toBe(false);
+  });
+
+  it('never matches a ring with fewer than 3 corners', () => {
+    expect(isPointInPolygon({ lat: 0, lng: 0.5 }, SQUARE.slice(0, 2))).toBe(false);
+  });
+});
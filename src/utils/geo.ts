@@ -0,0 +1,67 @@
+/**
+ * Geographic helpers for distances between map points
+ */
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Build a point from optional coordinates, null when either is missing
+ */
+export const toGeoPoint = (lat?: number | null, lng?: number | null): GeoPoint | null => {
+  if (typeof lat !== 'number' || typeof lng !== 'number' || Number.isNaN(lat) || Number.isNaN(lng)) {
+    return null;
+  }
+  return { lat, lng };
+};
+
+/**
+ * Great-circle distance between two points (haversine)
+ * @param {GeoPoint} from - Start point
+ * @param {GeoPoint} to - End point
+ * @returns {number} Distance in kilometres
+ */
+export const haversineKm = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Whether a point lies inside a polygon (ray casting; the ring needn't be closed)
+ */
+export const isPointInPolygon = (point: GeoPoint, polygon: GeoPoint[]): boolean => {
+  if (polygon.length < 3) return false;
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+// Typical urban courier speed used when the device doesn't report one
+export const DEFAULT_COURIER_SPEED_KMH = 25;
+
+/**
+ * Straight-line ETA between two points
+ * @param {number | null} speedMps - Measured speed in m/s; ignored when the driver is standing still
+ * @returns {number} Minutes, rounded up
+ */
+export const estimateEtaMinutes = (from: GeoPoint, to: GeoPoint, speedMps?: number | null): number => {
+  const speedKmh = speedMps && speedMps > 1.5 ? speedMps * 3.6 : DEFAULT_COURIER_SPEED_KMH;
+  return Math.ceil((haversineKm(from, to) / speedKmh) * 60);
+};
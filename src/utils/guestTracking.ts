@@ -0,0 +1,27 @@
+/**
+ * Tracking links of guest orders - a guest's only way back to an order,
+ * so they are kept for the browser session and survive payment gateway redirects
+ */
+
+export interface GuestTrackingLink {
+  storeName: string;
+  url: string;
+}
+
+const GUEST_TRACKING_LINKS_KEY = 'guest_tracking_links';
+
+export const loadGuestTrackingLinks = (): GuestTrackingLink[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(GUEST_TRACKING_LINKS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveGuestTrackingLinks = (links: GuestTrackingLink[]) => {
+  if (links.length > 0) {
+    sessionStorage.setItem(GUEST_TRACKING_LINKS_KEY, JSON.stringify(links));
+  } else {
+    sessionStorage.removeItem(GUEST_TRACKING_LINKS_KEY);
+  }
+};
@@ -0,0 +1,56 @@
+/**
+ * Cash ledger helpers - totals and grouping for cash-on-delivery orders
+ */
+
+import { CashLedgerEntry } from '../services/api';
+
+export interface LedgerTotals {
+  orders: number;
+  cashCollected: number;
+  deliveryFees: number;
+  tips: number;
+  // Cash the driver has to hand over to the store
+  owed: number;
+}
+
+export interface LedgerGroup extends LedgerTotals {
+  party: CashLedgerEntry['store'];
+  entries: CashLedgerEntry[];
+}
+
+// Delivery fee and tip stay with the driver
+export const owedToStore = (entry: CashLedgerEntry): number =>
+  entry.cashCollected - entry.deliveryFee - (entry.tip || 0);
+
+export const sumLedger = (entries: CashLedgerEntry[]): LedgerTotals =>
+  entries.reduce<LedgerTotals>(
+    (totals, entry) => ({
+      orders: totals.orders + 1,
+      cashCollected: totals.cashCollected + entry.cashCollected,
+      deliveryFees: totals.deliveryFees + entry.deliveryFee,
+      tips: totals.tips + (entry.tip || 0),
+      owed: totals.owed + owedToStore(entry)
+    }),
+    { orders: 0, cashCollected: 0, deliveryFees: 0, tips: 0, owed: 0 }
+  );
+
+/**
+ * Group entries per store (driver view) or per driver (store view), largest debt first
+ */
+export const groupLedger = (entries: CashLedgerEntry[], by: 'store' | 'driver'): LedgerGroup[] => {
+  const groups = new Map<string, { party: CashLedgerEntry['store']; entries: CashLedgerEntry[] }>();
+
+  entries.forEach(entry => {
+    const party = entry[by];
+    const group = groups.get(party._id);
+    if (group) {
+      group.entries.push(entry);
+    } else {
+      groups.set(party._id, { party, entries: [entry] });
+    }
+  });
+
+  return Array.from(groups.values())
+    .map(group => ({ ...group, ...sumLedger(group.entries) }))
+    .sort((a, b) => b.owed - a.owed);
+};
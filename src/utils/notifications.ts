@@ -0,0 +1,101 @@
+/**
+ * Browser notification helpers (Notification API, service worker and Web Push)
+ */
+
+// Served from the site root (public/sw.js) so its scope covers every route
+export const SERVICE_WORKER_URL = '/sw.js';
+
+export const notificationsSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window;
+
+/**
+ * Ask for permission; browsers only show the prompt after a user gesture
+ * @returns {Promise<boolean>} Whether notifications may be shown
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+  return Notification.permission === 'granted';
+};
+
+/**
+ * Show a notification if permission was granted, otherwise do nothing
+ * @param {string} tag - Notifications with the same tag replace each other
+ */
+export const showBrowserNotification = (title: string, body: string, tag?: string) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  try {
+    // Reuse the role favicon set by useFavicon
+    const icon = document.querySelector<HTMLLinkElement>("link[rel*='icon']")?.href;
+    const notification = new Notification(title, { body, tag, icon });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    navigator.serviceWorker?.getRegistration()
+      .then(registration => registration?.showNotification(title, { body, tag }))
+      .catch(() => undefined);
+  }
+};
+
+export const pushSupported = (): boolean =>
+  notificationsSupported() && 'serviceWorker' in navigator && 'PushManager' in window;
+
+/**
+ * Register the app service worker, or return the existing registration
+ */
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!pushSupported()) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (error) {
+    return null;
+  }
+};
+
+// VAPID keys are published base64url-encoded, PushManager wants raw bytes
+const urlBase64ToUint8Array = (base64: string): Uint8Array<ArrayBuffer> => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+};
+
+export const getPushSubscription = async (): Promise<PushSubscription | null> => {
+  if (!pushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+/**
+ * Subscribe this browser to Web Push, asking for permission first
+ * @param {string} vapidPublicKey - The server's application server key
+ * @returns {Promise<PushSubscription | null>} null when unsupported or not permitted
+ */
+export const subscribeToPush = async (vapidPublicKey: string): Promise<PushSubscription | null> => {
+  if (!(await requestNotificationPermission())) return null;
+  const registration = await registerServiceWorker();
+  if (!registration) return null;
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) return existing;
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(vapidPublicKey)
+  });
+};
+
+/**
+ * Drop this browser's subscription; the server forgets it on the next failed push
+ * @returns {Promise<string | null>} Endpoint of the removed subscription
+ */
+export const unsubscribeFromPush = async (): Promise<string | null> => {
+  const subscription = await getPushSubscription().catch(() => null);
+  if (!subscription) return null;
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+};
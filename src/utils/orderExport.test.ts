@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { buildExportRows, ExportLabels } from './orderExport';
+
+const LABELS = new Proxy({} as ExportLabels, { get: (_, key) => String(key) });
+
+const ORDER = {
+  _id: 'order-1',
+  orderName: 'Lunch',
+  datePlaced: '2025-01-15T09:30:00Z',
+  status: 'delivered',
+  isTakeout: true,
+  user: { name: 'Sara' },
+  store: { username: 'cafe' },
+  driver: null,
+  items: [
+    { product: { name: 'Tea', price: 20000 }, quantity: 2 },
+    { product: { name: 'Cake', price: 50000 }, quantity: 1 }
+  ],
+  deliveryFee: 15000,
+  amount: 105000,
+  payment: { _id: 'payment-1' },
+  customerRating: 5
+};
+
+describe('buildExportRows', () => {
+  it('writes one row per order after the header', () => {
+    const [header, row, ...rest] = buildExportRows([ORDER], 'orders', LABELS);
+    expect(rest).toEqual([]);
+    const cells = Object.fromEntries(header.map((column, index) => [column, row[index]]));
+    expect(cells).toMatchObject({
+      orderId: 'order-1',
+      type: 'delivery',
+      customer: 'Sara',
+      store: 'cafe',
+      driver: '',
+      itemCount: 3,
+      subtotal: 90000,
+      deliveryFee: 15000,
+      amount: 105000,
+      paid: 'yes',
+      rating: 5
+    });
+  });
+
+  it('fills order-level money only on the first item row', () => {
+    const [header, ...rows] = buildExportRows([ORDER], 'items', LABELS);
+    const column = (name: string) => rows.map(row => row[header.indexOf(name)]);
+    expect(column('product')).toEqual(['Tea', 'Cake']);
+    expect(column('lineTotal')).toEqual([40000, 50000]);
+    expect(column('amount')).toEqual([105000, '']);
+    expect(column('deliveryFee')).toEqual([15000, '']);
+  });
+
+  it('escapes user text that a spreadsheet would run as a formula', () => {
+    const hostile = {
+      ...ORDER,
+      orderName: '=HYPERLINK("http://evil","x")',
+      user: { name: '+98 912' },
+      store: { name: '@SUM(A1)' },
+      items: [{ product: { name: '-1+2', price: 1000 }, quantity: 1 }]
+    };
+    const [header, row] = buildExportRows([hostile], 'items', LABELS);
+    const cell = (name: string) => row[header.indexOf(name)];
+    expect(cell('orderName')).toBe('\'=HYPERLINK("http://evil","x")');
+    expect(cell('customer')).toBe('\'+98 912');
+    expect(cell('store')).toBe('\'@SUM(A1)');
+    expect(cell('product')).toBe('\'-1+2');
+    expect(cell('unitPrice')).toBe(1000);
+  });
+
+  it('keeps negative numbers as numbers', () => {
+    const [header, row] = buildExportRows([{ ...ORDER, amount: -5000 }], 'orders', LABELS);
+    expect(row[header.indexOf('amount')]).toBe(-5000);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Spreadsheet export of orders - CSV and XLSX, one row per order or per line item
+ */
+
+export type ExportFormat = 'csv' | 'xlsx';
+export type ExportGranularity = 'orders' | 'items';
+
+export type ExportColumn =
+  | 'orderId'
+  | 'orderName'
+  | 'datePersian'
+  | 'dateGregorian'
+  | 'status'
+  | 'type'
+  | 'customer'
+  | 'store'
+  | 'product'
+  | 'quantity'
+  | 'unitPrice'
+  | 'lineTotal'
+  | 'itemCount'
+  | 'subtotal'
+  | 'deliveryFee'
+  | 'amount'
+  | 'paid'
+  | 'driver'
+  | 'rating';
+
+// Header text per column, supplied by the caller so it follows the UI language
+export type ExportLabels = Record<ExportColumn, string> & { yes: string; no: string; delivery: string; inStore: string };
+
+type Cell = string | number;
+
+const ORDER_COLUMNS: ExportColumn[] = [
+  'orderId', 'orderName', 'datePersian', 'dateGregorian', 'status', 'type', 'customer', 'store',
+  'itemCount', 'subtotal', 'deliveryFee', 'amount', 'paid', 'driver', 'rating'
+];
+
+const ITEM_COLUMNS: ExportColumn[] = [
+  'orderId', 'orderName', 'datePersian', 'dateGregorian', 'status', 'type', 'customer', 'store',
+  'product', 'quantity', 'unitPrice', 'lineTotal', 'deliveryFee', 'amount', 'paid', 'driver', 'rating'
+];
+
+// Solar Hijri date with Latin digits so spreadsheets can sort it
+const persianDateFormat = new Intl.DateTimeFormat('fa-IR-u-ca-persian-nu-latn', {
+  year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false
+});
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatGregorian = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const personName = (person: any) => person?.name || person?.username || '';
+
+const orderCells = (order: any, labels: ExportLabels): Partial<Record<ExportColumn, Cell>> => {
+  const placed = new Date(order.datePlaced);
+  const items: any[] = Array.isArray(order.items) ? order.items : [];
+  const valid = !Number.isNaN(placed.getTime());
+
+  return {
+    orderId: order._id,
+    orderName: order.orderName || '',
+    datePersian: valid ? persianDateFormat.format(placed) : '',
+    dateGregorian: valid ? formatGregorian(placed) : '',
+    status: order.status,
+    type: order.isTakeout ? labels.delivery : labels.inStore,
+    customer: personName(order.user),
+    store: personName(order.store),
+    itemCount: items.reduce((sum, item) => sum + (item.quantity || 0), 0),
+    subtotal: items.reduce((sum, item) => sum + (item.product?.price || 0) * (item.quantity || 0), 0),
+    deliveryFee: order.deliveryFee || 0,
+    amount: order.amount || 0,
+    paid: order.payment ? labels.yes : labels.no,
+    driver: personName(order.driver),
+    rating: order.customerRating ?? ''
+  };
+};
+
+// Spreadsheets run text starting with these as a formula, and names and products come from users
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Neutralise text that a spreadsheet would evaluate, numbers are left alone
+ */
+const escapeFormula = (value: Cell): Cell =>
+  typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+const toRow = (columns: ExportColumn[], cells: Partial<Record<ExportColumn, Cell>>): Cell[] =>
+  columns.map(column => escapeFormula(cells[column] ?? ''));
+
+/**
+ * Build the header and rows for an export
+ * Text cells are escaped against formula injection, so both CSV and XLSX get safe values.
+ * In item mode the order-level money columns are filled on the first line only,
+ * so summing a column doesn't count an order twice
+ * @returns {Cell[][]} Header row followed by data rows
+ */
+export const buildExportRows = (orders: any[], granularity: ExportGranularity, labels: ExportLabels): Cell[][] => {
+  const columns = granularity === 'orders' ? ORDER_COLUMNS : ITEM_COLUMNS;
+  const rows: Cell[][] = [columns.map(column => labels[column])];
+
+  orders.forEach(order => {
+    const cells = orderCells(order, labels);
+    if (granularity === 'orders') {
+      rows.push(toRow(columns, cells));
+      return;
+    }
+
+    const items: any[] = Array.isArray(order.items) ? order.items : [];
+    items.forEach((item, index) => {
+      const price = item.product?.price || 0;
+      rows.push(toRow(columns, {
+        ...cells,
+        product: item.product?.name || '',
+        quantity: item.quantity || 0,
+        unitPrice: price,
+        lineTotal: price * (item.quantity || 0),
+        deliveryFee: index === 0 ? cells.deliveryFee : '',
+        amount: index === 0 ? cells.amount : ''
+      }));
+    });
+  });
+
+  return rows;
+};
+
+const escapeCsv = (value: Cell): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right after click cancels the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
+
+/**
+ * Download rows as a file
+ * @param {Cell[][]} rows - Output of buildExportRows
+ * @param {ExportFormat} format - csv or xlsx
+ * @param {string} filename - Name without extension
+ * @param {boolean} rtl - Open the XLSX sheet right-to-left
+ */
+export const downloadExport = async (rows: Cell[][], format: ExportFormat, filename: string, rtl: boolean = false) => {
+  if (format === 'csv') {
+    // The BOM makes Excel read the file as UTF-8 (Persian text otherwise turns into mojibake)
+    const csv = '\uFEFF' + rows.map(row => row.map(escapeCsv).join(',')).join('\r\n');
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+    return;
+  }
+
+  // Loaded on demand to keep SheetJS out of the main bundle
+  const XLSX = await import('xlsx');
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = rows[0].map((_, col) => ({
+    wch: Math.min(40, Math.max(...rows.map(row => String(row[col] ?? '').length)) + 2)
+  }));
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, sheet, 'Orders');
+  if (rtl) {
+    book.Workbook = { Views: [{ RTL: true }] };
+  }
+  XLSX.writeFile(book, `${filename}.xlsx`);
+};
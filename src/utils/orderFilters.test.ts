@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { filterOrders } from './orderFilters';
+
+const order = (overrides: Record<string, unknown>) => ({
+  _id: 'order',
+  orderName: '',
+  status: 'placed',
+  datePlaced: new Date(2025, 0, 15, 12, 0).toISOString(),
+  amount: 100000,
+  isTakeout: true,
+  user: { name: 'Sara', username: 'sara' },
+  ...overrides
+});
+
+const ORDERS = [
+  order({ _id: 'a1', status: 'placed', orderName: 'Breakfast' }),
+  order({ _id: 'b2', status: 'accepted', amount: 250000, isTakeout: false, user: { name: 'Ali', username: 'ali' } }),
+  order({ _id: 'c3', status: 'delivered', datePlaced: new Date(2025, 0, 16, 8, 30).toISOString(), driver: { _id: 'd1' } }),
+  order({ _id: 'd4', status: 'placed', scheduledFor: new Date(2025, 0, 17, 13, 0).toISOString() })
+];
+
+const ids = (orders: any[]) => orders.map(o => o._id);
+
+describe('filterOrders', () => {
+  it('returns everything without filters', () => {
+    expect(ids(filterOrders(ORDERS, {}))).toEqual(['a1', 'b2', 'c3', 'd4']);
+  });
+
+  it('treats an empty status list as no status filter', () => {
+    expect(ids(filterOrders(ORDERS, { status: [] }))).toHaveLength(4);
+    expect(ids(filterOrders(ORDERS, { status: ['placed', 'accepted'] }))).toEqual(['a1', 'b2', 'd4']);
+  });
+
+  it('filters by local date and time range', () => {
+    expect(ids(filterOrders(ORDERS, { dateFrom: '2025-01-16' }))).toEqual(['c3']);
+    expect(ids(filterOrders(ORDERS, { dateTo: '2025-01-15', timeTo: '11:00' }))).toEqual([]);
+    expect(ids(filterOrders(ORDERS, { timeFrom: '08:00', timeTo: '09:00' }))).toEqual(['c3']);
+  });
+
+  it('filters by amount, type, scheduling and driver', () => {
+    expect(ids(filterOrders(ORDERS, { priceMin: '200000' }))).toEqual(['b2']);
+    expect(ids(filterOrders(ORDERS, { orderType: 'in-store' }))).toEqual(['b2']);
+    expect(ids(filterOrders(ORDERS, { scheduling: 'scheduled' }))).toEqual(['d4']);
+    expect(ids(filterOrders(ORDERS, { hasDriver: 'assigned' }, 'store'))).toEqual(['c3']);
+    // Only stores and drivers filter by driver
+    expect(ids(filterOrders(ORDERS, { hasDriver: 'assigned' }, 'customer'))).toHaveLength(4);
+  });
+
+  it('searches customers only for staff-side roles', () => {
+    expect(ids(filterOrders(ORDERS, { searchTerm: 'ali' }, 'store'))).toEqual(['b2']);
+    expect(ids(filterOrders(ORDERS, { searchTerm: 'ali' }, 'customer'))).toEqual([]);
+    expect(ids(filterOrders(ORDERS, { searchTerm: 'break' }, 'customer'))).toEqual(['a1']);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Client-side order filtering shared by the orders list and exports
+ */
+import { OrderFilters } from '../components/OrderFilters';
+import { isScheduledOrder } from './schedule';
+
+/**
+ * Apply the order filters panel to a list of orders
+ * @param {any[]} orders - Orders to filter
+ * @param {OrderFilters} filters - Current filter values
+ * @param {string} role - Viewer role; customers can't search by customer and only stores/drivers filter by driver
+ * @returns {any[]} Orders matching every filter
+ */
+export const filterOrders = (orders: any[], filters: OrderFilters, role?: string): any[] => {
+  return orders.filter((order) => {
+    // Status filter
+    if (filters.status && filters.status.length > 0 && !filters.status.includes(order.status)) {
+      return false;
+    }
+
+    // Date and time range filter
+    if (filters.dateFrom || filters.dateTo || filters.timeFrom || filters.timeTo) {
+      const orderDate = new Date(order.datePlaced);
+
+      // Date filtering
+      if (filters.dateFrom) {
+        const fromDate = new Date(filters.dateFrom);
+        if (filters.timeFrom) {
+          const [hours, minutes] = filters.timeFrom.split(':');
+          fromDate.setHours(parseInt(hours), parseInt(minutes), 0, 0);
+        } else {
+          fromDate.setHours(0, 0, 0, 0); // Start of day
+        }
+        if (orderDate < fromDate) return false;
+      }
+
+      if (filters.dateTo) {
+        const toDate = new Date(filters.dateTo);
+        if (filters.timeTo) {
+          const [hours, minutes] = filters.timeTo.split(':');
+          toDate.setHours(parseInt(hours), parseInt(minutes), 59, 999);
+        } else {
+          toDate.setHours(23, 59, 59, 999); // End of day
+        }
+        if (orderDate > toDate) return false;
+      }
+
+      // Time-only filtering (if dates are not set but times are)
+      if (!filters.dateFrom && !filters.dateTo && (filters.timeFrom || filters.timeTo)) {
+        const orderTime = orderDate.getHours() * 60 + orderDate.getMinutes();
+
+        if (filters.timeFrom) {
+          const [hours, minutes] = filters.timeFrom.split(':');
+          const fromTime = parseInt(hours) * 60 + parseInt(minutes);
+          if (orderTime < fromTime) return false;
+        }
+
+        if (filters.timeTo) {
+          const [hours, minutes] = filters.timeTo.split(':');
+          const toTime = parseInt(hours) * 60 + parseInt(minutes);
+          if (orderTime > toTime) return false;
+        }
+      }
+    }
+
+    // Price range filter
+    if (filters.priceMin || filters.priceMax) {
+      const orderAmount = Number(order.amount || 0);
+      const minPrice = filters.priceMin ? Number(filters.priceMin) : null;
+      const maxPrice = filters.priceMax ? Number(filters.priceMax) : null;
+
+      if (minPrice !== null && orderAmount < minPrice) return false;
+      if (maxPrice !== null && orderAmount > maxPrice) return false;
+    }
+
+    // Scheduled / immediate filter
+    if (filters.scheduling) {
+      const shouldBeScheduled = filters.scheduling === 'scheduled';
+      if (isScheduledOrder(order) !== shouldBeScheduled) return false;
+    }
+
+    // Order type filter
+    if (filters.orderType) {
+      const isTakeout = filters.orderType === 'delivery';
+      if (order.isTakeout !== isTakeout) return false;
+    }
+
+    // Driver assignment filter (for stores and drivers)
+    if (filters.hasDriver && (role === 'store' || role === 'driver')) {
+      const hasDriver = !!order.driver;
+      const shouldHaveDriver = filters.hasDriver === 'assigned';
+      if (hasDriver !== shouldHaveDriver) return false;
+    }
+
+    // Search term filter
+    if (filters.searchTerm) {
+      const searchTerm = filters.searchTerm.toLowerCase();
+      const matchesOrderId = order._id.toLowerCase().includes(searchTerm);
+      const matchesOrderName = order.orderName?.toLowerCase().includes(searchTerm);
+
+      let matchesCustomer = false;
+      if (role !== 'customer') {
+        matchesCustomer = order.user?.name?.toLowerCase().includes(searchTerm) ||
+          order.user?.username?.toLowerCase().includes(searchTerm);
+      }
+
+      if (!matchesOrderId && !matchesOrderName && !matchesCustomer) {
+        return false;
+      }
+    }
+
+    // Customer name filter
+    if (filters.customerName) {
+      const name = filters.customerName.toLowerCase();
+      if (!order.user?.name?.toLowerCase().includes(name) && !order.user?.username?.toLowerCase().includes(name)) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { getGroupTotal, groupOrderHistory } from './orderGroups';
+
+describe('groupOrderHistory', () => {
+  it('collects group members under the first one and keeps the list order', () => {
+    const orders = [
+      { _id: 'a', orderGroup: 'g1' },
+      { _id: 'b' },
+      { _id: 'c', orderGroup: 'g1' },
+      { _id: 'd', orderGroup: 'g2' },
+      { _id: 'e', orderGroup: 'g2' }
+    ];
+    expect(groupOrderHistory(orders).map(entry => [entry.groupId, entry.orders.map(o => o._id)])).toEqual([
+      ['g1', ['a', 'c']],
+      [null, ['b']],
+      ['g2', ['d', 'e']]
+    ]);
+  });
+
+  it('shows a group with a single visible order as a lone order', () => {
+    expect(groupOrderHistory([{ _id: 'a', orderGroup: 'g1' }, { _id: 'b' }])).toEqual([
+      { groupId: null, orders: [{ _id: 'a', orderGroup: 'g1' }] },
+      { groupId: null, orders: [{ _id: 'b' }] }
+    ]);
+  });
+
+  it('returns nothing for no orders', () => {
+    expect(groupOrderHistory([])).toEqual([]);
+  });
+});
+
+describe('getGroupTotal', () => {
+  it('adds tips to the order amounts, which already carry the delivery fee', () => {
+    const orders = [
+      { amount: 115000, deliveryFee: 15000, tip: 10000 },
+      { amount: 60000, deliveryFee: 20000 },
+      { amount: 30000, deliveryFee: 0, tip: 5000 }
+    ];
+    expect(getGroupTotal(orders)).toBe(220000);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Checkout-all groups as the customer's order history shows them
+ */
+
+/**
+ * An order history entry: a lone order, or the store orders of one checkout-all
+ */
+export interface OrderHistoryEntry {
+  groupId: string | null;
+  orders: any[];
+}
+
+/**
+ * Collect grouped orders under their first member, keeping the list order otherwise
+ * @param {any[]} orders - Orders in display order
+ * @returns {OrderHistoryEntry[]} Entries, groups of one are shown as lone orders
+ */
+export const groupOrderHistory = (orders: any[]): OrderHistoryEntry[] => {
+  const entries: OrderHistoryEntry[] = [];
+  const byGroup = new Map<string, OrderHistoryEntry>();
+
+  for (const order of orders) {
+    const groupId = order.orderGroup;
+    if (!groupId) {
+      entries.push({ groupId: null, orders: [order] });
+      continue;
+    }
+    const existing = byGroup.get(groupId);
+    if (existing) {
+      existing.orders.push(order);
+    } else {
+      const entry = { groupId, orders: [order] };
+      byGroup.set(groupId, entry);
+      entries.push(entry);
+    }
+  }
+
+  return entries.map(entry => entry.orders.length > 1 ? entry : { groupId: null, orders: entry.orders });
+};
+
+/**
+ * What the customer paid across a group; amount already includes the delivery fee, tips are separate
+ */
+export const getGroupTotal = (orders: any[]): number =>
+  orders.reduce((sum, order) => sum + (order.amount || 0) + (order.tip || 0), 0);
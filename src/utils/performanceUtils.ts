@@ -38,12 +38,12 @@ export const useMemoizedValue = <T>(fn: () => T, dependencies: any[] = []) => {
  * Debounce a function to limit how often it can be called
  * @param {Function} func - Function to debounce
  * @param {number} wait - Time to wait in milliseconds
- * @returns {Function} Debounced function
+ * @returns {Function} Debounced function, with cancel() to drop a pending call
  */
 export const debounce = <T extends (...args: any[]) => any>(func: T, wait: number) => {
   let timeout: NodeJS.Timeout | null = null;
 
-  return function executedFunction(...args: Parameters<T>) {
+  const executedFunction = (...args: Parameters<T>) => {
     const later = () => {
       timeout = null;
       func(...args);
@@ -55,6 +55,15 @@ export const debounce = <T extends (...args: any[]) => any>(func: T, wait: numbe
 
     timeout = setTimeout(later, wait);
   };
+
+  executedFunction.cancel = () => {
+    if (timeout) {
+      clearTimeout(timeout);
+      timeout = null;
+    }
+  };
+
+  return executedFunction;
 };
 
 /**
@@ -0,0 +1,145 @@
+/**
+ * Receipt rendering helpers - print and PDF export of order receipts
+ * Receipts are rendered inside an isolated iframe so neither the printout nor
+ * html2canvas sees the app stylesheets (Tailwind's oklch colors break html2canvas)
+ */
+
+export type ReceiptPaper = 'a4' | 'thermal';
+
+export const RECEIPT_PAPERS: Record<ReceiptPaper, { widthMm: number; heightMm?: number; marginMm: number }> = {
+  a4: { widthMm: 210, heightMm: 297, marginMm: 12 },
+  // 80mm thermal roll, height grows with content
+  thermal: { widthMm: 80, marginMm: 3 }
+};
+
+/**
+ * Public tracking page for an order, opened without logging in
+ */
+export const getTrackingUrl = (orderId: string, trackingToken: string): string =>
+  `${window.location.origin}/track/${encodeURIComponent(orderId)}?token=${encodeURIComponent(trackingToken)}`;
+
+/**
+ * Link to an order, encoded in the receipt QR - the tracking page when the order has a token
+ */
+export const getOrderUrl = (orderId: string, trackingToken?: string): string =>
+  trackingToken
+    ? getTrackingUrl(orderId, trackingToken)
+    : `${window.location.origin}/orders?order=${encodeURIComponent(orderId)}`;
+
+const MM_PER_PX = 25.4 / 96;
+
+const buildDocument = (markup: string, paper: ReceiptPaper, dir: string) => {
+  const { widthMm, heightMm, marginMm } = RECEIPT_PAPERS[paper];
+  // Roll paper gets its page height once the content has laid out, see fitPageToContent
+  const pageSize = heightMm ? `size: ${widthMm}mm ${heightMm}mm; ` : '';
+
+  return `<!doctype html>
+<html dir="${dir}">
+<head>
+<meta charset="utf-8" />
+<style>
+  @page { ${pageSize}margin: ${marginMm}mm; }
+  * { box-sizing: border-box; }
+  html, body { margin: 0; padding: 0; background: #ffffff; color: #111111; }
+  body { width: ${widthMm - marginMm * 2}mm; font-family: Vazirmatn, Tahoma, 'Segoe UI', sans-serif; }
+</style>
+</head>
+<body>${markup}</body>
+</html>`;
+};
+
+/**
+ * Mount receipt markup in a hidden iframe and wait until it has laid out
+ */
+const mountFrame = (markup: string, paper: ReceiptPaper, dir: string): Promise<HTMLIFrameElement> => {
+  return new Promise((resolve) => {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.position = 'fixed';
+    frame.style.right = '0';
+    frame.style.bottom = '0';
+    frame.style.width = `${RECEIPT_PAPERS[paper].widthMm}mm`;
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.style.visibility = 'hidden';
+    frame.onload = () => resolve(frame);
+    frame.srcdoc = buildDocument(markup, paper, dir);
+    document.body.appendChild(frame);
+  });
+};
+
+/**
+ * Size a roll-paper page to the rendered receipt so it prints as one page
+ */
+const fitPageToContent = (frame: HTMLIFrameElement, paper: ReceiptPaper) => {
+  const { widthMm, heightMm, marginMm } = RECEIPT_PAPERS[paper];
+  const doc = frame.contentDocument;
+  if (heightMm || !doc) return;
+
+  const contentHeightMm = Math.ceil(doc.body.scrollHeight * MM_PER_PX);
+  const style = doc.createElement('style');
+  style.textContent = `@page { size: ${widthMm}mm ${contentHeightMm + marginMm * 2}mm; }`;
+  doc.head.appendChild(style);
+};
+
+/**
+ * Open the browser print dialog for a receipt element
+ */
+export const printReceipt = async (element: HTMLElement, paper: ReceiptPaper, dir: string = 'rtl') => {
+  const frame = await mountFrame(element.outerHTML, paper, dir);
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    throw new Error('Print frame is not available');
+  }
+  fitPageToContent(frame, paper);
+
+  frameWindow.onafterprint = () => frame.remove();
+  frameWindow.focus();
+  frameWindow.print();
+  // Some browsers never fire afterprint for iframes
+  setTimeout(() => frame.isConnected && frame.remove(), 60000);
+};
+
+/**
+ * Render a receipt element to PDF and trigger a download
+ */
+export const downloadReceiptPdf = async (
+  element: HTMLElement,
+  paper: ReceiptPaper,
+  fileName: string,
+  dir: string = 'rtl'
+) => {
+  // Loaded on demand, both libraries are large and only needed here
+  const [{ default: html2canvas }, { jsPDF }] = await Promise.all([
+    import('html2canvas'),
+    import('jspdf')
+  ]);
+
+  const frame = await mountFrame(element.outerHTML, paper, dir);
+  try {
+    const body = frame.contentDocument!.body;
+    const canvas = await html2canvas(body, { scale: 2, backgroundColor: '#ffffff' });
+
+    const { widthMm, heightMm, marginMm } = RECEIPT_PAPERS[paper];
+    const contentWidth = widthMm - marginMm * 2;
+    const contentHeight = (canvas.height * contentWidth) / canvas.width;
+    const pageHeight = heightMm ?? contentHeight + marginMm * 2;
+    const image = canvas.toDataURL('image/png');
+
+    const pdf = new jsPDF({ unit: 'mm', format: [widthMm, pageHeight] });
+    const usableHeight = pageHeight - marginMm * 2;
+
+    // Long A4 receipts continue on following pages
+    let offset = 0;
+    while (offset < contentHeight) {
+      if (offset > 0) pdf.addPage([widthMm, pageHeight]);
+      pdf.addImage(image, 'PNG', marginMm, marginMm - offset, contentWidth, contentHeight);
+      offset += usableHeight;
+    }
+
+    pdf.save(fileName);
+  } finally {
+    frame.remove();
+  }
+};
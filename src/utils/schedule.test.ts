@@ -0,0 +1,31 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { combineDateAndSlot, getTimeSlots, toDateKey } from './schedule';
+
+// Checkout runs in Tehran (UTC+3:30), where local midnight is still the previous day in UTC
+const originalTz = process.env.TZ;
+beforeAll(() => { process.env.TZ = 'Asia/Tehran'; });
+afterAll(() => { process.env.TZ = originalTz; });
+
+describe('toDateKey', () => {
+  it('keeps the local calendar day that toISOString would move back', () => {
+    const picked = new Date(2025, 0, 15);
+    expect(picked.toISOString().split('T')[0]).toBe('2025-01-14');
+    expect(toDateKey(picked)).toBe('2025-01-15');
+  });
+});
+
+describe('combineDateAndSlot', () => {
+  it('builds the slot on the picked local day', () => {
+    const slot = combineDateAndSlot(toDateKey(new Date(2025, 0, 15)), '12:30');
+    expect([slot.getFullYear(), slot.getMonth(), slot.getDate(), slot.getHours(), slot.getMinutes()]).toEqual([2025, 0, 15, 12, 30]);
+  });
+});
+
+describe('getTimeSlots', () => {
+  it('drops slots inside the lead time on the same day', () => {
+    const now = new Date(2025, 0, 15, 12, 0);
+    const slots = getTimeSlots('2025-01-15', now);
+    expect(slots[0]).toBe('13:00');
+    expect(getTimeSlots('2025-01-16', now)[0]).toBe('08:00');
+  });
+});
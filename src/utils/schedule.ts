@@ -0,0 +1,68 @@
+/**
+ * Scheduling helpers for future ("deliver at") orders
+ */
+
+// Slot length offered at checkout
+export const SLOT_MINUTES = 30;
+
+// Service hours for scheduled slots (minutes from midnight)
+export const SLOT_DAY_START = 8 * 60;
+export const SLOT_DAY_END = 23 * 60 + 30;
+
+// Earliest slot must leave the store this much time to prepare
+export const SLOT_LEAD_MINUTES = 45;
+
+// A scheduled order joins the active lane this long before its slot
+export const SCHEDULE_ACTIVATION_MINUTES = 60;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Local YYYY-MM-DD for a date, matching PersianDatePicker values
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Combine a YYYY-MM-DD date and HH:MM slot into a local Date
+ */
+export const combineDateAndSlot = (date: string, slot: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = slot.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes, 0, 0);
+};
+
+/**
+ * Bookable HH:MM slots for a day, skipping those inside the lead time
+ * @param {string} date - Day as YYYY-MM-DD
+ * @param {Date} now - Reference time
+ * @returns {string[]} Slots in ascending order
+ */
+export const getTimeSlots = (date: string, now: Date = new Date()): string[] => {
+  const earliest = now.getTime() + SLOT_LEAD_MINUTES * 60 * 1000;
+  const slots: string[] = [];
+
+  for (let minutes = SLOT_DAY_START; minutes <= SLOT_DAY_END; minutes += SLOT_MINUTES) {
+    const slot = `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+    if (combineDateAndSlot(date, slot).getTime() >= earliest) {
+      slots.push(slot);
+    }
+  }
+
+  return slots;
+};
+
+export const isScheduledOrder = (order: { scheduledFor?: string | null }): boolean =>
+  !!order.scheduledFor;
+
+/**
+ * Whether a scheduled order is still waiting for its activation window
+ */
+export const isAwaitingSchedule = (
+  order: { scheduledFor?: string | null; status: string },
+  now: Date = new Date()
+): boolean => {
+  if (!order.scheduledFor || !['placed', 'accepted'].includes(order.status)) return false;
+  const activatesAt = new Date(order.scheduledFor).getTime() - SCHEDULE_ACTIVATION_MINUTES * 60 * 1000;
+  return activatesAt > now.getTime();
+};
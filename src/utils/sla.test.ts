@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SLA_SETTINGS, getSlaStatus } from './sla';
+
+const NOW = new Date(2025, 0, 15, 12, 0);
+
+const minutesFromNow = (minutes: number) => new Date(NOW.getTime() + minutes * 60000).toISOString();
+
+describe('getSlaStatus', () => {
+  it('works against the estimate of the current stage', () => {
+    const order = {
+      status: 'prepared',
+      isTakeout: true,
+      datePrepared_byStore_est: minutesFromNow(-30),
+      datePickedup_byDriver_est: minutesFromNow(10)
+    };
+    expect(getSlaStatus(order, DEFAULT_SLA_SETTINGS, NOW)).toEqual({ stage: 'pickup', minutesLeft: 10, level: 'ok' });
+  });
+
+  it('warns inside the stage window and breaches once the estimate passes', () => {
+    const order = (minutes: number) => ({ status: 'accepted', isTakeout: false, datePrepared_byStore_est: minutesFromNow(minutes) });
+    expect(getSlaStatus(order(4), DEFAULT_SLA_SETTINGS, NOW)?.level).toBe('ok');
+    expect(getSlaStatus(order(3), DEFAULT_SLA_SETTINGS, NOW)?.level).toBe('warning');
+    expect(getSlaStatus(order(0), DEFAULT_SLA_SETTINGS, NOW)?.level).toBe('breached');
+    expect(getSlaStatus(order(-2), DEFAULT_SLA_SETTINGS, NOW)).toEqual({ stage: 'prepare', minutesLeft: -2, level: 'breached' });
+  });
+
+  it('uses the store warning window per stage', () => {
+    const order = { status: 'pickedup', isTakeout: true, dateDelivered_byDriver_est: minutesFromNow(8) };
+    expect(getSlaStatus(order, DEFAULT_SLA_SETTINGS, NOW)?.level).toBe('ok');
+    expect(getSlaStatus(order, { ...DEFAULT_SLA_SETTINGS, deliverWarnMinutes: 10 }, NOW)?.level).toBe('warning');
+  });
+
+  it('prefers live progress over the order snapshot', () => {
+    const order = { status: 'accepted', isTakeout: true, datePrepared_byStore_est: minutesFromNow(20) };
+    expect(getSlaStatus(order, DEFAULT_SLA_SETTINGS, NOW, { datePrepared_byStore_est: minutesFromNow(-1) })?.level).toBe('breached');
+    expect(getSlaStatus({ status: 'accepted', isTakeout: true }, DEFAULT_SLA_SETTINGS, NOW, { minutesLeftPrepare: 2 })?.level).toBe('warning');
+  });
+
+  it('has no status without a running estimate', () => {
+    expect(getSlaStatus({ status: 'placed', isTakeout: true }, DEFAULT_SLA_SETTINGS, NOW)).toBeNull();
+    expect(getSlaStatus({ status: 'received', isTakeout: true }, DEFAULT_SLA_SETTINGS, NOW)).toBeNull();
+    expect(getSlaStatus({ status: 'accepted', isTakeout: true }, DEFAULT_SLA_SETTINGS, NOW)).toBeNull();
+    // In-store orders have no pickup or delivery leg
+    expect(getSlaStatus({ status: 'prepared', isTakeout: false, datePickedup_byDriver_est: minutesFromNow(-5) }, DEFAULT_SLA_SETTINGS, NOW)).toBeNull();
+  });
+
+  it('ignores scheduled orders until their window opens', () => {
+    const order = {
+      status: 'accepted',
+      isTakeout: true,
+      scheduledFor: new Date(2025, 0, 16, 12, 0).toISOString(),
+      datePrepared_byStore_est: minutesFromNow(-5)
+    };
+    expect(getSlaStatus(order, DEFAULT_SLA_SETTINGS, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * SLA helpers - how far an active order is from breaching its current estimate
+ */
+
+import { SlaSettings, SlaStage } from '../services/api';
+import { isAwaitingSchedule } from './schedule';
+
+export type SlaLevel = 'ok' | 'warning' | 'breached';
+
+export interface SlaStatus {
+  stage: SlaStage;
+  // Negative once the estimate has passed
+  minutesLeft: number;
+  level: SlaLevel;
+}
+
+export const DEFAULT_SLA_SETTINGS: SlaSettings = {
+  prepareWarnMinutes: 3,
+  pickupWarnMinutes: 3,
+  deliverWarnMinutes: 5,
+  browserNotifications: true,
+  sound: true
+};
+
+// Which estimate an order is working against in each status
+const STAGE_BY_STATUS: Record<string, SlaStage> = {
+  accepted: 'prepare',
+  prepared: 'pickup',
+  pickedup: 'deliver'
+};
+
+const ESTIMATE_FIELDS: Record<SlaStage, { date: string; minutes: string }> = {
+  prepare: { date: 'datePrepared_byStore_est', minutes: 'minutesLeftPrepare' },
+  pickup: { date: 'datePickedup_byDriver_est', minutes: 'minutesLeftPickup' },
+  deliver: { date: 'dateDelivered_byDriver_est', minutes: 'minutesLeftDeliver' }
+};
+
+const WARN_FIELDS: Record<SlaStage, keyof SlaSettings> = {
+  prepare: 'prepareWarnMinutes',
+  pickup: 'pickupWarnMinutes',
+  deliver: 'deliverWarnMinutes'
+};
+
+/**
+ * SLA status of an order's current stage
+ * @param progress - Live progress for the order, preferred over the order snapshot
+ * @returns null when the order has no running estimate
+ */
+export const getSlaStatus = (
+  order: any,
+  settings: SlaSettings,
+  now: Date = new Date(),
+  progress?: Record<string, any>
+): SlaStatus | null => {
+  const stage = STAGE_BY_STATUS[order.status];
+  if (!stage || (stage !== 'prepare' && !order.isTakeout) || isAwaitingSchedule(order, now)) return null;
+
+  const fields = ESTIMATE_FIELDS[stage];
+  const estimate = progress?.[fields.date] ?? order[fields.date];
+  const minutesLeft = estimate
+    ? (new Date(estimate).getTime() - now.getTime()) / 60000
+    : progress?.[fields.minutes] ?? order[fields.minutes];
+  if (typeof minutesLeft !== 'number' || Number.isNaN(minutesLeft)) return null;
+
+  const warnMinutes = settings[WARN_FIELDS[stage]] as number;
+  const level: SlaLevel = minutesLeft <= 0 ? 'breached' : minutesLeft <= warnMinutes ? 'warning' : 'ok';
+  return { stage, minutesLeft, level };
+};
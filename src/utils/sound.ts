@@ -0,0 +1,55 @@
+/**
+ * Notification sounds generated with the Web Audio API (no audio assets needed)
+ */
+
+let audioContext: AudioContext | null = null;
+
+const getContext = (): AudioContext | null => {
+  if (typeof window === 'undefined') return null;
+  const Ctor = window.AudioContext || (window as any).webkitAudioContext;
+  if (!Ctor) return null;
+  if (!audioContext) {
+    audioContext = new Ctor();
+  }
+  return audioContext;
+};
+
+/**
+ * Unlock audio playback; browsers only allow it after a user gesture
+ * @returns {Promise<boolean>} Whether audio is ready to play
+ */
+export const unlockAudio = async (): Promise<boolean> => {
+  const context = getContext();
+  if (!context) return false;
+  if (context.state === 'suspended') {
+    await context.resume();
+  }
+  return context.state === 'running';
+};
+
+/**
+ * Play a short two-tone chime
+ * @param {number} volume - Gain between 0 and 1
+ */
+export const playChime = (volume: number = 0.4) => {
+  const context = getContext();
+  if (!context || context.state !== 'running') return;
+
+  const start = context.currentTime;
+  [880, 1320].forEach((frequency, index) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const noteStart = start + index * 0.18;
+
+    oscillator.type = 'sine';
+    oscillator.frequency.setValueAtTime(frequency, noteStart);
+    gain.gain.setValueAtTime(0, noteStart);
+    gain.gain.linearRampToValueAtTime(volume, noteStart + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.001, noteStart + 0.6);
+
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(noteStart);
+    oscillator.stop(noteStart + 0.65);
+  });
+};
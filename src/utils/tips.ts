@@ -0,0 +1,15 @@
+/**
+ * Driver tip helpers shared by checkout and the after-delivery tip dialog
+ */
+
+// Preset amounts in Toman
+export const TIP_PRESETS: readonly number[] = [5000, 10000, 20000];
+
+// Upper bound for custom amounts, guards against a stray extra zero
+export const MAX_TIP = 500000;
+
+/**
+ * Clamp a typed amount to a whole, non-negative tip
+ */
+export const normalizeTip = (value: number): number =>
+  Math.min(MAX_TIP, Math.max(0, Math.round(Number.isFinite(value) ? value : 0)));